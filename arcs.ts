@@ -0,0 +1,233 @@
+/*
+Arc geometry:
+- Profile points can be joined by circular arcs as well as straight lines, with each arc held by the point it ends at
+- An arc is given by its radius alone, signed for which way it bulges: positive away from the axis (convex), negative toward it (concave)
+- The sign doesn't depend on which way the profile is travelled, so arcs are unchanged by reversing, mirroring into machining coordinates,
+  and splitting at section boundaries
+- Calculations are done on radius against z, as the circle is distorted when drawn against diameter, but points are still given as diameters
+- Arcs are limited to 180 degrees, and may not turn back on themselves in z, so profiles stay free of undercuts
+*/
+
+/**
+ * Center, midpoint and direction of an arc between two profile points.
+ */
+interface ArcGeometry {
+    center: DimensionPoint
+    midpoint: DimensionPoint
+    // Unsigned radius of the arc
+    radius: number
+    // Direction when travelled from start to end, viewed with X up and Z to the right
+    clockwise: boolean
+}
+
+/**
+ * Finds the geometry of the arc joining two profile points.
+ *
+ * @param start The point the arc begins at.
+ * @param end The point the arc ends at, holding the signed radius.
+ * @return The center, midpoint and direction of the arc.
+ */
+function arcGeometry(start: DimensionPoint, end: DimensionPoint): ArcGeometry {
+    if (end.radius === undefined || end.radius === 0) {
+        throw new RangeError(`The segment ending at z = ${end.z} is not an arc.`)
+    }
+    let radius: number = Math.abs(end.radius)
+    let dz: number = end.z - start.z
+    let dr: number = (end.x - start.x) / 2
+    let chord: number = Math.hypot(dz, dr)
+
+    if (dz === 0) {
+        throw new RangeError(`An arc cannot join two diameters at the same location (z = ${end.z}).`)
+    }
+    if (radius < chord / 2 - 1e-9) {
+        throw new RangeError(`Arc radius ${radius} is too small to reach from z = ${start.z} to z = ${end.z}.`)
+    }
+
+    // Unit normal to the chord, pointing away from the axis
+    let normalZ: number = -dr / chord
+    let normalR: number = dz / chord
+    if (normalR < 0) {
+        normalZ = -normalZ
+        normalR = -normalR
+    }
+
+    // Convex arcs bulge away from the axis, so their center lies toward it
+    let bulge: number = (end.radius > 0) ? 1 : -1
+    let height: number = Math.sqrt(Math.max(0, radius * radius - chord * chord / 4))
+    let chordZ: number = (start.z + end.z) / 2
+    let chordR: number = (start.x + end.x) / 4
+
+    let center: DimensionPoint = new DimensionPoint(2 * (chordR - bulge * height * normalR), chordZ - bulge * height * normalZ)
+    let midpoint: DimensionPoint = new DimensionPoint(2 * (chordR + bulge * (radius - height) * normalR), chordZ + bulge * (radius - height) * normalZ)
+
+    // The midpoint lies to the left of the chord when travelling clockwise
+    let cross: number = dz * (midpoint.x - start.x) / 2 - dr * (midpoint.z - start.z)
+
+    return { center: center, midpoint: midpoint, radius: radius, clockwise: cross > 0 }
+}
+
+/**
+ * Finds the center of an arc as given in G code, from its end points, radius and direction.  The shorter of the two possible arcs is used.
+ *
+ * @param start The point the arc begins at.
+ * @param end The point the arc ends at.
+ * @param radius The unsigned radius of the arc.
+ * @param clockwise Whether the arc runs clockwise (G02).
+ * @return The center of the arc.
+ */
+function arcCenterFromRadius(start: DimensionPoint, end: DimensionPoint, radius: number, clockwise: boolean): DimensionPoint {
+    let dz: number = end.z - start.z
+    let dr: number = (end.x - start.x) / 2
+    let chord: number = Math.hypot(dz, dr)
+    if (chord === 0 || radius < chord / 2 - 1e-6) {
+        throw new RangeError(`Arc radius ${radius} cannot join the given points.`)
+    }
+
+    // The center lies to the right of the chord when travelling clockwise
+    let side: number = clockwise ? 1 : -1
+    let height: number = Math.sqrt(Math.max(0, radius * radius - chord * chord / 4))
+    let centerZ: number = (start.z + end.z) / 2 + side * height * dr / chord
+    let centerR: number = (start.x + end.x) / 4 - side * height * dz / chord
+
+    return new DimensionPoint(2 * centerR, centerZ)
+}
+
+/**
+ * Finds the angle swept by an arc, measured on radius against z.
+ *
+ * @return The angle of the start point from the center, and the signed angle swept, positive when counterclockwise.
+ */
+function arcSweep(start: DimensionPoint, end: DimensionPoint, center: DimensionPoint, clockwise: boolean): { startAngle: number, sweep: number } {
+    let startAngle: number = Math.atan2((start.x - center.x) / 2, start.z - center.z)
+    let endAngle: number = Math.atan2((end.x - center.x) / 2, end.z - center.z)
+    let sweep: number = endAngle - startAngle
+
+    if (clockwise) {
+        while (sweep >= 0) {
+            sweep -= 2 * Math.PI
+        }
+    }
+    else {
+        while (sweep <= 0) {
+            sweep += 2 * Math.PI
+        }
+    }
+
+    return { startAngle: startAngle, sweep: sweep }
+}
+
+/**
+ * Breaks an arc into points joined by straight lines.
+ *
+ * @param start The point the arc begins at.
+ * @param end The point the arc ends at.
+ * @param center The center of the arc.
+ * @param clockwise Whether the arc runs clockwise.
+ * @param tolerance The largest distance allowed between the lines and the arc, measured on diameter.
+ * @return Points along the arc after the start point, ending with the end point.  None of the points hold a radius.
+ */
+function arcPoints(start: DimensionPoint, end: DimensionPoint, center: DimensionPoint, clockwise: boolean, tolerance: number): DimensionPoint[] {
+    let radius: number = Math.hypot(start.z - center.z, (start.x - center.x) / 2)
+    let { startAngle, sweep } = arcSweep(start, end, center, clockwise)
+
+    // Largest angle per line that keeps within tolerance of the arc
+    let maxStep: number = 2 * Math.acos(Math.max(-1, 1 - tolerance / (2 * radius)))
+    let numSteps: number = Math.max(1, Math.ceil(Math.abs(sweep) / maxStep))
+
+    let points: DimensionPoint[] = []
+    for (let i = 1; i < numSteps; i++) {
+        let angle: number = startAngle + i * sweep / numSteps
+        points.push(new DimensionPoint(center.x + 2 * radius * Math.sin(angle), center.z + radius * Math.cos(angle)))
+    }
+    points.push(new DimensionPoint(end.x, end.z))
+
+    return points
+}
+
+/**
+ * Checks that an arc in a profile can be turned.  The arc must not pass the furthest point of its circle in z, where it would turn back on itself.
+ *
+ * @param start The point the arc begins at.
+ * @param end The point the arc ends at, holding the signed radius.
+ */
+function checkArc(start: DimensionPoint, end: DimensionPoint): void {
+    let arc: ArcGeometry = arcGeometry(start, end)
+    let { startAngle, sweep } = arcSweep(start, end, arc.center, arc.clockwise)
+
+    // The furthest points in z are at whole multiples of 180 degrees
+    let low: number = Math.min(startAngle, startAngle + sweep) / Math.PI
+    let high: number = Math.max(startAngle, startAngle + sweep) / Math.PI
+    if (Math.ceil(low + 1e-9) < high - 1e-9) {
+        throw new RangeError(`The arc ending at z = ${end.z} turns back on itself, which would need an undercut.`)
+    }
+}
+
+/**
+ * Finds the diameter of an arc at a location within it.
+ *
+ * @param start The point the arc begins at.
+ * @param end The point the arc ends at, holding the signed radius.
+ * @param z The location to find the diameter at.
+ * @return The diameter of the arc at z.
+ */
+function arcDiameterAt(start: DimensionPoint, end: DimensionPoint, z: number): number {
+    let arc: ArcGeometry = arcGeometry(start, end)
+    let offset: number = Math.sqrt(Math.max(0, arc.radius * arc.radius - (z - arc.center.z) * (z - arc.center.z)))
+    return arc.center.x + 2 * ((end.radius! > 0) ? offset : -offset)
+}
+
+/**
+ * Replaces the arcs in a profile with straight lines, for use where only lines can be cut, such as scaled roughing passes.
+ *
+ * @param points The profile, with arcs held by the points they end at.
+ * @param tolerance The largest distance allowed between the lines and the arcs, measured on diameter.
+ * @return The profile as points joined by straight lines.
+ */
+function expandArcs(points: DimensionPoint[], tolerance: number): DimensionPoint[] {
+    let expanded: DimensionPoint[] = []
+
+    points.forEach((point, index) => {
+        if (index > 0 && point.radius !== undefined) {
+            let arc: ArcGeometry = arcGeometry(points[index - 1], point)
+            expanded.push(...arcPoints(points[index - 1], point, arc.center, arc.clockwise, tolerance))
+        }
+        else {
+            expanded.push(new DimensionPoint(point.x, point.z))
+        }
+    })
+
+    return expanded
+}
+
+/**
+ * Reverses the order of a profile, moving each arc to the point it now ends at.  The radius keeps its sign, as that doesn't
+ * depend on which way the profile is travelled.
+ *
+ * @param points The profile, with arcs held by the points they end at.
+ * @return The profile in reverse order.
+ */
+function reversePoints(points: DimensionPoint[]): DimensionPoint[] {
+    return points.map((point, index) => new DimensionPoint(point.x, point.z, (index + 1 < points.length) ? points[index + 1].radius : undefined)).reverse()
+}
+
+/**
+ * Finds the largest diameter of a profile, including the tops of any convex arcs.
+ *
+ * @param points The profile, with arcs held by the points they end at.
+ * @return The largest diameter.
+ */
+function profileMaxDiameter(points: DimensionPoint[]): number {
+    let maxDiameter: number = Math.max(...points.map(point => point.x))
+
+    points.forEach((point, index) => {
+        if (index > 0 && point.radius !== undefined && point.radius > 0) {
+            let arc: ArcGeometry = arcGeometry(points[index - 1], point)
+            // The top of the circle is only reached if it lies within the arc
+            if (arc.center.z > Math.min(points[index - 1].z, point.z) && arc.center.z < Math.max(points[index - 1].z, point.z)) {
+                maxDiameter = Math.max(maxDiameter, arc.center.x + 2 * arc.radius)
+            }
+        }
+    })
+
+    return maxDiameter
+}
@@ -0,0 +1,339 @@
+/*
+Batch generation of a mandrel family:
+- A family is a base profile and a table of variants, each differing from the base by a diameter offset, a diameter scale factor,
+  a shorter length, its stock diameter and its part number
+- The table's first row names its columns, in any order, with blank cells taking the base's values
+- Offsets, lengths and stock diameters are given in the same units as the base profile
+- Each variant is prepared as a job of its own, so it has its own sections, pulls and estimate
+- Programs are written per variant, or combined into one program as set by the "batchOutput" parameter:
+    - Separate programs are each laid out by the job's template, with the variant's part number
+    - A combined program calls each part in turn as a subprogram ending in M99, with a stop to load stock between parts
+    - Each part's subroutines are numbered within a block of PART_SUBROUTINE_STEP, so parts don't share them
+*/
+
+/**
+ * A single size of a mandrel family, as read from a row of the variant table.
+ */
+interface MandrelVariant {
+    // Part number given to the variant's program, or "" to keep the job's part number
+    partNumber: string
+    // Amount added to every diameter, after scaling
+    diameterOffset: number
+    // Factor every diameter is multiplied by
+    scale: number
+    // Length the base profile is cut to, measured from its first point, or 0 for its full length
+    length: number
+    // Stock diameter, or NaN to use the base stock
+    stockDiameter: number
+    // Row of the table the variant was read from (1 based), counting the header
+    row: number
+}
+
+/**
+ * A variant as a job of its own, ready to be generated.
+ */
+interface BatchPart {
+    // Part number, or the variant's place in the table if it has none
+    name: string
+    stockDiameter: number
+    profile: Profile
+    params: JobParameters
+}
+
+/**
+ * The program generated for one variant.
+ */
+interface BatchProgram {
+    name: string
+    code: string
+}
+
+// Ways the programs of a family can be written
+const BATCH_OUTPUTS: string[] = ["separate", "combined"]
+
+// Columns of the variant table, as named in its header row
+const VARIANT_COLUMNS: string[] = ["partNumber", "diameterOffset", "scale", "length", "stockDiameter"]
+
+// Numbering given to each part of a combined program, within which its section subroutines are numbered by hundreds
+const PART_SUBROUTINE_STEP = 1000
+
+// Parts in a combined program, as subprograms are numbered up to 9999 on Fanuc style controls
+const MAX_COMBINED_PARTS = 9
+
+/**
+ * Reads a table of variants, as given to genBatch or read from a variant file.
+ *
+ * @param table The table, with a header row naming its columns.
+ * @return The variants, in the order given.
+ */
+function readVariantTable(table: unknown[][]): MandrelVariant[] {
+    if (table.length === 0) {
+        throw new RangeError("The variant table is empty.")
+    }
+    // Units and punctuation are dropped, so "Stock Diameter (in)" is read as "stockdiameter"
+    let header: string[] = table[0].map(cell => String(cell).toLowerCase().replace(/\(.*\)|\[.*\]/g, "").replace(/[^a-z]/g, ""))
+    let columns: number[] = VARIANT_COLUMNS.map(name => header.indexOf(name.toLowerCase()))
+    if (columns.every(column => column === -1)) {
+        throw new RangeError(`The first row of the variant table must name its columns: ${VARIANT_COLUMNS.join(", ")}.`)
+    }
+
+    let variants: MandrelVariant[] = []
+    table.slice(1).forEach((cells, index) => {
+        let row: number = index + 2
+        // Blank rows are skipped, allowing spacer rows and unused rows at the end of the range
+        if (cells.every(cell => String(cell).trim() === "")) {
+            return
+        }
+        let text = (column: number): string => (column === -1 || column >= cells.length) ? "" : String(cells[column]).trim()
+        let number = (column: number, fallback: number): number => {
+            let value: string = text(column)
+            if (value === "") {
+                return fallback
+            }
+            if (!isNumericCell(value)) {
+                throw new TypeError(`Variant row ${row}: ${VARIANT_COLUMNS[columns.indexOf(column)]} must be a number, got "${value}".`)
+            }
+            return +value
+        }
+
+        let variant: MandrelVariant = {
+            partNumber: text(columns[0]),
+            diameterOffset: number(columns[1], 0),
+            scale: number(columns[2], 1),
+            length: number(columns[3], 0),
+            stockDiameter: number(columns[4], NaN),
+            row: row
+        }
+        if (variant.scale <= 0) {
+            throw new RangeError(`Variant row ${row}: scale must be greater than zero.`)
+        }
+        if (variant.length < 0) {
+            throw new RangeError(`Variant row ${row}: length must not be negative, or 0 for the full length.`)
+        }
+        variants.push(variant)
+    })
+
+    if (variants.length === 0) {
+        throw new RangeError("The variant table holds no variants.")
+    }
+    return variants
+}
+
+/**
+ * Makes the profile of a variant from the base profile.
+ *
+ * @param profile The base profile, with points sorted by location.
+ * @param variant The variant.
+ * @return The variant's profile.
+ */
+function variantProfile(profile: Profile, variant: MandrelVariant): Profile {
+    // Scaling the diameters of an arc would no longer leave it round
+    if (variant.scale !== 1 && profile.radii.some(radius => radius !== 0)) {
+        throw new RangeError(`Variant row ${variant.row}: a scale can't be applied to a profile with arcs, use a diameter offset instead.`)
+    }
+
+    let count: number = profile.locations.length
+    if (variant.length > 0 && count > 0) {
+        let end: number = profile.locations[0] + variant.length
+        if (end > profile.locations[count - 1] + 1e-9) {
+            throw new RangeError(`Variant row ${variant.row}: length must not be longer than the base profile, which is ${+(profile.locations[count - 1] - profile.locations[0]).toFixed(6)} long.`)
+        }
+        count = profile.locations.filter(location => location <= end + 1e-9).length
+
+        // A length between points ends on the line or arc joining them, with an arc keeping its radius
+        if (Math.abs(profile.locations[count - 1] - end) > 1e-9) {
+            let diameter: number
+            if (profile.radii[count] !== 0) {
+                diameter = arcDiameterAt(new DimensionPoint(profile.diameters[count - 1], profile.locations[count - 1]),
+                    new DimensionPoint(profile.diameters[count], profile.locations[count], profile.radii[count]), end)
+            }
+            else {
+                diameter = profile.diameters[count - 1] + (profile.diameters[count] - profile.diameters[count - 1])
+                    * (end - profile.locations[count - 1]) / (profile.locations[count] - profile.locations[count - 1])
+            }
+            profile = {
+                diameters: profile.diameters.slice(0, count).concat([+diameter.toFixed(6)]),
+                locations: profile.locations.slice(0, count).concat([end]),
+                radii: profile.radii.slice(0, count + 1),
+                rows: profile.rows.slice(0, count + 1)
+            }
+            count++
+        }
+    }
+
+    return {
+        diameters: profile.diameters.slice(0, count).map(diameter => +(diameter * variant.scale + variant.diameterOffset).toFixed(6)),
+        locations: profile.locations.slice(0, count),
+        radii: profile.radii.slice(0, count),
+        rows: profile.rows.slice(0, count)
+    }
+}
+
+/**
+ * Makes a job of each variant of a family.
+ *
+ * @param stockDiameter The base stock diameter, used by variants that don't give their own.
+ * @param profile The base profile, with points sorted by location.
+ * @param variants The variants.
+ * @param params The job parameters, shared by every variant.
+ * @return A part for each variant.
+ */
+function batchParts(stockDiameter: number, profile: Profile, variants: MandrelVariant[], params: JobParameters): BatchPart[] {
+    return variants.map((variant, index) => {
+        let partParams: JobParameters = params
+        if (variant.partNumber !== "") {
+            partParams = copyParameters(params)
+            partParams.job.partNumber = variant.partNumber
+        }
+        return {
+            name: (variant.partNumber === "") ? `Variant ${index + 1}` : variant.partNumber,
+            stockDiameter: isNaN(variant.stockDiameter) ? stockDiameter : variant.stockDiameter,
+            profile: variantProfile(profile, variant),
+            params: partParams
+        }
+    })
+}
+
+/**
+ * Runs a step for one part of a family, naming the part in any error it throws.
+ */
+function forBatchPart<T>(part: BatchPart, step: () => T): T {
+    try {
+        return step()
+    } catch (err) {
+        err.message = `${part.name}: ${err.message}`
+        throw err
+    }
+}
+
+/**
+ * Makes a report for one part of a family, holding the problems already found reading the family's inputs.
+ */
+function batchPartReport(report: ValidationReport): ValidationReport {
+    let partReport: ValidationReport = new ValidationReport()
+    partReport.issues = report.issues.slice()
+    return partReport
+}
+
+/**
+ * Generates a separate program for each variant of a family.
+ *
+ * @param stockDiameter The base stock diameter.
+ * @param profile The base profile, with points sorted by location.
+ * @param variants The variants.
+ * @param params The job parameters to use.
+ * @param report Optional, a report holding any problems found reading the inputs, which each part's problems are added to a copy of.
+ * @return The program of each variant.  An error naming the part is thrown if any part can't be generated.
+ */
+function buildBatchPrograms(stockDiameter: number, profile: Profile, variants: MandrelVariant[], params: JobParameters, report: ValidationReport = new ValidationReport()): BatchProgram[] {
+    return batchParts(stockDiameter, profile, variants, params).map(part => ({
+        name: part.name,
+        code: forBatchPart(part, () => generateProgram(part.stockDiameter, part.profile, part.params, batchPartReport(report)))
+    }))
+}
+
+/**
+ * Generates one program machining every variant of a family in turn.  The main program is laid out by the job's template, and
+ * calls each part as a subprogram, stopping to load stock before each part after the first.
+ *
+ * @param stockDiameter The base stock diameter.
+ * @param profile The base profile, with points sorted by location.
+ * @param variants The variants.
+ * @param params The job parameters to use.
+ * @param report Optional, a report holding any problems found reading the inputs, which each part's problems are added to a copy of.
+ * @return The program.  An error naming the part is thrown if any part can't be generated.
+ */
+function buildBatchProgram(stockDiameter: number, profile: Profile, variants: MandrelVariant[], params: JobParameters, report: ValidationReport = new ValidationReport()): ProgramBuilder {
+    if (variants.length > MAX_COMBINED_PARTS) {
+        throw new RangeError(`A combined program can hold at most ${MAX_COMBINED_PARTS} parts, write separate programs for larger families.`)
+    }
+    let parts: BatchPart[] = batchParts(stockDiameter, profile, variants, params)
+
+    let warnings: string[] = []
+    let jobs: PreparedJob[] = parts.map(part => forBatchPart(part, () => {
+        let partReport: ValidationReport = batchPartReport(report)
+        let job: PreparedJob = prepareJob(part.stockDiameter, part.profile, part.params, partReport)
+        if (job.sections.length * 100 >= PART_SUBROUTINE_STEP) {
+            throw new RangeError(`A part of a combined program can have at most ${PART_SUBROUTINE_STEP / 100 - 1} sections, write separate programs for longer parts.`)
+        }
+        partReport.warnings.forEach(issue => warnings.push(`WARNING - ${part.name}: ${ValidationReport.describe(issue)}`))
+        return job
+    }))
+
+    // Each part is machined as a program of its own, to be placed in a subprogram
+    let bodies: ProgramBuilder[] = parts.map((part, index) => {
+        let body: ProgramBuilder = new ProgramBuilder(part.params)
+        body.comment(`${part.name}, ${jobs[index].stockDiameter} ${params.units} diameter stock`)
+        machineJob(body, jobs[index], (index + 1) * PART_SUBROUTINE_STEP)
+        return body
+    })
+
+    let program: ProgramBuilder = new ProgramBuilder(params)
+    parts.forEach((part, index) => {
+        if (index > 0) {
+            program.optionalStop(`Load ${jobs[index].stockDiameter} ${params.units} diameter stock for ${part.name}`)
+        }
+        program.call((index + 1) * PART_SUBROUTINE_STEP)
+    })
+
+    // The estimate lists each part as an operation
+    let partEstimates: OperationEstimate[] = bodies.map((body, index) => Object.assign(estimateProgram(body).total, { name: parts[index].name }))
+    let total: OperationEstimate = newOperationEstimate("Total")
+    partEstimates.forEach(estimate => {
+        total.cuttingTime += estimate.cuttingTime
+        total.rapidTime += estimate.rapidTime
+        total.passes += estimate.passes
+        total.removedVolume += estimate.removedVolume
+    })
+    let estimate: ProgramEstimate = { operations: partEstimates, total: total, units: unitAbbreviation(params) }
+
+    let template: ProgramTemplate = params.templates[params.template]
+    let sectionCount: number = jobs.reduce((count, job) => count + job.sections.length, 0)
+    let values = templateValues(params, jobs[0].stockDiameter, sectionCount, estimate)
+    // The stock is only given in the header when every part shares it, and is otherwise noted for each part
+    if (jobs.some(job => job.stockDiameter !== jobs[0].stockDiameter)) {
+        values.stock = ""
+        values.stockDiameter = ""
+    }
+    let notes: string[] = [`${parts.length} parts: ${parts.map(part => part.name).join(", ")}`]
+        .concat(programNotes("", params), estimateComments(estimate))
+    let header: ToolpathBlock[] = warnings.map(text => ({ type: "comment", text: text } as CommentBlock))
+    program.insertBlocks(0, header.concat(renderTemplate(template.header, values, notes), renderTemplate(template.setup, values, notes)))
+    program.insertBlocks(program.blocks.length, renderTemplate(template.footer, values, notes))
+
+    bodies.forEach((body, index) => program.subprogram((index + 1) * PART_SUBROUTINE_STEP, body.blocks))
+    return program
+}
+
+/**
+ * Generates the programs for a family of mandrels made from one base profile, as separate programs or one combined program as set
+ * by the batchOutput parameter.
+ *
+ * @param {number} stockDiameter The diameter of the rod stock, used by variants that don't give their own.
+ * @param {Array<number>} diameterPoints Diameter measurments for the base profile, as given to genCode.
+ * @param {Array<Array<string>>} variantTable Table of variants, with a header row naming its columns: partNumber, diameterOffset, scale, length and stockDiameter.  Blank cells take the base's values.
+ * @param {Array<number>=} optPointLocations Locations of the points given in diameterPoints, as given to genCode.
+ * @param {Array<Array<string>>|string=} optParameters Job parameter overrides, as given to genCode.
+ * @param {Array<number>=} optRadiusList Radii of arcs reaching each point from the previous one, as given to genCode.
+ * @return A row per variant holding its part number and program, or a single cell holding the combined program.  Problems are given in place of a program.
+ * @customfunction
+ */
+function genBatch(stockDiameter, diameterList, variantTable, optLocationList?, optParameters?, optRadiusList?): string[][] {
+    let job: JobInputs = readJob(stockDiameter, diameterList, optLocationList, optParameters, optRadiusList)
+    try {
+        let variants: MandrelVariant[] = readVariantTable(variantTable)
+        if (job.params.batchOutput === "combined") {
+            return [[buildBatchProgram(job.stockDiameter, job.profile, variants, job.params, job.report).serialize()]]
+        }
+        // Each variant is generated on its own, so one that can't be made doesn't hide the others
+        return batchParts(job.stockDiameter, job.profile, variants, job.params).map(part => {
+            try {
+                return [part.name, generateProgram(part.stockDiameter, part.profile, part.params, batchPartReport(job.report))]
+            } catch (err) {
+                return [part.name, err.message]
+            }
+        })
+    } catch (err) {
+        return [[err.message]]
+    }
+}
@@ -0,0 +1,155 @@
+/*
+Section boundaries:
+- A profile longer than the stickout is machined in sections, with the stock pulled between them, and every section must fit
+  within the stickout
+- "fixed" placement puts a boundary every stickout from the end machined first, which can land part way along a taper, where the
+  diameter at the boundary has to be interpolated
+- Boundaries can be given with "sections.boundaries", as locations along the profile as given, separated by commas, in the units
+  of the program.  These are used whatever the placement
+- "auto" placement chooses each boundary from the profile, working from the end machined first:
+    - A section is kept to the stickout, and to sections.maxSlenderness times the smallest diameter it holds, so thin tips are cut
+      in shorter sections and deflect less
+    - The boundary is put on the furthest profile point within that length where the slope changes by no more than
+      sections.maxSlopeChange, so no diameter is interpolated and no boundary lands on a corner or shoulder
+    - Where no such point is within reach, the boundary is placed as far along as allowed, as fixed placement would
+*/
+
+// Ways of placing section boundaries, as used in job parameters
+const SECTION_PLACEMENTS: string[] = ["fixed", "auto"]
+
+/**
+ * Reads the list of section boundaries given in the job parameters.
+ *
+ * @param text The boundary locations separated by commas, or "" for none.
+ * @return The locations in the order given, with NaN for any entry that isn't a number.
+ */
+function parseBoundaryList(text: string): number[] {
+    if (text.trim() === "") {
+        return []
+    }
+    return text.split(",").map(entry => isNumericCell(entry.trim()) ? +entry : NaN)
+}
+
+/**
+ * Finds where a profile is divided into sections, as set by the job parameters.
+ *
+ * @param profile The profile in the order it is machined, measured from the end machined first.
+ * @param params The job parameters in use.
+ * @param reversed Whether the profile is machined from its last point, so given boundaries are measured from the other end.
+ * @return The locations of the boundaries between sections, in increasing order, not including the ends of the profile.
+ */
+function sectionBoundaries(profile: Profile, params: JobParameters, reversed: boolean = false): number[] {
+    let length: number = Math.max(...profile.locations)
+    let given: number[] = parseBoundaryList(params.sections.boundaries)
+    if (given.length > 0) {
+        return reversed ? given.map(location => +(length - location).toFixed(6)).reverse() : given
+    }
+    if (params.sections.placement === "auto") {
+        return autoBoundaries(profile, params)
+    }
+    return fixedBoundaries(length, params.stickout)
+}
+
+/**
+ * Places a boundary every stickout along a profile.
+ *
+ * @param length The length of the profile.
+ * @param stickout The stickout, which every section but the last is as long as.
+ * @return The locations of the boundaries.
+ */
+function fixedBoundaries(length: number, stickout: number): number[] {
+    let boundaries: number[] = []
+    let sectionCount: number = Math.ceil(length / stickout)
+    for (let i = 1; i < sectionCount; i++) {
+        boundaries.push(i * stickout)
+    }
+    return boundaries
+}
+
+/**
+ * Chooses the boundaries of a profile's sections to suit its shape, as described above.
+ *
+ * @param profile The profile in the order it is machined.
+ * @param params The job parameters in use.
+ * @return The locations of the boundaries.
+ */
+function autoBoundaries(profile: Profile, params: JobParameters): number[] {
+    let points: DimensionPoint[] = profile.diameters.map((diameter, i) =>
+        new DimensionPoint(diameter, profile.locations[i], (profile.radii[i] === 0) ? undefined : profile.radii[i]))
+    let length: number = Math.max(...profile.locations)
+
+    // Points a boundary may be placed on, which are neither on a shoulder nor an end of an arc, and don't turn too sharply
+    let candidates: number[] = []
+    for (let i = 1; i < points.length - 1; i++) {
+        let before: DimensionPoint = points[i - 1]
+        let point: DimensionPoint = points[i]
+        let after: DimensionPoint = points[i + 1]
+        if (point.z - before.z < 1e-9 || after.z - point.z < 1e-9 || point.radius !== undefined || after.radius !== undefined) {
+            continue
+        }
+        if (Math.abs(slopeAngle(point, after) - slopeAngle(before, point)) <= params.sections.maxSlopeChange + 1e-9) {
+            candidates.push(point.z)
+        }
+    }
+
+    let boundaries: number[] = []
+    let start: number = 0
+    while (true) {
+        let end: number = furthestSectionEnd(points, start, length, params)
+        if (end >= length - 1e-9) {
+            return boundaries
+        }
+        let reachable: number[] = candidates.filter(z => z > start + 1e-9 && z <= end + 1e-9)
+        start = (reachable.length > 0) ? reachable[reachable.length - 1] : end
+        boundaries.push(start)
+    }
+}
+
+/**
+ * Finds how far a section starting at a location can reach, keeping within the stickout and the slenderness limit.
+ *
+ * @param points The profile, with arcs held by the points they end at.
+ * @param start The location the section starts at.
+ * @param length The length of the profile.
+ * @param params The job parameters in use.
+ * @return The furthest location the section can end at.
+ */
+function furthestSectionEnd(points: DimensionPoint[], start: number, length: number, params: JobParameters): number {
+    let end: number = Math.min(start + params.stickout, length)
+    if (params.sections.maxSlenderness === 0) {
+        return end
+    }
+    // Shortening the section can only raise its smallest diameter, so this settles on the longest section within the limit
+    for (let i = 0; i < 100; i++) {
+        let diameter: number = smallestDiameter(points, start, end)
+        // A pointed tip has no slenderness to limit
+        let limit: number = start + params.sections.maxSlenderness * diameter
+        if (diameter <= 0 || limit >= end - 1e-9) {
+            break
+        }
+        end = limit
+    }
+    return end
+}
+
+/**
+ * Finds the smallest diameter of a profile between two locations, taken from its points and the diameters at either end.
+ *
+ * @param points The profile, with arcs held by the points they end at.
+ * @param start The first location.
+ * @param end The last location.
+ * @return The smallest diameter.
+ */
+function smallestDiameter(points: DimensionPoint[], start: number, end: number): number {
+    // The first section starts from 0, which can be before the first point
+    start = Math.max(start, points[0].z)
+    let diameters: number[] = points.filter(point => point.z > start && point.z < end).map(point => point.x)
+    return Math.min(profileDiameterAt(points, start), profileDiameterAt(points, end), ...diameters)
+}
+
+/**
+ * Finds the angle of a line of the profile from the axis, in degrees, rising away from the end machined first.
+ */
+function slopeAngle(start: DimensionPoint, end: DimensionPoint): number {
+    return Math.atan2((end.x - start.x) / 2, end.z - start.z) * 180 / Math.PI
+}
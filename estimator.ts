@@ -0,0 +1,323 @@
+/*
+Cycle time and material removal estimates:
+- Times are worked out from the recorded toolpath, so they follow the moves sectionCycle and partOffCycle actually produce
+- Feeds per revolution (G95) are converted to units per minute at the spindle speed in use, which under constant surface speed is
+  found at the diameter being cut.  Feeds per minute (G94) are used as given, and rapids run at the machine's rapid rate
+- Native cycles are timed as the simulated cycles that stand in for them, as both cut closely matching passes
+- A pass is a run of feed moves between rapids, with the spindle running, that feeds in toward the part
+- Removed volume is the stock less the turned profile over each section's own length, so overlaps aren't counted twice, and the
+  part off removes a slot the width of its tool
+- Time spent by the operator pulling stock, and by the machine changing tools and starting the spindle, isn't included
+*/
+
+/**
+ * Estimate for one operation of a program, or the total of all of them.
+ */
+interface OperationEstimate {
+    // Name of the operation, as marked in the toolpath
+    name: string
+    // Time spent on feed moves, including those made with the spindle stopped, in minutes
+    cuttingTime: number
+    // Time spent on rapid moves, in minutes
+    rapidTime: number
+    passes: number
+    // Material removed, in cubic units of the program
+    removedVolume: number
+}
+
+/**
+ * Estimates for every operation of a program.
+ */
+interface ProgramEstimate {
+    operations: OperationEstimate[]
+    total: OperationEstimate
+    // Short name of the units of the program, such as "in"
+    units: string
+}
+
+/**
+ * Modal state followed through the toolpath while it is timed.
+ */
+interface TimingState {
+    x: number | undefined
+    z: number | undefined
+    perRevolution: boolean
+    feed: number
+    // Spindle speed, or 0 while stopped
+    rpm: number
+    surfaceSpeed: number | undefined
+    // Whether the current run of feed moves has fed in toward the part
+    cutting: boolean
+    // Whether the last move was a feed move, so a run of them is under way
+    feeding: boolean
+}
+
+/**
+ * Estimates the time taken and material removed by each operation of a program.  Blocks before the first operation, such as the
+ * program setup, are counted toward it.
+ *
+ * @param program The completed program.
+ * @return The estimate for each operation, and their total.
+ */
+function estimateProgram(program: ProgramBuilder): ProgramEstimate {
+    let params: JobParameters = program.params
+    let operations: OperationEstimate[] = []
+    let state: TimingState = { x: undefined, z: undefined, perRevolution: false, feed: 0, rpm: 0, surfaceSpeed: undefined, cutting: false, feeding: false }
+
+    let current: OperationEstimate = newOperationEstimate("")
+    program.blocks.forEach(block => {
+        if (block.type === "operation") {
+            if (current.name !== "") {
+                operations.push(current)
+                current = newOperationEstimate("")
+            }
+            current.name = block.name
+            current.removedVolume = block.removedVolume
+            return
+        }
+        timeBlock(block, state, current, params)
+    })
+    if (current.name === "") {
+        current.name = "Program"
+    }
+    operations.push(current)
+
+    let total: OperationEstimate = newOperationEstimate("Total")
+    operations.forEach(operation => {
+        total.cuttingTime += operation.cuttingTime
+        total.rapidTime += operation.rapidTime
+        total.passes += operation.passes
+        total.removedVolume += operation.removedVolume
+    })
+    return { operations: operations, total: total, units: unitAbbreviation(params) }
+}
+
+function newOperationEstimate(name: string): OperationEstimate {
+    return { name: name, cuttingTime: 0, rapidTime: 0, passes: 0, removedVolume: 0 }
+}
+
+/**
+ * Adds the time and passes of a single block to an operation's estimate, following the modal state it changes.
+ */
+function timeBlock(block: ToolpathBlock, state: TimingState, estimate: OperationEstimate, params: JobParameters): void {
+    switch (block.type) {
+        case "rapid": {
+            let distance: number = moveDistance(state, block.point)
+            estimate.rapidTime += distance / params.rapidRate
+            state.feeding = false
+            break
+        }
+        case "feed":
+        case "arc": {
+            let startX: number | undefined = state.x
+            let distance: number = (block.type === "arc") ? arcLength(block) : moveDistance(state, block.point)
+            if (block.type === "arc") {
+                state.x = block.end.x
+                state.z = block.end.z
+            }
+            if (block.feed !== undefined) {
+                state.feed = block.feed
+            }
+
+            // Under constant surface speed the spindle speeds up as the diameter falls, so the middle of the move is used
+            let rpm: number = state.rpm
+            if (state.perRevolution && params.spindleMode === "css" && state.surfaceSpeed !== undefined && startX !== undefined && state.x !== undefined) {
+                rpm = rpmForSurfaceSpeed(state.surfaceSpeed, (startX + state.x) / 2, params.maxRpm, params.units)
+            }
+            let rate: number = state.perRevolution ? state.feed * rpm : state.feed
+            if (rate > 0) {
+                estimate.cuttingTime += distance / rate
+            }
+
+            // A run of feed moves is counted as a pass once it feeds in toward the part
+            if (!state.feeding) {
+                state.cutting = false
+            }
+            if (!state.cutting && state.rpm > 0 && startX !== undefined && state.x !== undefined && state.x < startX) {
+                state.cutting = true
+                estimate.passes++
+            }
+            state.feeding = true
+            break
+        }
+        case "cycle":
+            timeCycle(block, state, estimate, params)
+            break
+        case "spindle":
+            state.rpm = block.on ? block.rpm! : 0
+            state.surfaceSpeed = block.on ? block.surfaceSpeed : undefined
+            break
+        case "feedMode":
+            state.perRevolution = block.mode === "perRevolution"
+            state.feed = block.feed
+            break
+        case "tool":
+            // A new tool's position is unknown until it is next moved, so the move bringing it in isn't timed
+            state.x = undefined
+            state.z = undefined
+            state.feeding = false
+            break
+    }
+}
+
+/**
+ * Times a native cycle by building the simulated cycle that stands in for it, and timing that from the cycle's start point.
+ */
+function timeCycle(block: CycleBlock, state: TimingState, estimate: OperationEstimate, params: JobParameters): void {
+    state.x = block.start.x
+    state.z = block.start.z
+    state.feeding = false
+    simulatedCycleBlocks(block, state.feed, params).forEach(simulatedBlock => timeBlock(simulatedBlock, state, estimate, params))
+}
+
+/**
+ * Builds the simulated moves that stand in for a native cycle, which cut closely matching passes.  These are used wherever the
+ * moves a cycle makes on the machine are needed, such as timing it or drawing it.
+ *
+ * @param block The cycle.
+ * @param feed The feed in effect before the cycle, used by finishing cycles which give none of their own.
+ * @param params The job parameters in use.
+ * @return The moves of the cycle, starting from and returning to its start point.
+ */
+function simulatedCycleBlocks(block: CycleBlock, feed: number, params: JobParameters): ToolpathBlock[] {
+    let simulatedParams: JobParameters = copyParameters(params)
+    simulatedParams.G74Functional = false
+    simulatedParams.G75Functional = false
+    let simulated: ProgramBuilder = new ProgramBuilder(simulatedParams)
+    simulated.rapidPosition(block.start.getMovePoint())
+    let startIndex: number = simulated.blocks.length
+
+    if (block.cycle === "contour") {
+        simG75(simulated, block.points, block.I, block.U, block.F)
+    }
+    else if (block.cycle === "box") {
+        // Each pass feeds down to its diameter and along to the end, then returns to the start of the box
+        let passes: number = Math.max(1, Math.ceil((block.start.x - block.end.x - 2 * block.U) / (2 * block.I)))
+        for (let i = 1; i <= passes; i++) {
+            let passDiameter: number = block.start.x - (block.start.x - block.end.x - 2 * block.U) * i / passes
+            simulated.linearInterpolation(new MovePoint(passDiameter), block.F)
+            simulated.linearInterpolation(new MovePoint(undefined, undefined, block.end.z), block.F)
+            simulated.rapidPosition(new MovePoint(block.start.x))
+            simulated.rapidPosition(new MovePoint(undefined, undefined, block.start.z))
+        }
+    }
+    else {
+        basicTaper(simulated, block.points, feed)
+        simulated.rapidPosition(block.start.getMovePoint())
+    }
+    return simulated.blocks.slice(startIndex)
+}
+
+/**
+ * Finds the length of a straight move from the current position, and moves the current position there.  X is given on diameter,
+ * so is halved to find the distance travelled.
+ *
+ * @return The distance travelled, or 0 if the starting position is unknown.
+ */
+function moveDistance(state: TimingState, point: MovePoint): number {
+    let distance: number = 0
+    if (state.x !== undefined && state.z !== undefined) {
+        let dx: number = point.axesPresent.x ? (point.x! - state.x) / 2 : 0
+        let dz: number = point.axesPresent.z ? point.z! - state.z : 0
+        distance = Math.hypot(dx, dz)
+    }
+    if (point.axesPresent.x) {
+        state.x = point.x
+    }
+    if (point.axesPresent.z) {
+        state.z = point.z
+    }
+    return distance
+}
+
+function arcLength(block: ArcBlock): number {
+    return block.radius * Math.abs(arcSweep(block.start, block.end, block.center, block.clockwise).sweep)
+}
+
+/**
+ * Finds the material removed turning a section from the stock, over the section's own length.  Any overlap with the previous
+ * section was already removed by it.
+ *
+ * @param stockDiameter The diameter of the stock.
+ * @param section The section being turned.
+ * @return The volume removed, in cubic units of the section.
+ */
+function sectionRemovedVolume(stockDiameter: number, section: Section): number {
+    let points: DimensionPoint[] = expandArcs(section.points, 1e-4).filter(point => point.z >= -1e-9)
+    let profileVolume: number = 0
+    for (let i = 1; i < points.length; i++) {
+        // Each straight line turns a frustum, with shoulders turning none
+        let d1: number = points[i - 1].x
+        let d2: number = points[i].x
+        profileVolume += Math.PI * (points[i].z - points[i - 1].z) * (d1 * d1 + d1 * d2 + d2 * d2) / 12
+    }
+    return Math.PI * stockDiameter * stockDiameter * section.length / 4 - profileVolume
+}
+
+/**
+ * Describes a time in minutes as minutes and seconds, such as "4:05".
+ */
+function formatMinutes(minutes: number): string {
+    let seconds: number = Math.round(minutes * 60)
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`
+}
+
+/**
+ * Rounds a volume for display, to about the same precision in either units.
+ */
+function roundVolume(volume: number, units: string): number {
+    return +volume.toFixed((units === "mm") ? 0 : 4)
+}
+
+/**
+ * Describes an estimate as lines for the program header: the total first, then each operation.
+ */
+function estimateComments(estimate: ProgramEstimate): string[] {
+    let describe = (operation: OperationEstimate): string =>
+        `${operation.passes} pass${(operation.passes === 1) ? "" : "es"}, ${roundVolume(operation.removedVolume, estimate.units)} cu ${estimate.units} removed`
+
+    let total: OperationEstimate = estimate.total
+    return [`Estimated machine time ${formatMinutes(total.cuttingTime + total.rapidTime)}, ${formatMinutes(total.cuttingTime)} feed and ${formatMinutes(total.rapidTime)} rapid, ${describe(total)}`]
+        .concat(estimate.operations.map(operation => `${operation.name} - ${formatMinutes(operation.cuttingTime + operation.rapidTime)}, ${describe(operation)}`))
+}
+
+/**
+ * Lays an estimate out as a table with a header row, for display in the sheet.  Times are in minutes.
+ */
+function estimateTable(estimate: ProgramEstimate): (string | number)[][] {
+    let table: (string | number)[][] = [["Operation", "Cutting time (min)", "Rapid time (min)", "Total time (min)", "Passes", `Removed volume (cu ${estimate.units})`]]
+    estimate.operations.concat([estimate.total]).forEach(operation => {
+        table.push([
+            operation.name,
+            +operation.cuttingTime.toFixed(2),
+            +operation.rapidTime.toFixed(2),
+            +(operation.cuttingTime + operation.rapidTime).toFixed(2),
+            operation.passes,
+            roundVolume(operation.removedVolume, estimate.units)
+        ])
+    })
+    return table
+}
+
+/**
+ * Estimates how long a mandrel will take to machine, and how much material is removed, for each section and in total.
+ *
+ * @param {number} stockDiameter The diameter of the rod stock to be machined.
+ * @param {Array<number>} diameterPoints Diameter measurments for the mandrel, as given to genCode.
+ * @param {Array<number>=} optPointLocations Locations of the points given in diameterPoints, as given to genCode.
+ * @param {Array<Array<string>>|string=} optParameters Job parameter overrides, as given to genCode.
+ * @param {Array<number>=} optRadiusList Radii of arcs reaching each point from the previous one, as given to genCode.
+ * @return A table of the cutting and rapid time in minutes, passes and removed volume of each operation, or the problems found if code can't be generated.
+ * @customfunction
+ */
+function estimateCode(stockDiameter, diameterList, optLocationList, optParameters?, optRadiusList?): (string | number)[][] {
+    let job: JobInputs = readJob(stockDiameter, diameterList, optLocationList, optParameters, optRadiusList)
+    try {
+        return estimateTable(estimateProgram(buildProgram(job.stockDiameter, job.profile, job.params, job.report)))
+    } catch (err) {
+        if (err instanceof ValidationError) {
+            return err.report.toTable()
+        }
+        return [[err.message]]
+    }
+}
@@ -0,0 +1,307 @@
+/*
+Profile fitting:
+- Measured profiles are noisy and unevenly spaced, so they can be smoothed and resampled before being divided into sections
+- Repeated readings at a location are averaged first, so a fitted profile can't hold shoulders or arcs
+- "least squares" smoothing fits a straight line through the readings within fit.window of each point, which follows tapers and
+  bellies while averaging out noise
+- "monotone" fitting finds the closest diameters that only grow, or only shrink, along the mandrel (pool adjacent violators), then
+  joins them with a monotone cubic spline (Fritsch-Carlson) that doesn't overshoot between them
+- Resampling evaluates the fit every fit.pitch from the first location, always keeping the last, and fitted values are rounded to
+  the printed precision
+- The deviation of the fitted profile, as it will be cut, from every raw reading is found, with the largest noted in the program
+  header and a warning given if it exceeds fit.tolerance
+*/
+
+// Names of the fitting methods, as used in job parameters
+const FIT_METHODS: string[] = ["none", "least squares", "monotone"]
+
+/**
+ * A profile fitted to measured readings, with how closely it follows them.
+ */
+interface ProfileFit {
+    profile: Profile
+    // Largest difference on diameter between the fitted profile and a reading, or 0 if the profile is used as given
+    maxDeviation: number
+    // Row of the reading furthest from the fit
+    deviationRow: number
+    // Description for the program header, or "" if the profile is used as given
+    description: string
+}
+
+/**
+ * Readings at a single location, averaged.
+ */
+interface Reading {
+    location: number
+    diameter: number
+    // Number of readings averaged, used to weight the fit
+    weight: number
+    // Row of the first of the readings
+    row: number
+}
+
+/**
+ * Fits and resamples a measured profile as set in the job parameters.
+ *
+ * @param profile The profile as read, with points sorted by location.
+ * @param params The job parameters in use.
+ * @param report The report to add any problems to.
+ * @return The fitted profile, or the profile unchanged if no fit is set or it can't be fitted.
+ */
+function fitProfile(profile: Profile, params: JobParameters, report: ValidationReport): ProfileFit {
+    let unchanged: ProfileFit = { profile: profile, maxDeviation: 0, deviationRow: 0, description: "" }
+    if (params.fit.method === "none" && params.fit.pitch === 0) {
+        return unchanged
+    }
+
+    let arcRows: number[] = profile.rows.filter((row, i) => profile.radii[i] !== 0)
+    arcRows.forEach(row => report.error("invalidRadius", "radius", row, "Arc radii can't be given for a profile that is fitted or resampled."))
+    let readings: Reading[] = combineReadings(profile)
+    // Profiles too short to fit are left for validation to report
+    if (arcRows.length > 0 || readings.length < 2) {
+        return unchanged
+    }
+
+    let fitted: (location: number) => number = fitFunction(readings, params)
+    let round = (value: number): number => +value.toFixed(params.decimals)
+    let resampled: boolean = params.fit.pitch > 0
+    let locations: number[] = resampled ? resampleLocations(readings[0].location, readings[readings.length - 1].location, params.fit.pitch).map(round) : readings.map(reading => reading.location)
+    let fittedProfile: Profile = {
+        diameters: locations.map(location => round(fitted(location))),
+        locations: locations,
+        radii: locations.map(() => 0),
+        // Resampled points don't come from any one row
+        rows: resampled ? locations.map(() => 0) : readings.map(reading => reading.row)
+    }
+
+    // The fitted points are cut as straight lines between them, so the deviation is measured from those
+    let fit: ProfileFit = { profile: fittedProfile, maxDeviation: 0, deviationRow: 0, description: "" }
+    profile.diameters.forEach((diameter, i) => {
+        let deviation: number = Math.abs(linearDiameterAt(fittedProfile.locations, fittedProfile.diameters, profile.locations[i]) - diameter)
+        if (deviation > fit.maxDeviation) {
+            fit.maxDeviation = deviation
+            fit.deviationRow = profile.rows[i]
+        }
+    })
+    fit.maxDeviation = +fit.maxDeviation.toFixed(params.decimals)
+
+    if (params.fit.tolerance > 0 && fit.maxDeviation > params.fit.tolerance) {
+        report.warning("fitDeviation", "diameter", fit.deviationRow, `Fitted profile is ${fit.maxDeviation} from this reading, more than the fit tolerance of ${params.fit.tolerance}.`)
+    }
+
+    let steps: string[] = []
+    if (params.fit.method === "least squares") {
+        steps.push(`smoothed by least squares over ${params.fit.window} ${params.units}`)
+    }
+    else if (params.fit.method === "monotone") {
+        steps.push("fitted with a monotone spline")
+    }
+    if (resampled) {
+        steps.push(`resampled at ${params.fit.pitch} ${params.units} pitch`)
+    }
+    fit.description = `Profile ${steps.join(" and ")} from ${profile.diameters.length} readings, max deviation ${fit.maxDeviation}` + ((fit.maxDeviation > 0) ? ` at row ${fit.deviationRow}` : "")
+    return fit
+}
+
+/**
+ * Averages the readings taken at each location of a sorted profile.
+ */
+function combineReadings(profile: Profile): Reading[] {
+    let readings: Reading[] = []
+    profile.locations.forEach((location, i) => {
+        let last: Reading | undefined = readings[readings.length - 1]
+        if (last !== undefined && last.location === location) {
+            last.diameter = (last.diameter * last.weight + profile.diameters[i]) / (last.weight + 1)
+            last.weight++
+        }
+        else {
+            readings.push({ location: location, diameter: profile.diameters[i], weight: 1, row: profile.rows[i] })
+        }
+    })
+    return readings
+}
+
+/**
+ * Creates the function giving the fitted diameter at any location, for the method set in the job parameters.
+ */
+function fitFunction(readings: Reading[], params: JobParameters): (location: number) => number {
+    let locations: number[] = readings.map(reading => reading.location)
+    switch (params.fit.method) {
+        case "least squares":
+            return location => localLineFit(readings, location, params.fit.window)
+        case "monotone":
+            return monotoneCubic(locations, monotoneDiameters(readings))
+        default:
+            return location => linearDiameterAt(locations, readings.map(reading => reading.diameter), location)
+    }
+}
+
+/**
+ * Finds the locations a fit is resampled at.
+ *
+ * @return Locations every pitch from the first, ending with the last even if it is closer than a full pitch.
+ */
+function resampleLocations(first: number, last: number, pitch: number): number[] {
+    let locations: number[] = []
+    for (let i = 0; first + i * pitch < last - pitch * 1e-6; i++) {
+        locations.push(first + i * pitch)
+    }
+    locations.push(last)
+    return locations
+}
+
+/**
+ * Finds the diameter at a location on a profile of straight lines, holding the end diameters beyond its ends.
+ *
+ * @param locations Locations of the profile points, sorted in increasing order.
+ * @param diameters Diameters of the profile points.
+ * @param location The location to find the diameter at.
+ */
+function linearDiameterAt(locations: number[], diameters: number[], location: number): number {
+    if (location <= locations[0]) {
+        return diameters[0]
+    }
+    for (let i = 1; i < locations.length; i++) {
+        if (location <= locations[i]) {
+            return diameters[i - 1] + (location - locations[i - 1]) / (locations[i] - locations[i - 1]) * (diameters[i] - diameters[i - 1])
+        }
+    }
+    return diameters[diameters.length - 1]
+}
+
+/**
+ * Fits a weighted least squares line through the readings within half a window either side of a location, and finds its
+ * diameter there.  The two nearest readings are used where the window holds fewer.
+ */
+function localLineFit(readings: Reading[], location: number, window: number): number {
+    let near: Reading[] = readings.filter(reading => Math.abs(reading.location - location) <= window / 2 + 1e-9)
+    if (near.length < 2) {
+        near = readings.slice().sort((a, b) => Math.abs(a.location - location) - Math.abs(b.location - location)).slice(0, 2)
+    }
+
+    // Locations are measured from the one being fitted, so the line's intercept is the fitted diameter
+    let sw: number = 0, sz: number = 0, sd: number = 0, szz: number = 0, szd: number = 0
+    near.forEach(reading => {
+        let z: number = reading.location - location
+        sw += reading.weight
+        sz += reading.weight * z
+        sd += reading.weight * reading.diameter
+        szz += reading.weight * z * z
+        szd += reading.weight * z * reading.diameter
+    })
+    let denominator: number = sw * szz - sz * sz
+    if (Math.abs(denominator) < 1e-12) {
+        return sd / sw
+    }
+    let slope: number = (sw * szd - sz * sd) / denominator
+    return (sd - slope * sz) / sw
+}
+
+/**
+ * Finds the weighted least squares diameters that only change in one direction along the mandrel, by pooling adjacent readings
+ * that break it.  The direction is that of the line best fitting all of the readings.
+ *
+ * @return The fitted diameter for each reading.
+ */
+function monotoneDiameters(readings: Reading[]): number[] {
+    let mean = (values: number[]): number => values.reduce((sum, value, i) => sum + value * readings[i].weight, 0) / readings.reduce((sum, reading) => sum + reading.weight, 0)
+    let meanLocation: number = mean(readings.map(reading => reading.location))
+    let meanDiameter: number = mean(readings.map(reading => reading.diameter))
+    let trend: number = mean(readings.map(reading => (reading.location - meanLocation) * (reading.diameter - meanDiameter)))
+    // Decreasing profiles are fitted as increasing ones with their diameters negated
+    let sign: number = (trend < 0) ? -1 : 1
+
+    let blocks: { value: number, weight: number, count: number }[] = []
+    readings.forEach(reading => {
+        blocks.push({ value: sign * reading.diameter, weight: reading.weight, count: 1 })
+        while (blocks.length > 1 && blocks[blocks.length - 2].value > blocks[blocks.length - 1].value) {
+            let last = blocks.pop()!
+            let previous = blocks[blocks.length - 1]
+            previous.value = (previous.value * previous.weight + last.value * last.weight) / (previous.weight + last.weight)
+            previous.weight += last.weight
+            previous.count += last.count
+        }
+    })
+
+    let diameters: number[] = []
+    blocks.forEach(block => {
+        for (let i = 0; i < block.count; i++) {
+            diameters.push(sign * block.value)
+        }
+    })
+    return diameters
+}
+
+/**
+ * Creates a monotone cubic spline through points, with slopes limited so it never overshoots between them (Fritsch-Carlson).
+ *
+ * @param locations Locations of the points, sorted in increasing order.
+ * @param diameters Diameters of the points, which must only change in one direction.
+ * @return The function giving the spline's diameter at a location, holding the end diameters beyond its ends.
+ */
+function monotoneCubic(locations: number[], diameters: number[]): (location: number) => number {
+    let n: number = locations.length
+    let secants: number[] = []
+    for (let i = 0; i < n - 1; i++) {
+        secants.push((diameters[i + 1] - diameters[i]) / (locations[i + 1] - locations[i]))
+    }
+
+    let slopes: number[] = [secants[0]]
+    for (let i = 1; i < n - 1; i++) {
+        slopes.push((secants[i - 1] * secants[i] <= 0) ? 0 : (secants[i - 1] + secants[i]) / 2)
+    }
+    slopes.push(secants[n - 2])
+
+    secants.forEach((secant, i) => {
+        if (secant === 0) {
+            slopes[i] = 0
+            slopes[i + 1] = 0
+            return
+        }
+        let a: number = slopes[i] / secant
+        let b: number = slopes[i + 1] / secant
+        let s: number = a * a + b * b
+        if (s > 9) {
+            let t: number = 3 / Math.sqrt(s)
+            slopes[i] = t * a * secant
+            slopes[i + 1] = t * b * secant
+        }
+    })
+
+    return location => {
+        if (location <= locations[0]) {
+            return diameters[0]
+        }
+        if (location >= locations[n - 1]) {
+            return diameters[n - 1]
+        }
+        let i: number = locations.findIndex(point => point >= location) - 1
+        let h: number = locations[i + 1] - locations[i]
+        let t: number = (location - locations[i]) / h
+        let t2: number = t * t
+        let t3: number = t2 * t
+        return (2 * t3 - 3 * t2 + 1) * diameters[i] + (t3 - 2 * t2 + t) * h * slopes[i] + (-2 * t3 + 3 * t2) * diameters[i + 1] + (t3 - t2) * h * slopes[i + 1]
+    }
+}
+
+/**
+ * Fits a measured profile as set in the job parameters, for checking the fit in the sheet before generating code.
+ *
+ * @param {Array<number>} diameterPoints Diameter readings for the mandrel, as given to genCode.
+ * @param {Array<number>=} optPointLocations Locations of the readings given in diameterPoints, as given to genCode.
+ * @param {Array<Array<string>>|string=} optParameters Job parameter overrides setting the fit, as given to genCode.
+ * @return A table of the fitted locations and diameters in the units of the program, followed by the largest deviation from the readings, or the problems found.
+ * @customfunction
+ */
+function fittedProfile(diameterList, optLocationList, optParameters?): (string | number)[][] {
+    let job: JobInputs = readJob(0, diameterList, optLocationList, optParameters)
+    let fit: ProfileFit = fitProfile(scaleProfile(job.profile, inputScale(job.params)), job.params, job.report)
+    if (job.report.hasErrors()) {
+        return job.report.toTable()
+    }
+
+    let table: (string | number)[][] = [["Location", "Diameter"]]
+    fit.profile.locations.forEach((location, i) => table.push([location, fit.profile.diameters[i]]))
+    table.push(["Max deviation", fit.maxDeviation])
+    return table
+}
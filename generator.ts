@@ -1,20 +1,32 @@
 /*
 Overview of process as understood by me:
 - Begin by arranging data into a unified array of DimensionPoint objects
-- Perform basic checks of material dimensions vs points
+    - The stock and profile can be given in inches or millimeters, and are converted to the units of the program
+    - Measured profiles can optionally be smoothed or given a monotone fit, and resampled to a fixed pitch
+    - Profiles can be any shape that can be turned without undercuts: tapers, straight lands, bellies, and step shoulders
+    - A shoulder is given as two diameters at the same location, in the order they are reached along the mandrel
+    - Points can optionally be reached by an arc from the previous point, for tip radii and blends, which are cut with G02/G03
+- Validate the stock, points, tool plunge angles and sections, reporting every problem found with its input row
 - Divide into sections based on pull length (should be able to leave last one as short one)
+    - Boundaries are every stickout, given in the parameters, or placed to suit the profile (see boundaries.ts)
+    - Sections can overlap the end of the previous one, re-cutting the join to blend out any step from the pull
 - Generate beginning code:
     - Basic overall settings
 - Generate cycle codes:
-    - Set zeroing location
+    - Set zeroing location, raised by the expected collet shift if compensated
     - Pause program
     - Back off to safe location
     - Start spindle
-    - Roughing and finishing passes
+    - Roughing and finishing passes, changing to the finishing tool if a separate one is used
+        - Finishing can be preceded by a semi-finishing pass and followed by spring passes, and cut toward or away from the collet
+        - Simulated roughing uses scaled copies of the contour, or constant depth step downs that only cut where material remains
     - Move to safe location
     - Stop spindle
 - Cleanup:
+    - Optionally part off the finished mandrel
     - End of program stop
+- Estimate the time and material removed by each section from the finished toolpath, noted in the header
+- A setup sheet for the operator can be built from the same sections, listing the pulls, tools and diameters to check
 */
 
 class MovePoint {
@@ -41,10 +53,13 @@ class MovePoint {
 class DimensionPoint {
     x: number
     z: number
+    // Radius of the arc reaching this point from the previous one, positive if convex and negative if concave, or undefined for a straight line
+    radius: number | undefined
 
-    constructor (x: number, z: number) {
+    constructor (x: number, z: number, radius?: number) {
         this.x = x
         this.z = z
+        this.radius = radius
     }
 
     getMovePoint(): MovePoint {
@@ -53,33 +68,40 @@ class DimensionPoint {
 }
 
 class Section {
-    // Points in traditional format, with first point at z = 0 and last at z = length
+    // Points in traditional format, with the section starting at z = 0 and ending at z = length
+    // Any overlap re-cutting the end of the previous section comes first, at negative z
     points: DimensionPoint[]
     // Modified version of points array, offset by stickout and sorted by descending z to allow ease of access for machining operations
     machiningPoints: DimensionPoint[]
+    // Machining point at the start of the section (z = 0), which the stock is pulled to
+    startPoint: DimensionPoint
 
     // General data about the points in the section
     length: number
     maxDiameter: number
+    // Location along the profile the section starts at
+    start: number
 
-    constructor (points: DimensionPoint[]) {
+    constructor (points: DimensionPoint[], params: JobParameters, start: number = 0) {
         // Set basic points array
         this.points = points
+        this.start = start
 
         // General data
         this.length = Math.max(...(points.map( (point) => point.z)))
-        this.maxDiameter = Math.max(...(points.map( (point) => point.x)))
+        this.maxDiameter = profileMaxDiameter(points)
 
         // Create a deep copy of each point for machiningPoints
         // Z values are negated and offset to match original range to maintain intended cut order
         this.machiningPoints = []
         this.points.forEach(point => {
-            this.machiningPoints.push(new DimensionPoint(point.x, -point.z + this.length))
+            this.machiningPoints.push(new DimensionPoint(point.x, -point.z + this.length, point.radius))
         })
         this.machiningPoints.sort((a, b) => b.z - a.z)
         this.machiningPoints.forEach(point => {
-            point.z -= global.stickout
+            point.z -= params.stickout
         })
+        this.startPoint = this.machiningPoints.find(point => point.z <= this.length - params.stickout + 1e-9)!
     }
 
     // Provides point in format offset in Z axis such that z values' range is [-length, 0]
@@ -89,280 +111,120 @@ class Section {
 }
 
 
-// CONSTANTS
-// Potential added feature: measure collet shift, also check if that needs to be a function of delta diameter
-const global = {
-    depths: {
-        max: 0.040,
-        min: 0.010
-    },
-    spacing: {
-        xClearance: 0.010,
-        zClearance: 0.100,
-        colletShift: 0.050
-    },
-    feed: 0.002,
-    rpm: 1500,
-    stickout: 1.000,
-    decimals: 4,
-    G75Functional: false,
-    G74Functional: false
-}
-
-var state: {
-    lastGCode: string,
-    lastFeed: number,
-    position: {
-        x: number | undefined,
-        y: number | undefined,
-        z: number | undefined
-    }
-} = {
-    lastGCode: "None",
-    lastFeed: -1,
-    position: {
-        x: undefined,
-        y: undefined,
-        z: undefined
-    }
-}
-
-function rapidPosition(point: MovePoint, comment?: string): string {
-    // Check that of present axes, at least one is separate from the current position
-    if (
-        (!point.axesPresent.x || point.x === state.position.x) &&
-        (!point.axesPresent.y || point.y === state.position.y) &&
-        (!point.axesPresent.z || point.z === state.position.z)
-    ) {
-        return ""
-    }
-    
-    let code: string = ""
-
-    // Check if the last code used was this one
-    // If so, we don't need to print the code
-    if (state.lastGCode != "00") {
-        code += "G00"
-    }
-
-    // Insert axis data where present and new
-    if (point.axesPresent.x && point.x !== state.position.x) {
-        code += "X" + (+point.x!.toFixed(global.decimals))
-        state.position.x = point.x
-    }
-    if (point.axesPresent.y && point.y !== state.position.y) {
-        code += "Y" + (+point.y!.toFixed(global.decimals))
-        state.position.y = point.y
-    }
-    if (point.axesPresent.z && point.z !== state.position.z) {
-        code += "Z" + (+point.z!.toFixed(global.decimals))
-        state.position.z = point.z
-    }
-    
-    // Insert comment if present
-    if (typeof comment !== 'undefined') {
-        code += "(" + comment + ")"
-    }
-
-    // Close line of code
-    code += "\n"
-
-    // Set last G code used and reset feed rate
-    state.lastGCode = "00"
-    state.lastFeed = -1
-
-    return code
-}
-
-function linearInterpolation(point: MovePoint, feed?: number, comment?: string): string {
-    // Check that of present axes, at least one is separate from the current position
-    if (
-        (!point.axesPresent.x || point.x === state.position.x) &&
-        (!point.axesPresent.y || point.y === state.position.y) &&
-        (!point.axesPresent.z || point.z === state.position.z)
-    ) {
-        return ""
-    }
-
-    let code = ""
-
-    // Check if the last code used was this one
-    // If so, we don't need to print the code
-    if (state.lastGCode != "01") {
-        code += "G01"
-    }
-
-    // Insert axis data where present and new
-    if (point.axesPresent.x && point.x !== state.position.x) {
-        code += "X" + (+point.x!.toFixed(global.decimals))
-        state.position.x = point.x
-    }
-    if (point.axesPresent.y && point.y !== state.position.y) {
-        code += "Y" + (+point.y!.toFixed(global.decimals))
-        state.position.y = point.y
-    }
-    if (point.axesPresent.z && point.z !== state.position.z) {
-        code += "Z" + (+point.z!.toFixed(global.decimals))
-        state.position.z = point.z
-    }
-
-    // Insert feed rate if present and changed
-    if (typeof feed !== 'undefined' && feed != state.lastFeed) {
-        code += "F" + (+feed.toFixed(global.decimals))
-    }
-
-    // Insert comment if present
-    if (typeof comment !== 'undefined') {
-        code += "(" + comment + ")"
-    }
-
-    // Close line of code
-    code += "\n"
-
-    // Set last G code used and feed rate
-    state.lastGCode = "01"
-    state.lastFeed = (feed === undefined ? -1 : feed)
-
-    return code
-}
-
-// Currently unused, as no situations need a start and end point setup, but retaining in case it becomes helpful.
-function boxCycle(startPoint: DimensionPoint, endPoint: DimensionPoint, finishBufferRadius: number, feed: number, comment?: string): string {
-    // Set initial position with rapid positioning
-    let code: string = rapidPosition(startPoint.getMovePoint())
-
-    // Set up 
-    code += "G74"
-    code += "X" + (+endPoint.x.toFixed(global.decimals))
-    code += "Z" + (+endPoint.z.toFixed(global.decimals))
-    code += "I" + (+(global.depths.max / 2).toFixed(global.decimals))
-    code += "U" + (+finishBufferRadius.toFixed(global.decimals))
-    code += "F" + (+feed.toFixed(global.decimals))
-
-    if (typeof comment !== 'undefined') {
-        code += "(" + comment + ")"
-    }
-    
-    // Close line of code
-    code += "\n"
-
-    // Reset last used function for safety
-    state.lastGCode = "None"
+/**
+ * Generates a G74 box cycle (or the selected post's equivalent), removing material from the start point down to the end point.
+ * The cutter is returned to the start point by the G74 cycle.
+ *
+ * @param program The program being built.
+ * @param startPoint The initial position of the cutter, defining the outside corner of material to be removed.
+ * @param endPoint The inside corner of material to be removed.
+ * @param finishBufferRadius The amount to be left per side for a later finishing pass (U).
+ * @param feed The feed rate for the cycle.
+ */
+function boxCycle(program: ProgramBuilder, startPoint: DimensionPoint, endPoint: DimensionPoint, finishBufferRadius: number, feed: number, comment?: string): void {
+    // Set initial position with rapid positioning, as the cycle start point defines the material to be removed
+    program.rapidPosition(startPoint.getMovePoint())
 
-    return code
+    // Set up and run cycle
+    program.boxCycle(endPoint, program.tool!.maxDepth / 2, finishBufferRadius, feed, comment)
 }
 
 // TODO: Decide if this should be built around sections or points
 /**
- * Generates a G75 contour cycle for a specified section.
+ * Generates a G75 contour cycle (or the selected post's equivalent) for a specified section.
  * The cutter is returned to the start point by the G75 cycle.
+ * Depth per pass (I) is half of the current tool's maximum depth, as depths are measured on diameter and I is per side.
  *
+ * @param program The program being built.
  * @param startPoint The initial position of the cutter, defining the oustide axes of material to be removed.
  * @param points The points defining the inside contour of material removal.
- * @param subroutineID Not currently in use due to subroutine functionality being unclear.  The number to use as a label for the subroutine.
- * @return Code setting the initial position and running the G75 process.
+ * @param subroutineID The number to use as a label for the contour subroutine, which must be unique within the program.
+ * @param finishBufferRadius The amount to be left per side for the finishing pass (U).
+ * @param feed The feed rate for the cycle.
+ * @param comment Optional comment placed on the cycle.
+ * @param clearDiameter Optional, the smallest diameter that clears material beside the start point, such as earlier sections.
  */
-function contourCycle(startPoint: DimensionPoint, points: DimensionPoint[], subroutineID: number, finishBufferRadius: number, feed: number, comment?: string): string {
-    let code: string = ""
-
+function contourCycle(program: ProgramBuilder, startPoint: DimensionPoint, points: DimensionPoint[], subroutineID: number, finishBufferRadius: number, feed: number, comment?: string, clearDiameter?: number): void {
     // If G75 works, do this the easy way
-    if (global.G75Functional) {
-        // Set initial position
-        code += linearInterpolation(startPoint.getMovePoint(), feed)
-
-        // Set up 
-        code += "G75"
-        code += "I" + (+(global.depths.max / 2).toFixed(global.decimals))
-        code += "U" + (+finishBufferRadius.toFixed(global.decimals))
-        code += "F" + (+feed.toFixed(global.decimals))
-        code += "P" + (+subroutineID.toFixed(global.decimals))
-
-        if (typeof comment !== 'undefined') {
-            code += "(" + comment + ")"
-        }
-
-        // Close line of code
-        code += "\n"
+    if (program.params.G75Functional) {
+        // Set initial position with rapid positioning, as the cycle start point defines the material to be removed
+        program.rapidPosition(startPoint.getMovePoint())
 
-        // Reset last used function for safety
-        state.lastGCode = "None"
-
-        code += taperSubroutine(subroutineID, points)
+        // Set up and run cycle, including the contour subroutine
+        program.contourCycle(points, program.tool!.maxDepth / 2, finishBufferRadius, feed, subroutineID, comment)
     }
 
     // Otherwise, G75 is not available, use custom simulated version (comment for reference in code)
     else {
-        code += "(Simulated G75 Contour cycle" + (comment === undefined ? "" : " - " + comment) + ")\n"
-        code += linearInterpolation(startPoint.getMovePoint(), feed)
-        code += simG75(points, global.depths.max / 2, finishBufferRadius, feed)
+        program.comment("Simulated G75 Contour cycle" + (comment === undefined ? "" : " - " + comment))
+        program.linearInterpolation(startPoint.getMovePoint(), feed)
+        simG75(program, points, program.tool!.maxDepth / 2, finishBufferRadius, feed, clearDiameter)
     }
-    
-    return code
 }
 
 // TODO: sections vs points continues to here
-function taperSubroutine(id: number, points: DimensionPoint[]): string {
-    let code = "}" + id + "\n"
-
-    points.forEach(point => {
-        code += "X" + (+point.x.toFixed(global.decimals)) + "Z" + (+point.z.toFixed(global.decimals)) + "\n"
+function taperSubroutine(id: number, points: DimensionPoint[], params: JobParameters, post: PostProcessor): string {
+    let code = post.subroutineStart(id)
+
+    // Contour lines are straight unless given otherwise, so a motion code is only needed around arcs
+    let motionCode: string = post.linearCode
+    points.forEach((point, index) => {
+        let move = post.contourMove(points[index - 1], point, motionCode, params)
+        code += move.code + "\n"
+        motionCode = move.motionCode
     })
 
-    code += "M99\n"
+    code += post.subroutineEnd()
     
     return code
 }
 
+// Names of the roughing strategies for simulated contour cycles, as used in job parameters
+const ROUGHING_STRATEGIES: string[] = ["scaled", "step down"]
+
 /**
  * Manually simulates a G75 cycle, with some changes to improve functionality
  *
+ * @param program The program being built.
  * @param points The points defining the inside contour of material removal.
  * @param I is the maximum amount to be roughed per pass, defined as the depth of cut per side
  * @param U is the amount to be left on the part for the a finish pass
  * @param F is the feedrate
- * @return Code simulating a G75 cycle through G74 and manual cutter moves.
+ * @param clearDiameter Optional, the smallest diameter that clears material beside the start point, passed to basicTaper
  */
-function simG75(points: DimensionPoint[], I: number, U: number, F: number): string {
+function simG75(program: ProgramBuilder, points: DimensionPoint[], I: number, U: number, F: number, clearDiameter?: number): void {
     /** Basic implementation will be:
      *  - If there is a block of material to remove, use G74 to bring down to maximum diameter of taper (with 2U left)
      *  - Create function to break up taper into multiple scaled passes, with max depth being I and offset by 2 * U
      *  - Run basicTaper over each
+     *  - Or, with the step down strategy, cut constant depth passes only where material remains
+     *  - Arcs can't be scaled, so are first broken into lines within half of the finishing allowance
      */
 
-    let code: string = ""
-    let finishSpacedPoints: DimensionPoint[] = points.map(point => new DimensionPoint(point.x + 2 * U, point.z))
+    let finishSpacedPoints: DimensionPoint[] = expandArcs(points, U).map(point => new DimensionPoint(point.x + 2 * U, point.z))
     let maxDiam: number = Math.max(...finishSpacedPoints.map(point => point.x))
-    let origPoint: MovePoint = new MovePoint(state.position.x, state.position.y, state.position.z)
+    let origPoint: MovePoint = new MovePoint(program.position.x, program.position.y, program.position.z)
 
-    if (global.G74Functional) {
+    if (program.params.G74Functional) {
         let clearZ: number = Math.min(...finishSpacedPoints.map(point => point.z))
         // If there is material to be removed via G74 
         if ((origPoint.x !== undefined) && (maxDiam < origPoint.x)) {
-            code += `G74X${+maxDiam.toFixed(global.decimals)}Z${+clearZ.toFixed(global.decimals)}I${I}U${0}F${F}\n`
-            state.lastGCode = "G74"
-            state.lastFeed = F
-        }
-        let passes: DimensionPoint[][] = genMultiPassPoints(points.map(point => new DimensionPoint(point.x + 2 * U, point.z)), maxDiam, I)
-        for (let pass of passes) {
-            code += basicTaper(pass.map(point => point.getMovePoint()), F)
+            boxCycle(program, new DimensionPoint(origPoint.x, origPoint.z!), new DimensionPoint(maxDiam, clearZ), 0, F)
         }
+        roughingPasses(program, finishSpacedPoints, maxDiam, I, F, clearDiameter)
     }
     else {
-        // Generate tapered cutting passes
-        let passes: DimensionPoint[][] = genMultiPassPoints(points.map(point => new DimensionPoint(point.x + 2 * U, point.z)), (origPoint.x ? origPoint.x : maxDiam), I)
-        for (let pass of passes) {
-            code += basicTaper(pass.map(point => point.getMovePoint()), F, true)
-        }
+        roughingPasses(program, finishSpacedPoints, (origPoint.x ? origPoint.x : maxDiam), I, F, clearDiameter)
     }
 
     // Return to original position
-    code += linearInterpolation(origPoint, F)
-
-    return code
+    program.linearInterpolation(origPoint, F)
 }
 
 /**
  * Helper function to generate points for a set of passes with the specified maximum cut depth
+ * Each pass is the contour scaled between startX and the final points, so passes never cross below the contour, even where it
+ * drops down and rises back up, and each cuts no deeper than I at any point.
  *
  * @param points The points defining the contour to be scaled into suitable passes.
  * @param startX The starting plane of the passes (each point being a scaled value between this and the final cut point)
@@ -390,113 +252,478 @@ function genMultiPassPoints(points: DimensionPoint[], startX: number, I: number)
 }
 
 /**
- * Generates a basic set of linear movements between the specified points.
- * Cutter position at call time is assumed to be a safe location for movement to start point.
- * The cutter is returned to the z position of the start value, and an x clearanced above the maximum level of the taper
+ * Cuts the roughing passes of a simulated contour cycle, using the strategy set in the job parameters.
  *
- * @param points The set of points the cutter will travel along.
- * @param feed The feed rate to be used in the linear interpolations.
- * @param minClearance Optional parameter, if true the cutter is returned to the max diameter of the cut pass.
- * @return Code directing the cutter to follow the specified taper and return to a safe location.
+ * @param program The program being built.
+ * @param points The contour to rough down to, already offset by the finishing allowance and with arcs broken into lines.
+ * @param startX The diameter roughing starts from.
+ * @param I The maximum depth of cut per side.
+ * @param F The feed rate.
+ * @param clearDiameter Optional, the smallest diameter that clears material beside the start point.
+ */
+function roughingPasses(program: ProgramBuilder, points: DimensionPoint[], startX: number, I: number, F: number, clearDiameter?: number): void {
+    if (program.params.roughingStrategy === "step down") {
+        for (let regions of genStepDownPasses(points, startX, I, program.params.depths.min)) {
+            stepDownPass(program, points, regions, F, clearDiameter)
+        }
+    }
+    else {
+        // Generate tapered cutting passes
+        for (let pass of genMultiPassPoints(points, startX, I)) {
+            basicTaper(program, pass, F, clearDiameter)
+        }
+    }
+}
+
+/**
+ * Generates constant depth roughing passes, which step down from startX in equal depths and only cut where material remains.
+ * Each pass cuts along its level, following the contour wherever the contour rises above it, over the stretches where the
+ * contour falls below the level before it.  A final pass then follows the contour over the stretches still below the last level.
+ * The depth of each step is as close to the maximum as divides the full depth evenly, but no less than minDepth.
+ *
+ * @param points The contour to rough down to, with no arcs.
+ * @param startX The starting plane of the passes.
+ * @param I The maximum depth of cut per side.
+ * @param minDepth The minimum depth of cut, measured on diameter.
+ * @return The regions cut by each pass, in order.  Each region is a run of points starting and ending on the level above it.
+ */
+function genStepDownPasses(points: DimensionPoint[], startX: number, I: number, minDepth: number): DimensionPoint[][][] {
+    let depth: number = startX - Math.min(...points.map(point => point.x))
+    let steps: number = Math.max(1, Math.min(Math.ceil(depth / (2 * I)), Math.floor(depth / minDepth)))
+
+    let passes: DimensionPoint[][][] = []
+    for (let i = 1; i <= steps; i++) {
+        let upper: number = startX - (i - 1) * depth / steps
+        // The last pass follows the contour itself rather than a level
+        let lower: number = (i < steps) ? startX - i * depth / steps : -Infinity
+        let regions: DimensionPoint[][] = clipPassRegions(points, upper, lower)
+        if (regions.length > 0) {
+            passes.push(regions)
+        }
+    }
+    return passes
+}
+
+/**
+ * Finds the stretches of a contour that fall below a level, and the path cutting them down to a lower level.
+ *
+ * @param points The contour, with no arcs.
+ * @param upper The level of material left by the previous pass.
+ * @param lower The level cut to, with the path following the contour wherever it is higher.
+ * @return The path over each stretch, in the order cut.
  */
-function basicTaper(points: MovePoint[], feed: number, minClearance?: boolean): string {
-    let code: string = ""
-    let startZ = state.position.z
-    if (minClearance == undefined) {
-        minClearance = false
+function clipPassRegions(points: DimensionPoint[], upper: number, lower: number): DimensionPoint[][] {
+    // Points are added where the contour crosses either level, so each stretch starts and ends exactly on the upper level
+    let crossed: DimensionPoint[] = [points[0]]
+    for (let i = 1; i < points.length; i++) {
+        let start: DimensionPoint = points[i - 1]
+        let end: DimensionPoint = points[i]
+        let crossings: { t: number, x: number }[] = [upper, lower]
+            .filter(level => (start.x - level) * (end.x - level) < 0)
+            .map(level => ({ t: (level - start.x) / (end.x - start.x), x: level }))
+            .sort((a, b) => a.t - b.t)
+        crossings.forEach(crossing => crossed.push(new DimensionPoint(crossing.x, start.z + crossing.t * (end.z - start.z))))
+        crossed.push(end)
     }
 
+    let regions: DimensionPoint[][] = []
+    let region: DimensionPoint[] = []
+    crossed.forEach((point, i) => {
+        if (point.x < upper) {
+            if (region.length === 0 && i > 0) {
+                region.push(crossed[i - 1])
+            }
+            region.push(point)
+        }
+        else if (region.length > 0) {
+            region.push(point)
+            regions.push(region)
+            region = []
+        }
+    })
+    if (region.length > 0) {
+        regions.push(region)
+    }
+
+    // Points along the lower level between its ends add nothing to the path
+    return regions.map(region => region
+        .map(point => new DimensionPoint(Math.max(point.x, lower), point.z))
+        .filter((point, i, path) => i === 0 || i === path.length - 1 || !(point.x === lower && path[i - 1].x === lower && path[i + 1].x === lower)))
+}
+
+/**
+ * Cuts the regions of a single step down pass.  The cutter moves between regions by rapids, clear of the contour between them,
+ * and ends the pass clear of all remaining material, back at the z position it started from.
+ *
+ * @param program The program being built.
+ * @param points The full contour being roughed, used to find the clearance needed.
+ * @param regions The regions of the pass, in the order cut.
+ * @param feed The feed rate.
+ * @param clearDiameter Optional, the smallest diameter that clears material between the end of the pass and its start.
+ */
+function stepDownPass(program: ProgramBuilder, points: DimensionPoint[], regions: DimensionPoint[][], feed: number, clearDiameter?: number): void {
+    let startZ = program.position.z
+    let xClearance: number = program.params.spacing.xClearance
+
+    regions.forEach((region, index) => {
+        // The cutter starts each region above the material, having cleared everything on its way there
+        program.rapidPosition(new MovePoint(undefined, undefined, region[0].z))
+        if (index > 0) {
+            program.rapidPosition(new MovePoint(region[0].x + xClearance))
+        }
+        region.forEach(point => program.linearInterpolation(point.getMovePoint(), feed))
+
+        // Between regions the contour rises above the level, so the cutter lifts clear of it before moving on
+        let next: DimensionPoint[] | undefined = regions[index + 1]
+        let end: DimensionPoint = region[region.length - 1]
+        let retractDiameter: number = (next === undefined)
+            ? Math.max(profileMaxDiameter(points), ...regions.map(other => other[0].x), (clearDiameter === undefined) ? 0 : clearDiameter)
+            : Math.max(end.x, next[0].x, ...points.filter(point => point.z < end.z && point.z > next[0].z).map(point => point.x))
+        program.linearInterpolation(new MovePoint(retractDiameter + xClearance))
+    })
+    program.rapidPosition(new MovePoint(undefined, undefined, startZ))
+}
+
+/**
+ * Generates a basic set of linear and circular movements between the specified points, with arcs used for points holding a radius.
+ * Cutter position at call time is assumed to be clear of all material in x, so that it can travel in z to the start point before feeding in.
+ * Approaching along z first keeps the cutter from cutting across raised parts of the profile, or the previous section, on its way in.
+ * The cutter is returned to the z position it started from, and an x clearanced above the maximum level of the taper
+ *
+ * @param program The program being built.
+ * @param points The set of points the cutter will travel along.
+ * @param feed The feed rate to be used in the interpolations.
+ * @param clearDiameter Optional, the smallest diameter that clears material between the end of the pass and its start, such as earlier sections.
+ */
+function basicTaper(program: ProgramBuilder, points: DimensionPoint[], feed: number, clearDiameter?: number): void {
+    let startZ = program.position.z
+
     // Run path, beginning with movement to start point
-    points.forEach(point => {
-        code += linearInterpolation(point, feed)
+    program.linearInterpolation(new MovePoint(undefined, undefined, points[0].z), feed)
+    points.forEach((point, index) => {
+        if (index > 0 && point.radius !== undefined) {
+            program.circularInterpolation(point, feed)
+        }
+        else {
+            program.linearInterpolation(point.getMovePoint(), feed)
+        }
     })
 
     // Return to clearanced version of start location
-    code += linearInterpolation(new MovePoint(Math.max(...points.map(point => point.x!)) + global.spacing.xClearance))
-    code += rapidPosition(new MovePoint(undefined, undefined, startZ! - global.spacing.zClearance))
-    if (!minClearance) {
-        code += linearInterpolation(new MovePoint(undefined, undefined, startZ))
+    let retractDiameter: number = Math.max(profileMaxDiameter(points), (clearDiameter === undefined) ? 0 : clearDiameter)
+    program.linearInterpolation(new MovePoint(retractDiameter + program.params.spacing.xClearance))
+    program.rapidPosition(new MovePoint(undefined, undefined, startZ))
+}
+
+// Directions the finishing passes can cut in, as used in job parameters
+const FINISHING_DIRECTIONS: string[] = ["toward collet", "away from collet"]
+
+/**
+ * Finds the material roughing leaves on each side for finishing.  Where a section ends the finishing pass also cuts the fillet left
+ * by the roughing tool's nose, so an allowance that isn't set is reduced to keep that cut within the finishing tool's depth.
+ *
+ * @param params The job parameters in use.
+ * @return The finishing allowance set in the job parameters, or a quarter of the maximum depth if none is set, reduced as above,
+ *         which job parameter validation rejects if no allowance is left.
+ */
+function finishAllowance(params: JobParameters): number {
+    if (params.finishing.allowance > 0) {
+        return params.finishing.allowance
     }
-    return code
+    return Math.min(params.depths.max / 4, getTool(params, params.finishingTool).maxDepth / 2 - roughingFillet(params))
 }
 
 /**
- * Generates code for a single section of the provided taper, with length defined in the global data.  The cycle includes:
- * - Setting the cutter to the zeroing location such that the stock can be moved to the new position with a hard stop for reference
+ * Finds how much further the roughing tool's nose leaves material on each side, in the corner where a section meets the stock
+ * beyond it, than the finishing tool's nose reaches.
+ *
+ * @param params The job parameters in use.
+ * @return The difference in nose radius, or 0 if the finishing tool's is as large.
+ */
+function roughingFillet(params: JobParameters): number {
+    return Math.max(0, getTool(params, params.roughingTool).noseRadius - getTool(params, params.finishingTool).noseRadius)
+}
+
+/**
+ * Cuts a single finishing pass over a contour, in the direction set in the job parameters.  Passes away from the collet start
+ * at the end of the section, reaching it along z at the cycle start diameter, which is clear of the stock beyond.
+ *
+ * @param program The program being built.
+ * @param points The contour, in machining coordinates and cutting order toward the collet.
+ * @param feed The feed rate.
+ * @param clearDiameter Optional, the smallest diameter that clears material beside the start of the section.
+ */
+function finishingPass(program: ProgramBuilder, points: DimensionPoint[], feed: number, clearDiameter?: number): void {
+    basicTaper(program, (program.params.finishing.direction === "away from collet") ? reversePoints(points) : points, feed, clearDiameter)
+}
+
+/**
+ * Finds how far the stock is expected to be drawn into the collet as it is clamped after a pull.  The shift is a fixed amount,
+ * plus an amount for each inch of the step between the stock and the diameter the stock is pulled against.
+ *
+ * @param params The job parameters in use.
+ * @param startDiameter The diameter of the stock.
+ * @param pullDiameter The diameter the cutter sits over during the pull.
+ * @return The shift toward the collet, rounded to the printed precision, or 0 if collet shift compensation is off.
+ */
+function colletShift(params: JobParameters, startDiameter: number, pullDiameter: number): number {
+    if (!params.colletCompensation) {
+        return 0
+    }
+    let shift: number = params.spacing.colletShift + params.spacing.colletShiftRate * (startDiameter - pullDiameter)
+    return Math.max(0, +shift.toFixed(params.decimals))
+}
+
+/**
+ * Generates code for a single section of the provided taper, with length defined by the job parameters.  The cycle includes:
+ * - Setting the roughing tool to the zeroing location such that the stock can be moved to the new position with a hard stop for reference
  * - Safely starting the spindle
- * - Roughing and finishing passes of the mandrel taper
+ * - Roughing and finishing passes of the mandrel taper, each with its own tool, feed and speed
  * - Return to safe position and spindle stop
  *
+ * @param program The program being built, which the pull set point, spindle start, taper machining, and spindle stop cycle are added to.
  * @param startDiameter The diameter of the material at the beginning of a machining section.
  * @param section A Section object containing points to be machined.
  * @param subroutineID A number with which to label the G75 subroutine (if it is functional)
- * @return Code corresponding to the pull set point, spindle start, taper machining, and spindle stop cycle.
+ * @param pullDiameter Optional, the largest diameter already machined that passes the cutter as stock is pulled.  Defaults to the first diameter of the section.
  */
-function sectionCycle(startDiameter: number, section: Section, subroutineID: number): string {
+function sectionCycle(program: ProgramBuilder, startDiameter: number, section: Section, subroutineID: number, pullDiameter?: number): void {
+    let params: JobParameters = program.params
+    let firstPoint: DimensionPoint = section.startPoint
+    // Roughing starts from the stock, while finishing runs over the section's own diameters
+    let roughingTool: Tool = getTool(params, params.roughingTool, startDiameter)
+    let finishingTool: Tool = getTool(params, params.finishingTool, section.maxDiameter)
+
     // Confirm that points in section will be accurately cut into material
     if (section.maxDiameter > startDiameter) {
         throw new RangeError("Provided taper includes diameter(s) exceeding provided start diameter, taper will not be accurate!")
     }
 
-    let code = ""
-    // Set pull location for current section.  This will be the point in the section with the highest z value.
+    // Earlier sections pass the cutter during the pull, so it must sit above them while still leaving stock to stop against
+    if (pullDiameter === undefined || pullDiameter < firstPoint.x) {
+        pullDiameter = firstPoint.x
+    }
+    else if (pullDiameter > firstPoint.x && pullDiameter + params.spacing.xClearance >= startDiameter) {
+        throw new RangeError("Previously machined diameters are too close to the stock diameter to pull stock against the cutter.")
+    }
+
+    // Set pull location for current section.  This will be the start of the section, after any overlap with the previous one.
+    // The roughing tool begins each section, so it is used as the stop
     // To do this with the spindle stopped, this needs to be in IPM instead of IPR
-    code += `G94F${global.rpm * global.feed}\n`
-    code += linearInterpolation(new MovePoint(section.machiningPoints[0].x + global.spacing.xClearance, undefined, section.machiningPoints[0].z))
+    // The stop is raised by the expected collet shift, so the stock is drawn back to the start of the section as it is clamped
+    let shift: number = colletShift(params, startDiameter, pullDiameter)
+    program.toolChange(roughingTool)
+    program.feedMode("perMinute", roughingTool.rpm * roughingTool.feed)
+    if (shift > 0) {
+        program.comment(`Pull raised ${shift} for collet shift`)
+    }
+    program.linearInterpolation(new MovePoint(pullDiameter + params.spacing.xClearance, undefined, firstPoint.z + shift))
     
     // Pause program for stock pull/insertion
-    code += "M01(Move stock to appropriate position)\n"
+    program.optionalStop("Move stock to appropriate position")
     
     // Move to safe starting point
-    code += linearInterpolation(new MovePoint(startDiameter + global.spacing.xClearance, undefined, section.length - global.stickout + global.spacing.zClearance))
+    program.linearInterpolation(new MovePoint(startDiameter + params.spacing.xClearance, undefined, section.length - params.stickout + params.spacing.zClearance))
 
     // Begin running spindle and set feed rate/type
-    code += `M03S${global.rpm}\n`
-    code += `G95F${global.feed}\n`
+    program.spindleStart(roughingTool.rpm, roughingTool.surfaceSpeed)
+    program.feedMode("perRevolution", roughingTool.feed)
 
     // Run G75 roughing cycle
-    code += "(Roughing Cycle)\n"
-    code += contourCycle(
-        new DimensionPoint(startDiameter + global.spacing.xClearance, section.length - global.stickout + global.spacing.zClearance),
+    let cycleStart: DimensionPoint = new DimensionPoint(startDiameter + params.spacing.xClearance, section.length - params.stickout + params.spacing.zClearance)
+    program.comment("Roughing Cycle")
+    contourCycle(
+        program,
+        cycleStart,
         section.machiningPoints,
         subroutineID,
-        global.depths.max / 4,
-        global.feed)
-
-    // Run finishing pass
-    code += "(Finishing Pass)\n"
-    code += basicTaper(section.machiningPoints.map(point => point.getMovePoint()), global.feed)
+        finishAllowance(params),
+        roughingTool.feed,
+        undefined,
+        pullDiameter)
+
+    // Run finishing pass, using the post's finishing cycle if the contour cycle was used and the controller has one
+    // With geometric compensation the nose radius path differs from the roughed contour, so is always cut directly, as are passes
+    // away from the collet, which the finishing cycle can't run
+    // With controller compensation the tool is kept to the right of the contour, above the part when cutting toward the collet,
+    // and to the left when cutting away from it
+    // An optional semi-finishing pass first removes half of the allowance, and spring passes repeat the finishing pass afterward
+    let finishing = params.finishing
+    program.comment(finishing.semiFinish ? "Semi-Finishing Pass" : "Finishing Pass")
+    if (finishingTool.number !== roughingTool.number) {
+        program.toolChange(finishingTool)
+        program.rapidPosition(cycleStart.getMovePoint())
+    }
+    let speedChanged: boolean = (params.spindleMode === "css") ? finishingTool.surfaceSpeed !== roughingTool.surfaceSpeed : finishingTool.rpm !== roughingTool.rpm
+    if (speedChanged) {
+        program.spindleStart(finishingTool.rpm, finishingTool.surfaceSpeed)
+    }
+    if (finishingTool.feed !== roughingTool.feed) {
+        program.feedMode("perRevolution", finishingTool.feed)
+    }
+    let geometricCompensation: boolean = params.noseCompensation === "geometric" && finishingTool.noseRadius > 0
+    let controllerCompensation: boolean = params.noseCompensation === "controller"
+    if (controllerCompensation) {
+        program.noseCompensation((finishing.direction === "away from collet") ? "left" : "right")
+    }
+    let finishPoints: DimensionPoint[] = geometricCompensation ? noseRadiusPath(section.machiningPoints, finishingTool, params.decimals) : section.machiningPoints
+    if (finishing.semiFinish) {
+        let allowance: number = finishAllowance(params)
+        finishingPass(program, expandArcs(finishPoints, allowance / 2).map(point => new DimensionPoint(point.x + allowance, point.z)), finishingTool.feed, pullDiameter)
+        program.comment("Finishing Pass")
+    }
+    for (let pass = 0; pass <= finishing.springPasses; pass++) {
+        if (pass > 0) {
+            program.comment(`Spring Pass ${pass}`)
+        }
+        if (params.G75Functional && program.post.hasFinishCycle && !geometricCompensation && finishing.direction === "toward collet") {
+            program.finishCycle(cycleStart, section.machiningPoints, subroutineID)
+        }
+        else {
+            finishingPass(program, finishPoints, finishingTool.feed, pullDiameter)
+        }
+    }
+    if (controllerCompensation) {
+        program.noseCompensation("off")
+    }
 
     // Return cutter to safe position for stock movement (already moved away from contact with part)
-    code += rapidPosition(new MovePoint(startDiameter + global.spacing.xClearance, undefined, global.spacing.zClearance))
+    // X is cleared before Z, as earlier sections can be larger than the end of this one
+    program.rapidPosition(new MovePoint(startDiameter + params.spacing.xClearance))
+    program.rapidPosition(new MovePoint(undefined, undefined, params.spacing.zClearance))
     
     // Stop spindle
-    code += "M05\n"
+    program.spindleStop()
+}
 
-    return code
+/**
+ * Finds the largest diameter already machined that passes the cutter as stock is pulled for each section.
+ * The finishing tool's nose can't reach the very end of a section, leaving a ring up to twice its radius larger there.
+ *
+ * @param sections The sections of the mandrel, in the order they are machined.
+ * @param params The job parameters in use.
+ * @return The pull diameter for each section, 0 for the first as nothing has been machined.
+ */
+function sectionPullDiameters(sections: Section[], params: JobParameters): number[] {
+    let pullDiameters: number[] = []
+    let pullDiameter: number = 0
+    let endAllowance: number = 2 * getTool(params, params.finishingTool).noseRadius
+    sections.forEach(section => {
+        pullDiameters.push(pullDiameter)
+        let endPoint: DimensionPoint = section.machiningPoints[section.machiningPoints.length - 1]
+        pullDiameter = Math.max(pullDiameter, section.maxDiameter, endPoint.x + endAllowance)
+    })
+    return pullDiameters
+}
+
+/**
+ * Parts the finished mandrel off the stock at the end of the final section.  The part off tool is set to its edge facing the part,
+ * so that edge is placed at the end of the profile and the blade cuts into the stock beyond it.
+ *
+ * @param program The program being built.
+ * @param startDiameter The diameter of the stock.
+ * @param section The final section of the mandrel.
+ */
+function partOffCycle(program: ProgramBuilder, startDiameter: number, section: Section): void {
+    let params: JobParameters = program.params
+    let tool: Tool = getTool(params, params.partOffTool, startDiameter)
+    let endZ: number = section.machiningPoints[section.machiningPoints.length - 1].z
+
+    program.operation("Part Off", Math.PI * startDiameter * startDiameter * tool.width / 4)
+    program.toolChange(tool)
+    program.rapidPosition(new MovePoint(startDiameter + params.spacing.xClearance, undefined, params.spacing.zClearance))
+    program.spindleStart(tool.rpm, tool.surfaceSpeed)
+    program.feedMode("perRevolution", tool.feed)
+
+    // Feed past center, so the mandrel comes free rather than leaving it hanging from a pip
+    program.rapidPosition(new MovePoint(undefined, undefined, endZ))
+    program.linearInterpolation(new MovePoint(-params.spacing.xClearance), tool.feed)
+
+    program.rapidPosition(new MovePoint(startDiameter + params.spacing.xClearance))
+    program.rapidPosition(new MovePoint(undefined, undefined, params.spacing.zClearance))
+    program.spindleStop()
+}
+
+/**
+ * Generates a single section twice, first with simulated cycles and then with native G74/G75 cycles, so that the native cycles can be proven
+ * on the machine before the G74Functional/G75Functional flags are set.  Each version begins with its own stock pull stop.
+ *
+ * @param program The program being built.
+ * @param startDiameter The diameter of the material at the beginning of a machining section.
+ * @param sections All sections of the mandrel.
+ * @param sectionNumber The section to compare, counting from 1.
+ * @param subroutineOffset Added to the number of each contour subroutine.
+ */
+function compareCycles(program: ProgramBuilder, startDiameter: number, sections: Section[], sectionNumber: number, subroutineOffset: number = 0): void {
+    if (sectionNumber > sections.length) {
+        throw new RangeError(`Cannot compare section ${sectionNumber}, the mandrel only has ${sections.length} section${(sections.length > 1) ? "s" : ""}.`)
+    }
+
+    // Cycles are chosen from the program's parameters, so these are swapped for each version and restored afterward
+    let jobParams: JobParameters = program.params
+    let versions: [string, boolean][] = [["simulated", false], ["native", true]]
+
+    versions.forEach(([name, native], index) => {
+        let versionParams: JobParameters = copyParameters(jobParams)
+        versionParams.G74Functional = native
+        versionParams.G75Functional = native
+        program.params = versionParams
+
+        program.operation(`Section ${sectionNumber} - ${name} cycle version, load fresh stock at stop`, sectionRemovedVolume(startDiameter, sections[sectionNumber - 1]))
+        sectionCycle(program, startDiameter, sections[sectionNumber - 1], subroutineOffset + (index + 1) * 100)
+    })
+
+    program.params = jobParams
 }
 
 /**
- * Generates a set of sections defined by the stickout length, using provided points and interpolating as necessary
+ * Decides whether to machine a profile from its last point rather than its first.  Once the largest diameter is cut, every later
+ * section pulled past the cutter has to clear it, so the profile is cut from whichever end leaves the least length after it.
+ * Increasing tapers are kept as given and decreasing ones reversed.
+ *
+ * @param xPoints Array of diameters, in order of location.
+ * @param zPoints Array of locations, sorted in increasing order.
+ * @return True if the profile should be reversed.
+ */
+function shouldReverseProfile(xPoints: number[], zPoints: number[]): boolean {
+    let maxDiameter: number = Math.max(...xPoints)
+    let firstMaxZ: number = zPoints[xPoints.indexOf(maxDiameter)]
+    let lastMaxZ: number = zPoints[xPoints.lastIndexOf(maxDiameter)]
+
+    // Length cut after the largest diameter when cut as given, and when reversed
+    let lengthAfter: number = zPoints[zPoints.length - 1] - firstMaxZ
+    let reversedLengthAfter: number = lastMaxZ - zPoints[0]
+
+    return reversedLengthAfter < lengthAfter
+}
+
+/**
+ * Generates a set of sections divided at the given boundaries, using provided points and interpolating as necessary
  *
  * @param xPoints Array of points representing the x axis values (diameters).
  * @param zPoints Array of points representing the y axis values (positions).
+ * @param params The job parameters in use, providing the stickout length.
+ * @param radii Optional array of arc radii reaching each point, with 0 for a straight line.  Arcs crossing a section boundary are split there.
+ * @param boundaries Optional locations of the boundaries between sections, as found by sectionBoundaries.  Defaults to a boundary every stickout.
  * @return An array of Sections representing the provided points.  Coordinate system within each section has first point at z=0, increasing from there
  */
-function interpolatePoints(xPoints: number[], zPoints: number[]): Section[] {
-    // Determine how many sections we need to create, with the final section being the one to potentially be shorter than sectionLength
-    let fullLength: number = Math.max(...zPoints)
-    var numSections: number = Math.ceil(fullLength / global.stickout)
+function interpolatePoints(xPoints: number[], zPoints: number[], params: JobParameters, radii?: number[], boundaries: number[] = fixedBoundaries(Math.max(...zPoints), params.stickout)): Section[] {
+    // A section between each pair of boundaries, and one either side of them
+    var numSections: number = boundaries.length + 1
+    // Location each section starts at
+    let starts: number[] = [0].concat(boundaries)
 
     var startPoint: number[] = [xPoints[0], zPoints[0]]
     var startIndex: number = 0
     var endPoint: number[] = [0, 0]
     var endIndex: number = 0
+    // Radius of the arc reaching the end point, if it splits an arc
+    var endRadius: number | undefined = undefined
     
     // This variable collects the separate xPoints and zPoints arrays into a single array of individual x-z points
     var organizedPoints: DimensionPoint[] = []
     for (let i = 0; i < xPoints.length; i++) {
-        organizedPoints.push(new DimensionPoint(xPoints[i], zPoints[i]));
+        organizedPoints.push(new DimensionPoint(xPoints[i], zPoints[i], (radii === undefined || radii[i] === 0) ? undefined : radii[i]));
     }
 
     // This will collect the lists of points broken into sections
@@ -516,42 +743,57 @@ function interpolatePoints(xPoints: number[], zPoints: number[]): Section[] {
     for (let i: number = 0; i < numSections - 1; i++) {
 
         // If a given section doesn't end at a specific point, we need to interpolate between the two points surrounding the division
-        if (zPoints.indexOf((i + 1) * global.stickout) === -1) {
+        if (zPoints.indexOf(boundaries[i]) === -1) {
             // Find the first z element that doesn't fall within the section we're looking at
-            let firstIndexInNext = zPoints.findIndex((element) => element > ((i+1) * global.stickout))
+            let firstIndexInNext = zPoints.findIndex((element) => element > boundaries[i])
             
             // Length of section is zPoints[fIIN] - zPoints[fIIN - 1]
-            // Position of division in section is ((i+1) * stickout) - zPoints[fIIN - 1]
+            // Position of division in section is boundaries[i] - zPoints[fIIN - 1]
             // Decimal portion of index is second divided by first
-            endIndex = firstIndexInNext - 1 + (((i+1) * global.stickout) - zPoints[firstIndexInNext - 1]) / (zPoints[firstIndexInNext] - zPoints[firstIndexInNext - 1])
+            endIndex = firstIndexInNext - 1 + (boundaries[i] - zPoints[firstIndexInNext - 1]) / (zPoints[firstIndexInNext] - zPoints[firstIndexInNext - 1])
             
             // Use this decimal portion to derive x-z end point
             endPoint[0] = xPoints[firstIndexInNext - 1] + (endIndex % 1) * (xPoints[firstIndexInNext] - xPoints[firstIndexInNext - 1])
             endPoint[1] = zPoints[firstIndexInNext - 1] + (endIndex % 1) * (zPoints[firstIndexInNext] - zPoints[firstIndexInNext - 1])
+
+            // An arc is split by finding its diameter at the division, with both parts keeping the arc's radius
+            endRadius = organizedPoints[firstIndexInNext].radius
+            if (endRadius !== undefined) {
+                endPoint[0] = arcDiameterAt(organizedPoints[firstIndexInNext - 1], organizedPoints[firstIndexInNext], endPoint[1])
+            }
         }
         // Otherwise, we can use this index to set the end point
         else {
-            endIndex = zPoints.indexOf((i + 1) * global.stickout)
+            endIndex = zPoints.indexOf(boundaries[i])
             endPoint[0] = xPoints[endIndex]
             endPoint[1] = zPoints[endIndex]
         }
 
         // If start index is a decimal, we need to manually include the startPoint
         if (startIndex % 1) {
-            includedPoints.push(new DimensionPoint(startPoint[0], startPoint[1] - (i * global.stickout)))
+            includedPoints.push(new DimensionPoint(startPoint[0], startPoint[1] - starts[i]))
         }
         organizedPoints
         .slice(Math.ceil(startIndex), Math.floor(endIndex) + 1)
         .forEach((point) => {
-            includedPoints.push(new DimensionPoint(point.x, point.z - (i * global.stickout)))
+            includedPoints.push(new DimensionPoint(point.x, point.z - starts[i], point.radius))
         })
         // Similarly, decimal end index means we need to include endPoint
         if (endIndex % 1) {
-            includedPoints.push(new DimensionPoint(endPoint[0], endPoint[1] - (i * global.stickout)))
+            includedPoints.push(new DimensionPoint(endPoint[0], endPoint[1] - starts[i], endRadius))
+        }
+        // Profiles starting past 0 can leave the first sections with nothing in them, which validation reports before this is reached
+        if (includedPoints.length === 0) {
+            throw new RangeError(`Section ${i + 1}, starting at ${starts[i]}, holds no points of the profile.`)
+        }
+        // The first point of a section has nothing before it to be joined to by an arc, unless it overlaps the previous section
+        includedPoints[0].radius = undefined
+        if (i > 0) {
+            includedPoints = addOverlap(includedPoints, sections[i - 1].points, params.spacing.blendLength)
         }
         
         // Push a new section containing these points to our section array, shift end index/point to start, clear includedPoints
-        sections.push(new Section(includedPoints))
+        sections.push(new Section(includedPoints, params, starts[i]))
         startIndex = endIndex
         startPoint[0] = endPoint[0]
         startPoint[1] = endPoint[1]
@@ -561,146 +803,420 @@ function interpolatePoints(xPoints: number[], zPoints: number[]): Section[] {
     endIndex = organizedPoints.length - 1
     // Final iteration, this will run from the start point to the final element in the provided points
     if (startIndex % 1) {
-        includedPoints.push(new DimensionPoint(startPoint[0], startPoint[1] - ((numSections - 1) * global.stickout)))
+        includedPoints.push(new DimensionPoint(startPoint[0], startPoint[1] - starts[numSections - 1]))
     }
     organizedPoints
         .slice(Math.ceil(startIndex), Math.floor(endIndex) + 1)
         .forEach((point) => {
-            includedPoints.push(new DimensionPoint(point.x, point.z - ((numSections - 1) * global.stickout)))
+            includedPoints.push(new DimensionPoint(point.x, point.z - starts[numSections - 1], point.radius))
         })
-    sections.push(new Section(includedPoints))
+    if (includedPoints.length === 0) {
+        throw new RangeError(`Section ${numSections}, starting at ${starts[numSections - 1]}, holds no points of the profile.`)
+    }
+    includedPoints[0].radius = undefined
+    if (numSections > 1) {
+        includedPoints = addOverlap(includedPoints, sections[numSections - 2].points, params.spacing.blendLength)
+    }
+    sections.push(new Section(includedPoints, params, starts[numSections - 1]))
 
     return sections
 }
 
 /**
- * Generates Omniturn G code for machining of a specified tapered mandrel.
+ * Extends a section back over the end of the previous one, so that the join is re-cut by the new section.  Any step left by an
+ * error in the pull is then blended over the overlap instead of being left at the section boundary.
  *
- * @param {number} stockDiameter The diameter of the rod stock to be machined.
- * @param {Array<number>} diameterPoints Diameter measurments for the mandrel, either in increasing order at a spacing of 0.25" or with locations specified in the next parameter.
- * @param {Array<number>=} optPointLocations Locations of the points given in diameterPoints.
- * @return G code to produce the specified mandrel, or an error if provided data cannot be used to machine an mandrel.
- * @customfunction
+ * @param points The section's points, starting at z = 0.
+ * @param previousPoints The previous section's points.
+ * @param blendLength The length of the overlap.
+ * @return The section's points with the overlap before them at negative z, or the points unchanged if there is no overlap.
  */
-function genCode(stockDiameter, diameterList, optLocationList): string {
-    // Storage for processed point data
-    var diameterPoints: number[]
-    var locationPoints: number[]
+function addOverlap(points: DimensionPoint[], previousPoints: DimensionPoint[], blendLength: number): DimensionPoint[] {
+    if (blendLength <= 0) {
+        return points
+    }
+    let length: number = Math.max(...previousPoints.map(point => point.z))
+    let startZ: number = length - Math.min(blendLength, length)
+
+    // The overlap starts between two points, or on one of them, with any shoulder there taken at its later diameter
+    let nextIndex: number = previousPoints.findIndex(point => point.z > startZ)
+    let before: DimensionPoint = previousPoints[nextIndex - 1]
+    let overlap: DimensionPoint[] = []
+    if (before.z < startZ) {
+        let next: DimensionPoint = previousPoints[nextIndex]
+        let x: number = (next.radius !== undefined) ? arcDiameterAt(before, next, startZ) : before.x + (startZ - before.z) / (next.z - before.z) * (next.x - before.x)
+        overlap.push(new DimensionPoint(x, startZ - length))
+    }
+    else {
+        overlap.push(new DimensionPoint(before.x, before.z - length))
+    }
+    previousPoints.slice(nextIndex).forEach(point => {
+        overlap.push(new DimensionPoint(point.x, point.z - length, point.radius))
+    })
 
-    // Local storage of debugging info - items ignored
-    var numDiametersRemoved: number = 0
-    var numPointsRemoved: number = -1
+    // The previous section's last point is the section's first, which is now reached by whatever arc ended the previous section
+    let join: DimensionPoint = overlap.pop()!
+    let first: DimensionPoint = new DimensionPoint(points[0].x, points[0].z, join.radius)
+    return overlap.concat([first], points.slice(1))
+}
 
-    // Stock diameter
-    // TODO: Check that stock diameter is a number
-    
-    // Diameter points
-    // Reorganize into 1D array
-    diameterList = [].concat(...diameterList)
-    // Filter out empty or non-numeric cells.  Number testing from here: https://stackoverflow.com/questions/175739/how-can-i-check-if-a-string-is-a-valid-number
-    let filteredDiameterList: number[] = diameterList.filter((element) => element !== "" && !isNaN(element) && !isNaN(parseFloat(element)))
-    numDiametersRemoved = diameterList.length - filteredDiameterList.length
-    var diameterPoints: number[] = filteredDiameterList
-    diameterPoints.forEach((diameter) => diameter = +diameter)
-
-    // Overloaded function that can run with or without optPointLocations, assuming a spacing of 0.250" if not provided
-    if (optLocationList === undefined) {
-        locationPoints = []
-        for (let i = 0; i < diameterPoints.length; i++) {
-            locationPoints.push(i * 0.25)
-        }
+/**
+ * Mandrel profile ready for code generation.
+ */
+interface Profile {
+    diameters: number[]
+    locations: number[]
+    // Radius of the arc reaching each point from the previous one, or 0 for a straight line
+    radii: number[]
+    // Row of the input each point was read from (1 based), for reporting problems
+    rows: number[]
+}
+
+/**
+ * Reads a profile from columns of cells, as given to genCode by the sheet or read from a profile file.
+ * Empty and non-numeric cells are skipped with a warning, except for unused rows at the end of the range.
+ *
+ * @param diameterList Diameter cells, in order along the mandrel.
+ * @param optLocationList Optional location cells alongside the diameters.  Points are evenly spaced if omitted.
+ * @param optRadiusList Optional arc radius cells alongside the diameters, with blank cells for straight lines.
+ * @param report The report to add any problems to.
+ * @param firstRow The row number of the first cell, for reporting problems.
+ * @param spacing The spacing of points given without locations, defaulting to 0.25.
+ * @return The profile, with points sorted by location.
+ */
+function readProfileCells(diameterList: unknown[], optLocationList?: unknown[] | "", optRadiusList?: unknown[] | "", report: ValidationReport = new ValidationReport(), firstRow: number = 1, spacing: number = 0.25): Profile {
+    // Reorganize into 1D arrays
+    let diameterCells: unknown[] = ([] as unknown[]).concat(...diameterList)
+    let locationCells: unknown[] | undefined = (optLocationList === undefined || optLocationList === "") ? undefined : ([] as unknown[]).concat(...optLocationList)
+    let radiusCells: unknown[] | undefined = (optRadiusList === undefined || optRadiusList === "") ? undefined : ([] as unknown[]).concat(...optRadiusList)
+
+    // Arc radii line up with the diameter rows, with blank cells for straight lines
+    if (radiusCells !== undefined && radiusCells.length != diameterCells.length) {
+        report.error("unequalLengths", "radius", 0, "Arc radii must be given alongside every diameter, with blank cells for straight lines.")
+        radiusCells = undefined
     }
-    // Otherwise, confirm that two arrays are of matching lengths and throw an error if not
-    // Then, sort by Z
-    else {
-        // Reorganize into 1D array
-        optLocationList = [].concat(...optLocationList)
-        // Filter out empty or non-numeric cells.  Number testing from here: https://stackoverflow.com/questions/175739/how-can-i-check-if-a-string-is-a-valid-number
-        let filteredLocationList = optLocationList.filter((element) => element !== "" && !isNaN(element) && !isNaN(parseFloat(element)))
-        numPointsRemoved = optLocationList.length - filteredLocationList.length
-        locationPoints = filteredLocationList
-        // Ensure that values are formatted as numbers
-        locationPoints.forEach((location) => location = +location)
-
-        // Ensure that equal numbers of points are provided
-        if (locationPoints.length != diameterPoints.length) {
-            return "Diameters and locations contain unqual numbers of valid data points."
-        }
 
-        // Sort by z value (algorithm from: https://stackoverflow.com/questions/11499268/sort-two-arrays-the-same-way)
-        var tempObjects: DimensionPoint[] = []
-        for (let i = 0; i < locationPoints.length; i++) {
-            tempObjects.push(new DimensionPoint(diameterPoints[i], locationPoints[i]))
+    // Rows after the last one holding anything are spare rows of the range
+    let isEmpty = (cell: unknown): boolean => cell === undefined || cell === ""
+    let rowCount: number = Math.max(diameterCells.length, (locationCells === undefined) ? 0 : locationCells.length)
+    while (rowCount > 0 && isEmpty(diameterCells[rowCount - 1]) && (locationCells === undefined || isEmpty(locationCells[rowCount - 1]))) {
+        rowCount--
+    }
+
+    let profile: Profile = { diameters: [], locations: [], radii: [], rows: [] }
+    for (let i = 0; i < rowCount; i++) {
+        let row: number = i + firstRow
+        let diameter: unknown = diameterCells[i]
+        let location: unknown = (locationCells === undefined) ? undefined : locationCells[i]
+        let diameterValid: boolean = isNumericCell(diameter)
+        let locationValid: boolean = locationCells === undefined || isNumericCell(location)
+
+        // Rows with neither value are skipped, while a value without its partner can't be placed
+        if (!diameterValid && !locationValid || !diameterValid && locationCells === undefined) {
+            report.warning("skippedCell", "diameter", row, isEmpty(diameter) ? "Empty row ignored." : `"${diameter}" is not a number, row ignored.`)
+            continue
         }
-        tempObjects.sort(function(a, b) {
-            return ((a.z < b.z) ? -1 : ((a.z == b.z) ? 0 : 1))
-        })
-        for (let i = 0; i < tempObjects.length; i++) {
-            diameterPoints[i] = tempObjects[i].x
-            locationPoints[i] = tempObjects[i].z
+        if (!diameterValid) {
+            report.error("missingValue", "diameter", row, isEmpty(diameter) ? `Location ${location} has no diameter.` : `"${diameter}" is not a number.`)
+            continue
         }
+        if (!locationValid) {
+            report.error("missingValue", "location", row, isEmpty(location) ? `Diameter ${diameter} has no location.` : `"${location}" is not a number.`)
+            continue
+        }
+
+        let radius: unknown = (radiusCells === undefined) ? "" : radiusCells[i]
+        if (!isEmpty(radius) && !isNumericCell(radius)) {
+            report.error("invalidRadius", "radius", row, `Arc radius "${radius}" is not a number.`)
+            continue
+        }
+
+        // Overloaded function that can run with or without optPointLocations, assuming even spacing if not provided
+        profile.diameters.push(+(diameter as number))
+        profile.locations.push((locationCells === undefined) ? profile.rows.length * spacing : +(location as number))
+        profile.radii.push(isEmpty(radius) ? 0 : +(radius as number))
+        profile.rows.push(row)
     }
 
-    // Ensure that points are organized by increasing diameter over full length
-    if (diameterPoints[0] > diameterPoints[diameterPoints.length - 1]) {
-        diameterPoints.reverse()
-        
-        let taperLength = Math.max(...locationPoints)
-        locationPoints.forEach(point => {
-            -point + taperLength
-        })
+    return sortProfile(profile)
+}
+
+/**
+ * Checks whether a cell holds a number, either as a number or as text.
+ * Number testing from here: https://stackoverflow.com/questions/175739/how-can-i-check-if-a-string-is-a-valid-number
+ */
+function isNumericCell(cell: unknown): boolean {
+    return cell !== "" && !isNaN(cell as number) && !isNaN(parseFloat(cell as string))
+}
+
+/**
+ * Sorts the points of a profile by location, keeping the order of points at the same location so that shoulders are kept.
+ *
+ * @param profile The profile to sort.
+ * @return A sorted copy of the profile.
+ */
+function sortProfile(profile: Profile): Profile {
+    let order: number[] = profile.locations.map((location, index) => index)
+    order.sort((a, b) => profile.locations[a] - profile.locations[b])
+
+    return {
+        diameters: order.map(index => profile.diameters[index]),
+        locations: order.map(index => profile.locations[index]),
+        radii: order.map(index => profile.radii[index]),
+        rows: order.map(index => profile.rows[index])
     }
+}
 
-    // Dividing points into sections
-    var sections: Section[] = interpolatePoints(diameterPoints, locationPoints)
+/**
+ * Puts a sorted profile in the order it is machined, so the largest diameter is machined as late as possible, as every later pull
+ * must clear it.
+ *
+ * @param profile The profile, with points sorted by location.
+ * @return The profile as given, or reversed and measured from its other end.
+ */
+function orientProfile(profile: Profile): Profile {
+    if (!shouldReverseProfile(profile.diameters, profile.locations)) {
+        return profile
+    }
+    let taperLength = Math.max(...profile.locations)
+    return {
+        diameters: profile.diameters.slice().reverse(),
+        locations: profile.locations.map(point => taperLength - point).reverse(),
+        // Each arc is held by the point it ends at, which becomes the point it starts from
+        radii: [0].concat(profile.radii.slice(1).reverse()),
+        rows: profile.rows.slice().reverse()
+    }
+}
 
-    // Code generation
-    
-    var codeText = ""
-    // Print note if any lines were skipped
-    if (numDiametersRemoved > 0 || numPointsRemoved > 0) {
-        if (numDiametersRemoved == numPointsRemoved) {
-            codeText += `(NOTE - ${numDiametersRemoved} non-numeric or empty data pair${(numDiametersRemoved > 1) ? "s" : ""} ignored.)\n`
-        }
-        // This will only happen if diameter positions were provided and removed
-        else {
-            if (numDiametersRemoved > 0) {
-                codeText += `(NOTE - ${numDiametersRemoved} non-numeric or empty diameter${(numDiametersRemoved > 1) ? "s" : ""} ignored.)\n`
-            }
-            if (numPointsRemoved > 0) {
-                codeText += `(NOTE - ${numPointsRemoved} non-numeric or empty point location${(numPointsRemoved > 1) ? "s" : ""} ignored.)\n`
-            }
-        }
+/**
+ * Scales every length of a profile, to convert it to other units.
+ *
+ * @param profile The profile.
+ * @param factor The factor to multiply lengths by.
+ * @return The scaled profile, or the profile as given if the factor is 1.
+ */
+function scaleProfile(profile: Profile, factor: number): Profile {
+    if (factor === 1) {
+        return profile
+    }
+    return {
+        diameters: profile.diameters.map(diameter => scaleLength(diameter, factor)),
+        locations: profile.locations.map(location => scaleLength(location, factor)),
+        radii: profile.radii.map(radius => scaleLength(radius, factor)),
+        rows: profile.rows
     }
-    // Description and comments
-    codeText += "(OMalley Brass)\n"
-    // Description?
-    codeText += `(${global.stickout} inch part stickout)\n`
-    codeText += `(${stockDiameter} inch diameter stock)\n`
-    codeText += "(T1 OD Cutter)\n"
-    codeText += "(Code generation by Jeremy Peplinski)\n"
-    let date = new Date()
-    codeText += `(Executed ${date.getMonth() + 1}.${date.getDate()}.${date.getFullYear()})\n`
+}
 
-    
-    // Setup
-    codeText += `G72G90G97G95F${global.feed}\n`
-    codeText += "T1\n"
+/**
+ * A job's profile ready to be machined, in the sections it is cut in.
+ */
+interface PreparedJob {
+    // Stock diameter in the units of the program
+    stockDiameter: number
+    fit: ProfileFit
+    // The fitted profile, in the order it is machined
+    oriented: Profile
+    // Whether the profile is machined from its last point, so is measured from the other end
+    reversed: boolean
+    sections: Section[]
+}
+
+/**
+ * Fits and validates a profile, then divides it into the sections it is machined in.  This is shared by everything produced
+ * for a job, so the program and the setup sheet always describe the same sections.  The stock and profile are converted from
+ * the units they are given in first, so everything after works in the units of the program.
+ *
+ * @param stockDiameter The diameter of the rod stock to be machined.
+ * @param profile The mandrel profile, with points sorted by location.
+ * @param params The job parameters to use.
+ * @param report A report already holding any problems found reading the inputs, which is added to.
+ * @return The prepared job.  A ValidationError is thrown if any errors are found.
+ */
+function prepareJob(stockDiameter: number, profile: Profile, params: JobParameters, report: ValidationReport): PreparedJob {
+    stockDiameter = scaleLength(stockDiameter, inputScale(params))
+    profile = scaleProfile(profile, inputScale(params))
+
+    // Measured profiles are fitted first, so the fitted points are what is checked and cut
+    let fit: ProfileFit = fitProfile(profile, params, report)
+    validateJob(stockDiameter, fit.profile, params, report)
+    if (report.hasErrors()) {
+        throw new ValidationError(report)
+    }
+
+    // Dividing points into sections, in the order they are machined.  A profile kept in its given order is returned as is
+    let oriented: Profile = orientProfile(fit.profile)
+    let reversed: boolean = oriented !== fit.profile
+    return {
+        stockDiameter: stockDiameter,
+        fit: fit,
+        oriented: oriented,
+        reversed: reversed,
+        sections: interpolatePoints(oriented.diameters, oriented.locations, params, oriented.radii, sectionBoundaries(oriented, params, reversed))
+    }
+}
+
+/**
+ * Generates G code for machining of a specified mandrel.  This is the core of both the sheet's custom function and the Node
+ * library.  The job is validated first, and no code is generated if any errors are found.
+ *
+ * @param stockDiameter The diameter of the rod stock to be machined.
+ * @param profile The mandrel profile, with points sorted by location.
+ * @param params The job parameters to use.
+ * @param report Optional, a report already holding any problems found reading the inputs, which is added to.
+ * @return G code to produce the specified mandrel, with any warnings and the time estimate noted at the top.
+ */
+function generateProgram(stockDiameter: number, profile: Profile, params: JobParameters, report: ValidationReport = new ValidationReport()): string {
+    return buildProgram(stockDiameter, profile, params, report).serialize()
+}
+
+/**
+ * Describes the fit, tools and finishing of a job, for the notes at the top of its program.
+ *
+ * @param fitDescription The description of the profile's fit, or "" if it is used as given.
+ * @param params The job parameters in use.
+ * @return A line for each note.
+ */
+function programNotes(fitDescription: string, params: JobParameters): string[] {
+    let notes: string[] = []
+    if (fitDescription !== "") {
+        notes.push(fitDescription)
+    }
+    // Tools used, in order of use, with no part off when comparing cycles
+    let toolNumbers: number[] = [params.roughingTool, params.finishingTool].concat((params.partOff && params.compareSection === 0) ? [params.partOffTool] : [])
+    toolNumbers.filter((number, index) => toolNumbers.indexOf(number) === index).forEach(number => {
+        let tool: Tool = getTool(params, number)
+        notes.push(`T${number} ${TOOL_TYPE_DESCRIPTIONS[tool.type]}` + ((tool.noseRadius > 0) ? `, ${tool.noseRadius} ${params.units} nose radius` : ""))
+    })
+    if (getTool(params, params.finishingTool).noseRadius > 0 || params.noseCompensation === "controller") {
+        notes.push(`Finishing pass uses ${params.noseCompensation} nose radius compensation`)
+    }
+    let finishing = params.finishing
+    if (finishing.allowance > 0 || finishing.semiFinish || finishing.springPasses > 0 || finishing.direction !== "toward collet") {
+        notes.push(`Finishing leaves ${+finishAllowance(params).toFixed(params.decimals)} ${params.units} per side`
+            + (finishing.semiFinish ? ", with a semi-finishing pass" : "")
+            + ((finishing.springPasses > 0) ? `, ${finishing.springPasses} spring pass${(finishing.springPasses > 1) ? "es" : ""}` : "")
+            + `, cutting ${finishing.direction}`)
+    }
+    return notes
+}
+
+/**
+ * Adds the toolpath of a prepared job to a program: each section in turn and the part off, or the comparison of cycles.
+ *
+ * @param program The program being built.
+ * @param job The prepared job.
+ * @param subroutineOffset Added to the number of each contour subroutine, so parts sharing a program don't share subroutines.
+ */
+function machineJob(program: ProgramBuilder, job: PreparedJob, subroutineOffset: number = 0): void {
+    let params: JobParameters = program.params
+    let sections: Section[] = job.sections
+    program.toolChange(getTool(params, params.roughingTool))
 
     // Then generate code for each section, subroutine ID will be (index + 1) * 100
-    try {
+    if (params.compareSection > 0) {
+        compareCycles(program, job.stockDiameter, sections, params.compareSection, subroutineOffset)
+    }
+    else {
+        let pullDiameters: number[] = sectionPullDiameters(sections, params)
         for(let i = 0; i < sections.length; i++) {
-            codeText += "(Section " + (i + 1) + ")\n"
-            codeText += sectionCycle(stockDiameter, sections[i], (i + 1) * 100)
+            program.operation("Section " + (i + 1), sectionRemovedVolume(job.stockDiameter, sections[i]))
+            sectionCycle(program, job.stockDiameter, sections[i], subroutineOffset + (i + 1) * 100, pullDiameters[i])
+        }
+        if (params.partOff) {
+            partOffCycle(program, job.stockDiameter, sections[sections.length - 1])
         }
+    }
+}
+
+/**
+ * Builds the toolpath for machining of a specified mandrel, as described for generateProgram.
+ *
+ * @return The completed program, ready to be serialized.
+ */
+function buildProgram(stockDiameter: number, profile: Profile, params: JobParameters, report: ValidationReport = new ValidationReport()): ProgramBuilder {
+    return buildJobProgram(prepareJob(stockDiameter, profile, params, report), params, report)
+}
+
+/**
+ * Builds the toolpath for a job already prepared, for callers which also need the job's sections.
+ *
+ * @param job The prepared job.
+ * @param params The job parameters the job was prepared with.
+ * @param report The report the job was prepared with, whose warnings are noted at the top of the program.
+ * @return The completed program, ready to be serialized.
+ */
+function buildJobProgram(job: PreparedJob, params: JobParameters, report: ValidationReport): ProgramBuilder {
+    let fit: ProfileFit = job.fit
+    var sections: Section[] = job.sections
+    let stockDiameter: number = job.stockDiameter
+
+    // Code generation, recorded in a fresh program so no state carries over from previous runs
+    var program: ProgramBuilder = new ProgramBuilder(params)
+    machineJob(program, job)
+
+    // The header, setup and end are laid out by the job's template once the toolpath is complete, so it can be estimated
+    let estimate: ProgramEstimate = estimateProgram(program)
+    let template: ProgramTemplate = params.templates[params.template]
+    let values = templateValues(params, stockDiameter, sections.length, estimate)
+    let notes: string[] = programNotes(fit.description, params).concat(estimateComments(estimate))
+    let warnings: ToolpathBlock[] = report.warnings.map(issue => ({ type: "comment", text: "WARNING - " + ValidationReport.describe(issue) } as CommentBlock))
+    program.insertBlocks(0, warnings.concat(renderTemplate(template.header, values, notes), renderTemplate(template.setup, values, notes)))
+    program.insertBlocks(program.blocks.length, renderTemplate(template.footer, values, notes))
+    return program
+}
+
+/**
+ * Generates Omniturn G code for machining of a specified tapered mandrel.
+ *
+ * @param {number} stockDiameter The diameter of the rod stock to be machined.
+ * @param {Array<number>} diameterPoints Diameter measurments for the mandrel, either in order along its length at the pointSpacing parameter (0.25" by default) or with locations specified in the next parameter.
+ * @param {Array<number>=} optPointLocations Locations of the points given in diameterPoints.  A location may be repeated once to define a shoulder.
+ * @param {Array<Array<string>>|string=} optParameters Two column key/value range of job parameter overrides (e.g. "feed", 0.0015), or the name of a range holding them.  The "JobParameters" named range is used if omitted.
+ * @param {Array<number>=} optRadiusList Radii of arcs reaching each point from the previous one, alongside diameterPoints.  Positive radii are convex, negative are concave, and blank cells are straight lines.
+ * @return G code to produce the specified mandrel, or an error if provided data cannot be used to machine an mandrel.
+ * @customfunction
+ */
+function genCode(stockDiameter, diameterList, optLocationList, optParameters?, optRadiusList?): string {
+    let job: JobInputs = readJob(stockDiameter, diameterList, optLocationList, optParameters, optRadiusList)
+    try {
+        return generateProgram(job.stockDiameter, job.profile, job.params, job.report)
     } catch (err) {
         return err.message
     }
+}
 
-    // Program stop
-    codeText += "M30\n"
-    
-    return codeText
+/**
+ * Inputs of a job as read from the sheet, with any problems found reading them.
+ */
+interface JobInputs {
+    stockDiameter: number
+    profile: Profile
+    params: JobParameters
+    report: ValidationReport
+}
+
+/**
+ * Reads the arguments given to genCode or validateCode.  Problems with the parameters are reported along with those in the profile,
+ * with the default parameters standing in so the profile can still be checked.
+ *
+ * @return The job inputs, with a stock diameter of NaN if the stock cell doesn't hold a number.
+ */
+function readJob(stockDiameter, diameterList, optLocationList, optParameters?, optRadiusList?): JobInputs {
+    let report: ValidationReport = new ValidationReport()
+    let params: JobParameters = defaultParameters
+    try {
+        params = buildParameters(getParameterOverrides(optParameters))
+    } catch (err) {
+        report.error("invalidParameters", "parameters", 0, err.message)
+    }
+
+    return {
+        stockDiameter: isNumericCell(stockDiameter) ? +stockDiameter : NaN,
+        // Points without locations are spaced in the units they are given in
+        profile: readProfileCells(diameterList, optLocationList, optRadiusList, report, 1, params.pointSpacing / inputScale(params)),
+        params: params,
+        report: report
+    }
 }
 
 /** 
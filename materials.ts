@@ -0,0 +1,88 @@
+/*
+Materials and cutting speeds:
+- Each stock material has a surface speed (SFM), a chip load per revolution and a maximum depth of cut, suited to carbide tooling
+- When a job names its material, tools without their own feed, rpm or depth take them from the material instead of the job
+- Spindle speed is worked out from the diameter being cut: the stock diameter for roughing and part off, and the section's largest
+  diameter for finishing, so every section of a mandrel runs at the right speed
+- Speeds are limited to the machine's maximum rpm
+- Programs can run at constant rpm (G97), or at constant surface speed (G96) with a G50 clamp at the maximum rpm
+- Cutting data is held in inches and feet per minute, and converted to millimeters and meters per minute for metric jobs
+*/
+
+/**
+ * Cutting data for a stock material.
+ */
+interface MaterialDefinition {
+    // Surface speed in feet per minute
+    sfm: number
+    // Feed in inches per revolution
+    chipLoad: number
+    // Maximum depth of cut, measured on diameter
+    maxDepth: number
+}
+
+// Materials that can be named in job parameters
+const MATERIALS: { [name: string]: MaterialDefinition } = {
+    brass: { sfm: 600, chipLoad: 0.004, maxDepth: 0.060 },
+    aluminum: { sfm: 800, chipLoad: 0.005, maxDepth: 0.080 },
+    steel: { sfm: 400, chipLoad: 0.003, maxDepth: 0.040 }
+}
+
+const METERS_PER_FOOT = 0.3048
+
+/**
+ * Gives a material's cutting data in the units of a job.
+ *
+ * @param material The material, or undefined if the job has none.
+ * @param units The units of the job.
+ * @return The cutting data, with surface speed in meters per minute and lengths in millimeters for metric jobs.
+ */
+function materialInUnits(material: MaterialDefinition | undefined, units: string): MaterialDefinition | undefined {
+    if (material === undefined || units !== "mm") {
+        return material
+    }
+    return {
+        sfm: Math.round(material.sfm * METERS_PER_FOOT),
+        chipLoad: material.chipLoad * MM_PER_INCH,
+        maxDepth: material.maxDepth * MM_PER_INCH
+    }
+}
+
+/**
+ * Finds how many of the units diameters are given in make up the units surface speeds are given in: inches per foot, or
+ * millimeters per meter.
+ */
+function surfaceSpeedScale(units: string): number {
+    return (units === "mm") ? 1000 : 12
+}
+
+// Names of the spindle speed modes, as used in job parameters
+const SPINDLE_MODES: string[] = ["rpm", "css"]
+
+/**
+ * Finds the spindle speed giving a surface speed at a diameter, limited to the machine's maximum.
+ *
+ * @param sfm The surface speed in feet per minute, or meters per minute for metric jobs.
+ * @param diameter The diameter being cut.
+ * @param maxRpm The fastest the spindle may run.
+ * @param units Optional, the units of the job, defaulting to inches.
+ * @return The spindle speed in whole rpm.
+ */
+function rpmForSurfaceSpeed(sfm: number, diameter: number, maxRpm: number, units: string = "inch"): number {
+    if (diameter <= 0) {
+        return maxRpm
+    }
+    return Math.min(maxRpm, Math.round(surfaceSpeedScale(units) * sfm / (Math.PI * diameter)))
+}
+
+/**
+ * Finds the surface speed of a spindle speed at a diameter.
+ *
+ * @param rpm The spindle speed.
+ * @param diameter The diameter being cut.
+ * @param units Optional, the units of the job, defaulting to inches.
+ * @return The surface speed in whole feet per minute, or meters per minute for metric jobs.
+ */
+function surfaceSpeedForRpm(rpm: number, diameter: number, units: string = "inch"): number {
+    return Math.round(rpm * Math.PI * diameter / surfaceSpeedScale(units))
+}
@@ -0,0 +1,259 @@
+/*
+Command line interface, run through bin/mandrel-gen:
+- mandrel-gen <profile.csv|profile.json|points.cmm|program.nc> --stock <diameter> [--set key=value]... [--params overrides.json] [--output file.nc]
+- The profile format is taken from the file extension, with CMM point lists as .cmm or .pts, unless given with --format
+- An existing program, as .nc or .tap, is read back into the profile it finishes, so the job can be generated again with new
+  parameters.  The program is never written over, so an output file must be given when it would be
+- Parameter overrides use the same dotted keys as the sheet's parameter table, with --set taking precedence over --params
+- The program is written next to the profile with a .nc extension unless an output file is given, or to stdout for "-"
+- A printable setup sheet for the operator can be written alongside the program with --setup-sheet
+- A family of mandrels can be generated from the profile with --variants, as programs named after each part number, or as one
+  program with --set batchOutput=combined
+- Problems are reported with the same messages the sheet shows, and errors give a non-zero exit code with no program written
+*/
+
+const CLI_USAGE: string = [
+    "Usage: mandrel-gen <profile.csv|profile.json|points.cmm|program.nc> --stock <diameter> [options]",
+    "",
+    "Options:",
+    "  --stock <diameter>     Diameter of the rod stock (required)",
+    "  --set <key>=<value>    Override a job parameter, e.g. --set depths.max=0.03 (repeatable)",
+    "  --params <file>        JSON file of parameter overrides, as an object or a two column key/value array",
+    "  --output <file>        File to write the program to, or - for stdout.  Defaults to the profile name with .nc",
+    "  --format <format>      Profile format: csv, json, cmm or program.  Defaults from the file extension",
+    "  --setup-sheet <file>   Also write an HTML setup sheet for the operator",
+    "  --variants <file>      CSV table of variants of the profile, with a header naming its columns: partNumber,",
+    "                         diameterOffset, scale, length and stockDiameter.  A program is written for each variant,",
+    "                         named by adding its part number to the output file name",
+    "  --help                 Show this message",
+    "",
+    "Measured profiles can be smoothed and resampled, e.g. --set fit.method=monotone --set fit.pitch=0.25",
+    "Section boundaries can be placed to suit the profile with --set sections.placement=auto, or given, e.g. --set sections.boundaries=0.9,1.8",
+    "Metric drawings can be read and programmed in millimeters with --set units=mm, or converted to inches with --set inputUnits=mm",
+    "Job details and program templates can be set too, e.g. --set job.partNumber=MD-12 --set template=acme, with multi-line templates best given in --params"
+].join("\n")
+
+/**
+ * Formats a profile can be read from on the command line, which include existing programs.
+ */
+type CliProfileFormat = ProfileFormat | "program"
+
+/**
+ * Options given on the command line.
+ */
+interface CliOptions {
+    profilePath: string
+    stockDiameter: number
+    // Overrides given directly with --set
+    overrides: ParameterOverrides
+    paramsPath: string | undefined
+    outputPath: string | undefined
+    // Format of the profile file, or undefined to take it from the extension
+    format: CliProfileFormat | undefined
+    // File to write the setup sheet to, or undefined for none
+    setupSheetPath: string | undefined
+    // File holding the variants of a mandrel family, or undefined for a single mandrel
+    variantsPath: string | undefined
+    help: boolean
+}
+
+/**
+ * Reads the command line arguments.
+ *
+ * @param args The arguments following the script name.
+ * @return The options given.
+ */
+function parseCliArguments(args: string[]): CliOptions {
+    let options: CliOptions = {
+        profilePath: "",
+        stockDiameter: NaN,
+        overrides: {},
+        paramsPath: undefined,
+        outputPath: undefined,
+        format: undefined,
+        setupSheetPath: undefined,
+        variantsPath: undefined,
+        help: false
+    }
+
+    for (let i = 0; i < args.length; i++) {
+        let arg: string = args[i]
+        if (arg === "--help" || arg === "-h") {
+            options.help = true
+            continue
+        }
+        if (!arg.startsWith("--")) {
+            if (options.profilePath !== "") {
+                throw new SyntaxError(`Unexpected argument "${arg}", only one profile file can be given.`)
+            }
+            options.profilePath = arg
+            continue
+        }
+
+        if (i + 1 >= args.length) {
+            throw new SyntaxError(`Option ${arg} needs a value.`)
+        }
+        let value: string = args[++i]
+        switch (arg) {
+            case "--stock":
+                if (!isNumericCell(value)) {
+                    throw new TypeError(`Stock diameter must be a number, got "${value}".`)
+                }
+                options.stockDiameter = +value
+                break
+            case "--set": {
+                let split: number = value.indexOf("=")
+                if (split <= 0) {
+                    throw new SyntaxError(`Parameter overrides must be given as key=value, got "${value}".`)
+                }
+                options.overrides[value.slice(0, split).trim()] = value.slice(split + 1)
+                break
+            }
+            case "--params":
+                options.paramsPath = value
+                break
+            case "--output":
+                options.outputPath = value
+                break
+            case "--format":
+                if (value !== "csv" && value !== "json" && value !== "cmm" && value !== "program") {
+                    throw new SyntaxError(`Profile format must be csv, json, cmm or program, got "${value}".`)
+                }
+                options.format = value
+                break
+            case "--setup-sheet":
+                options.setupSheetPath = value
+                break
+            case "--variants":
+                options.variantsPath = value
+                break
+            default:
+                throw new SyntaxError(`Unknown option ${arg}.`)
+        }
+    }
+
+    if (!options.help) {
+        if (options.profilePath === "") {
+            throw new SyntaxError("A profile file must be given.")
+        }
+        if (isNaN(options.stockDiameter)) {
+            throw new SyntaxError("A stock diameter must be given with --stock.")
+        }
+        if (options.variantsPath !== undefined && options.setupSheetPath !== undefined) {
+            throw new SyntaxError("A setup sheet can't be written for a mandrel family, give each variant's profile on its own.")
+        }
+    }
+    return options
+}
+
+/**
+ * Reads parameter overrides from a JSON file, either as an object keyed by dotted path or as a two column key/value array.
+ */
+function readParameterFile(text: string): ParameterOverrides {
+    let data: unknown = JSON.parse(text)
+    if (Array.isArray(data)) {
+        return parseParameterTable(data)
+    }
+    if (typeof data === "object" && data !== null) {
+        return data as ParameterOverrides
+    }
+    throw new TypeError("Parameter file must hold an object or a two column key/value array.")
+}
+
+/**
+ * Reads the variants of a mandrel family from a CSV file, laid out as the variant table of genBatch.
+ */
+function readVariantFile(text: string): MandrelVariant[] {
+    return readVariantTable(text.split(/\r?\n/).map(line => line.split(",").map(cell => cell.trim())))
+}
+
+/**
+ * Chooses the format to read a profile file in from its extension, with anything unrecognised read as CSV.
+ */
+function profileFormatForExtension(extension: string): CliProfileFormat {
+    switch (extension.toLowerCase()) {
+        case ".json":
+            return "json"
+        case ".nc":
+        case ".tap":
+            return "program"
+        case ".cmm":
+        case ".pts":
+            return "cmm"
+        default:
+            return "csv"
+    }
+}
+
+/**
+ * Runs the command line interface.
+ *
+ * @param args The arguments following the script name.
+ * @return The exit code, 0 if the program was written.
+ */
+function runCli(args: string[]): number {
+    const fs: typeof import("fs") = require("fs")
+    const path: typeof import("path") = require("path")
+
+    try {
+        let options: CliOptions = parseCliArguments(args)
+        if (options.help) {
+            console.log(CLI_USAGE)
+            return 0
+        }
+
+        let overrides: ParameterOverrides = (options.paramsPath === undefined) ? {} : readParameterFile(fs.readFileSync(options.paramsPath, "utf8"))
+        let params: JobParameters = buildParameters(Object.assign(overrides, options.overrides))
+
+        let format: CliProfileFormat = options.format ?? profileFormatForExtension(path.extname(options.profilePath))
+        let report: ValidationReport = new ValidationReport()
+        let text: string = fs.readFileSync(options.profilePath, "utf8")
+        // Programs are read in their own units, which are taken back to the units profiles are given in
+        let profile: Profile = (format === "program") ? scaleProfile(readProgramProfile(text, params).profile, 1 / inputScale(params))
+            : parseProfileText(text, format, report, params.pointSpacing / inputScale(params))
+        let outputPath: string = options.outputPath ?? options.profilePath.slice(0, options.profilePath.length - path.extname(options.profilePath).length) + ".nc"
+        if (outputPath !== "-" && path.resolve(outputPath) === path.resolve(options.profilePath)) {
+            throw new SyntaxError("The program would be written over the one it was read from, give another file with --output.")
+        }
+
+        let variants: MandrelVariant[] | undefined = (options.variantsPath === undefined) ? undefined : readVariantFile(fs.readFileSync(options.variantsPath, "utf8"))
+        if (variants !== undefined && params.batchOutput === "separate") {
+            if (outputPath === "-") {
+                throw new SyntaxError("Separate programs can't be written to stdout, give an output file to name them after, or --set batchOutput=combined.")
+            }
+            let programs: BatchProgram[] = buildBatchPrograms(options.stockDiameter, profile, variants, params, report)
+            report.warnings.forEach(issue => console.error("WARNING - " + ValidationReport.describe(issue)))
+            let extension: string = path.extname(outputPath)
+            programs.forEach(program => {
+                // Part numbers are kept to characters safe in file names
+                let name: string = program.name.replace(/[^A-Za-z0-9._-]+/g, "_")
+                fs.writeFileSync(outputPath.slice(0, outputPath.length - extension.length) + "-" + name + extension, program.code)
+            })
+            return 0
+        }
+
+        let code: string = (variants === undefined) ? generateProgram(options.stockDiameter, profile, params, report)
+            : buildBatchProgram(options.stockDiameter, profile, variants, params, report).serialize()
+        report.warnings.forEach(issue => console.error("WARNING - " + ValidationReport.describe(issue)))
+
+        if (outputPath === "-") {
+            process.stdout.write(code)
+        }
+        else {
+            fs.writeFileSync(outputPath, code)
+        }
+
+        // Any errors were already reported by generating the program, so the sheet's own report is only for its checks
+        if (options.setupSheetPath !== undefined) {
+            let sheet: SetupSheet = buildSetupSheet(options.stockDiameter, profile, params, new ValidationReport())
+            fs.writeFileSync(options.setupSheetPath, setupSheetHtml(sheet, path.basename(options.profilePath)))
+        }
+        return 0
+    } catch (err) {
+        console.error(err.message)
+        if (err instanceof SyntaxError && err.message.indexOf("JSON") === -1) {
+            console.error(CLI_USAGE)
+        }
+        return 1
+    }
+}
@@ -0,0 +1,178 @@
+/*
+Node library build:
+- The generator's files are written for Apps Script, where every file shares one global scope, so for Node they are compiled
+  together with this folder into a single CommonJS file (dist/mandrel.cjs) by node/tsconfig.json
+- This file adds the exports, which are only set where a CommonJS module exists, so the folder does nothing if pushed with clasp
+- The .cjs extension keeps the build itself out of clasp pushes
+- Profiles are read from CSV or JSON text, then cleaned up and validated the same way as cells from the sheet, with rows counted
+  as lines of a CSV file or entries of a JSON array
+- Measured profiles can also be read from a CMM point list, and CSV headers from a micrometer logger name their columns in
+  several ways, so common names for each column are recognised
+- Existing programs are read back into profiles by readProgramProfile, in the units of the program
+- The toolpath preview drawn in the sheet's sidebar is built by buildPreview, with each move keeping its line of the program
+*/
+
+/**
+ * Formats a profile file can be read from.
+ */
+type ProfileFormat = "csv" | "json" | "cmm"
+
+// Names of the profile columns, as used in CSV headers and JSON objects
+const PROFILE_COLUMNS: string[] = ["diameter", "location", "radius"]
+
+// Other names recognised for each profile column in CSV headers, such as those written by measurement loggers
+const PROFILE_COLUMN_ALIASES: { [column: string]: string[] } = {
+    diameter: ["dia", "od", "reading", "measurement", "value"],
+    location: ["position", "pos", "z", "distance"],
+    radius: ["arc", "arcradius"]
+}
+
+/**
+ * Reads a mandrel profile from the text of a profile file.
+ * CSV files have a row per point, with columns for the diameter and optionally the location and arc radius.  A header row naming
+ * the columns allows them in any order.
+ * JSON files hold an array of { diameter, location, radius } objects, or an object of diameters, locations and radii arrays.
+ * CMM point lists are read by parseCmmPoints.
+ *
+ * @param text The contents of the file.
+ * @param format The format of the file.
+ * @param report The report to add any problems to.
+ * @param spacing The spacing of points given without locations, defaulting to 0.25.
+ * @return The profile, with points sorted by location.
+ */
+function parseProfileText(text: string, format: ProfileFormat, report: ValidationReport = new ValidationReport(), spacing: number = 0.25): Profile {
+    if (format === "json") {
+        return parseProfileJson(text, report, spacing)
+    }
+    if (format === "cmm") {
+        return parseCmmPoints(text, report)
+    }
+
+    let rows: string[][] = text.split(/\r?\n/).map(line => line.split(",").map(cell => cell.trim()))
+
+    // Columns are given positionally unless the first row names them
+    let columns: number[] = [0, 1, 2]
+    let firstRow: number = 1
+    if (rows[0][0] !== "" && !isNumericCell(rows[0][0])) {
+        let header: string[] = rows.shift()!.map(cell => cell.toLowerCase())
+        // Units and punctuation are dropped, so "Position (in)" is read as "position"
+        let names: string[] = header.map(cell => cell.replace(/\(.*\)|\[.*\]/g, "").replace(/[^a-z]/g, ""))
+        columns = PROFILE_COLUMNS.map(name => names.findIndex(cell => cell === name || PROFILE_COLUMN_ALIASES[name].indexOf(cell) !== -1))
+        if (columns[0] === -1) {
+            throw new RangeError(`Profile header must name a diameter column, got "${header.join(",")}".`)
+        }
+        firstRow = 2
+    }
+    let width: number = Math.max(...rows.map(row => row.length))
+    let column = (index: number): string[] | "" => {
+        if (index === -1 || index >= width) {
+            return ""
+        }
+        return rows.map(row => (index < row.length) ? row[index] : "")
+    }
+
+    return readProfileCells(column(columns[0]) as string[], column(columns[1]), column(columns[2]), report, firstRow, spacing)
+}
+
+/**
+ * Reads a mandrel profile from JSON text, in either of the forms accepted by parseProfileText.
+ */
+function parseProfileJson(text: string, report: ValidationReport, spacing: number): Profile {
+    let data: unknown = JSON.parse(text)
+
+    if (Array.isArray(data)) {
+        let points: { [key: string]: unknown }[] = data
+        // Points without a radius are reached by a straight line, like blank radius cells in the sheet
+        let locations: unknown[] | "" = points.some(point => point.location !== undefined) ? points.map(point => point.location) : ""
+        let radii: unknown[] | "" = points.some(point => point.radius !== undefined) ? points.map(point => point.radius ?? "") : ""
+        return readProfileCells(points.map(point => point.diameter), locations, radii, report, 1, spacing)
+    }
+    if (typeof data === "object" && data !== null && Array.isArray((data as { diameters?: unknown }).diameters)) {
+        let columns = data as { diameters: unknown[], locations?: unknown[], radii?: unknown[] }
+        return readProfileCells(columns.diameters, columns.locations ?? "", columns.radii ?? "", report, 1, spacing)
+    }
+    throw new TypeError("Profile JSON must be an array of points or an object holding a diameters array.")
+}
+
+/**
+ * Reads a mandrel profile from a CMM point list, with a line per point measured on the surface of the mandrel.  Each line gives
+ * the point's X, Y and Z coordinates, either as the last three numbers on it or labelled with their axes (e.g. "X=0.1675"), with
+ * the mandrel's axis along Z.  Lines without coordinates, such as headers, are skipped.
+ * The diameter at each point is twice its distance from the axis, and the location is its Z coordinate less that of the lowest
+ * point, as the part is rarely measured with its end at Z = 0.
+ *
+ * @param text The contents of the point list.
+ * @param report The report to add any problems to.
+ * @return The profile, with points sorted by location and rows counted as lines of the list.
+ */
+function parseCmmPoints(text: string, report: ValidationReport = new ValidationReport()): Profile {
+    let diameters: number[] = []
+    let locations: number[] = []
+    let rows: number[] = []
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        let labelled: { [axis: string]: number } = {}
+        let pattern: RegExp = /\b([XYZ])\s*[=:]?\s*(-?\d*\.?\d+(?:[eE][-+]?\d+)?)/gi
+        let match: RegExpExecArray | null
+        while ((match = pattern.exec(line)) !== null) {
+            labelled[match[1].toUpperCase()] = +match[2]
+        }
+        let coordinates: number[]
+        if (labelled.X !== undefined && labelled.Y !== undefined && labelled.Z !== undefined) {
+            coordinates = [labelled.X, labelled.Y, labelled.Z]
+        }
+        else {
+            // Point labels such as "PT12" are kept out by only taking numbers standing on their own
+            coordinates = line.split(/[\s,;]+/).filter(isNumericCell).map(Number).slice(-3)
+        }
+        if (coordinates.length < 3) {
+            if (line.trim() !== "" && /\d/.test(line)) {
+                report.warning("skippedCell", "location", index + 1, `Line "${line.trim()}" has no X, Y and Z coordinates, line ignored.`)
+            }
+            return
+        }
+
+        diameters.push(2 * Math.hypot(coordinates[0], coordinates[1]))
+        locations.push(coordinates[2])
+        rows.push(index + 1)
+    })
+
+    let profile: Profile = sortProfile({ diameters: diameters, locations: locations, radii: diameters.map(() => 0), rows: rows })
+    let start: number = (profile.locations.length > 0) ? profile.locations[0] : 0
+    if (start !== 0) {
+        report.warning("offsetLocation", "location", profile.rows[0], `Locations are measured from Z = ${start}, the lowest point in the list.`)
+        profile.locations = profile.locations.map(location => +(location - start).toFixed(6))
+    }
+    return profile
+}
+
+if (typeof module !== "undefined") {
+    module.exports = {
+        generateProgram: generateProgram,
+        buildProgram: buildProgram,
+        estimateProgram: estimateProgram,
+        buildPreview: buildPreview,
+        buildSetupSheet: buildSetupSheet,
+        setupSheetHtml: setupSheetHtml,
+        readVariantTable: readVariantTable,
+        buildBatchPrograms: buildBatchPrograms,
+        buildBatchProgram: buildBatchProgram,
+        readProfileCells: readProfileCells,
+        parseProfileText: parseProfileText,
+        parseCmmPoints: parseCmmPoints,
+        readProgramProfile: readProgramProfile,
+        fitProfile: fitProfile,
+        validateJob: validateJob,
+        ValidationReport: ValidationReport,
+        ValidationError: ValidationError,
+        buildParameters: buildParameters,
+        defaultParameters: defaultParameters,
+        sectionBoundaries: sectionBoundaries,
+        interpolatePoints: interpolatePoints,
+        genMultiPassPoints: genMultiPassPoints,
+        DimensionPoint: DimensionPoint,
+        simulateProgram: simulateProgram,
+        verifyProgram: verifyProgram,
+        runCli: runCli
+    }
+}
@@ -0,0 +1,684 @@
+/*
+Job parameters:
+- Defaults match the values previously hard-coded in the global object
+- Any subset can be overridden per job from the sheet, either with a two column key/value table or a named range holding one
+- Keys use the dotted path of the value, e.g. "depths.max" or "spacing.xClearance"
+- Tools in the library are set the same way, e.g. "tools.T2.noseRadius", and setting any value of a tool not in the library adds it
+- Program templates are added the same way, e.g. "templates.acme.header", and chosen with "template"
+- Text values are lowercased, except for the job details and templates, which are written to the program as given
+- Defaults are in inches.  Choosing millimeters with "units" converts every default length, feed and rounding to suit, and any
+  overrides are then given in millimeters
+- The stock and profile can be given in other units than the program, set by "inputUnits", and are converted when read
+- All values are checked before any code is generated
+*/
+
+/**
+ * Machining parameters used throughout a single code generation run.
+ */
+interface JobParameters {
+    depths: {
+        // Maximum and minimum depth of cut, measured on diameter
+        max: number,
+        min: number
+    },
+    spacing: {
+        xClearance: number,
+        zClearance: number,
+        // Distance the stock is drawn into the collet as it is clamped after a pull, plus an amount per unit of the step
+        // between the stock and the diameter it is pulled against
+        colletShift: number,
+        colletShiftRate: number,
+        // Length of each section's overlap re-cutting the end of the previous section, or 0 for no overlap
+        blendLength: number
+    },
+    feed: number,
+    rpm: number,
+    // Stock material, naming an entry of MATERIALS that feeds and speeds are worked out from, or empty to use feed and rpm
+    material: string,
+    // Spindle speed output: constant "rpm" (G97), or constant surface speed "css" (G96)
+    spindleMode: string,
+    // Fastest the spindle may run, which limits calculated speeds and clamps constant surface speed (G50)
+    maxRpm: number,
+    // Machine rapid traverse rate in units per minute, used to estimate cycle time
+    rapidRate: number,
+    // Longest section that can be machined, from the collet to the end of the stock
+    stickout: number,
+    // Where the profile is divided into sections, as described in boundaries.ts
+    sections: {
+        // "fixed" for a boundary every stickout, or "auto" to choose them from the profile
+        placement: string,
+        // Locations of the boundaries along the profile as given, separated by commas, or empty to place them by placement
+        boundaries: string,
+        // Longest a section may be for each unit of its smallest diameter, or 0 for no limit
+        maxSlenderness: number,
+        // Largest change of slope, in degrees, at a point that auto placement may put a boundary on
+        maxSlopeChange: number
+    },
+    decimals: number,
+    // Units of the program and of every length, feed and surface speed parameter: "inch" or "mm"
+    units: string,
+    // Units the stock diameter and profile are given in, or empty for the same as units
+    inputUnits: string,
+    // Spacing of profile points given without locations
+    pointSpacing: number,
+    // Native cycle flags, named for the Omniturn cycles but used for the selected post's equivalents
+    G75Functional: boolean,
+    G74Functional: boolean,
+    // How simulated contour cycles rough: "scaled" copies of the contour, or constant depth "step down" passes cutting only where material remains
+    roughingStrategy: string,
+    // Where contour subroutines for native cycles are placed: "inline" after their cycle, or at the "end" after the program end
+    subroutinePlacement: string,
+    // Section to generate in both simulated and native cycle versions for comparison on the machine, or 0 for normal output
+    compareSection: number,
+    // Name of the controller post processor to generate code for
+    postProcessor: string,
+    // Tools available to the job, keyed by tool number as "T1", "T2" and so on
+    tools: { [key: string]: ToolDefinition },
+    // Numbers of the library tools used for each operation
+    roughingTool: number,
+    finishingTool: number,
+    partOffTool: number,
+    // Whether the finished mandrel is parted off after the final section
+    partOff: boolean,
+    // Whether each pull is raised by the expected collet shift
+    colletCompensation: boolean,
+    // How the finishing tool's nose radius is allowed for: "geometric" offsetting of the contour, or "controller" G41/G42
+    noseCompensation: string,
+    // Finishing of each section after roughing, at the finishing tool's feed and speed
+    finishing: {
+        // Material left on each side by roughing, or 0 for a quarter of depths.max, less any more the roughing tool's nose leaves
+        // where each section ends
+        allowance: number,
+        // Whether a semi-finishing pass removes half of the allowance before the finishing pass
+        semiFinish: boolean,
+        // Number of spring passes repeating the finishing pass with no added depth
+        springPasses: number,
+        // Direction the finishing passes cut: "toward collet" or "away from collet"
+        direction: string
+    },
+    // Fitting of measured profiles before they are divided into sections
+    fit: {
+        // "none" to use the points as given, "least squares" to smooth them, or "monotone" for a monotone spline
+        method: string,
+        // Spacing the fit is resampled to, or 0 to keep the measured locations
+        pitch: number,
+        // Length of profile each least squares line is fitted over
+        window: number,
+        // Largest deviation of the fit from a reading before a warning is given, or 0 for no check
+        tolerance: number
+    },
+    // Details of the job, given to the program template
+    job: {
+        name: string,
+        customer: string,
+        partNumber: string,
+        revision: string,
+        author: string
+    },
+    // Name of the template laying out the program's header, setup and end
+    template: string,
+    // Program templates available to the job, keyed by name
+    templates: { [key: string]: ProgramTemplate },
+    // How the programs of a mandrel family are written: "separate" programs for each variant, or one "combined" program
+    batchOutput: string
+}
+
+/**
+ * Loosely typed set of overrides keyed by dotted parameter path, as read from the sheet.
+ */
+type ParameterOverrides = { [key: string]: unknown }
+
+/**
+ * A level of the parameter tree, indexed by name, used to reach a value by its dotted path.
+ */
+type ParameterNode = { [key: string]: unknown }
+
+// Name of the range checked for overrides when none are passed to genCode directly
+const PARAMETER_RANGE_NAME = "JobParameters"
+
+// DEFAULTS
+// Collet shift is an estimate, and should be measured on the machine before compensation is turned on
+const defaultParameters: JobParameters = {
+    depths: {
+        max: 0.040,
+        min: 0.010
+    },
+    spacing: {
+        xClearance: 0.010,
+        zClearance: 0.100,
+        colletShift: 0.050,
+        colletShiftRate: 0,
+        blendLength: 0
+    },
+    feed: 0.002,
+    rpm: 1500,
+    material: "",
+    spindleMode: "rpm",
+    maxRpm: 3000,
+    rapidRate: 200,
+    stickout: 1.000,
+    sections: {
+        placement: "fixed",
+        boundaries: "",
+        maxSlenderness: 0,
+        maxSlopeChange: 2
+    },
+    decimals: 4,
+    units: "inch",
+    inputUnits: "",
+    pointSpacing: 0.25,
+    G75Functional: false,
+    G74Functional: false,
+    roughingStrategy: "scaled",
+    subroutinePlacement: "inline",
+    compareSection: 0,
+    postProcessor: "omniturn",
+    tools: {
+        T1: { type: "rough turning", offset: 1, feed: 0, rpm: 0, maxDepth: 0, noseRadius: 0, orientation: 3, plungeAngle: 30, width: 0 },
+        T2: { type: "finish turning", offset: 2, feed: 0, rpm: 0, maxDepth: 0, noseRadius: 0, orientation: 3, plungeAngle: 30, width: 0 },
+        T3: { type: "part off", offset: 3, feed: 0.001, rpm: 1000, maxDepth: 0, noseRadius: 0, orientation: 3, plungeAngle: 0, width: 0.062 },
+        T4: { type: "center drill", offset: 4, feed: 0.001, rpm: 0, maxDepth: 0, noseRadius: 0, orientation: 0, plungeAngle: 0, width: 0 }
+    },
+    roughingTool: 1,
+    finishingTool: 2,
+    partOffTool: 3,
+    partOff: false,
+    colletCompensation: false,
+    noseCompensation: "geometric",
+    finishing: {
+        allowance: 0,
+        semiFinish: false,
+        springPasses: 0,
+        direction: "toward collet"
+    },
+    fit: {
+        method: "none",
+        pitch: 0,
+        window: 0.5,
+        tolerance: 0
+    },
+    job: {
+        name: "",
+        customer: "OMalley Brass",
+        partNumber: "",
+        revision: "",
+        author: "Jeremy Peplinski"
+    },
+    template: "default",
+    templates: {
+        default: {
+            header: "({customer})\n({stickout} {units} part stickout)\n({stock})\n{notes}\n(Code generation by {author})\n(Executed {date})",
+            setup: "{setup}",
+            footer: "{end}"
+        }
+    },
+    batchOutput: "separate"
+}
+
+/**
+ * Creates a deep copy of a parameter set so that overrides never modify the defaults.
+ *
+ * @param params The parameter set to copy.
+ * @return An independent copy of params.
+ */
+function copyParameters(params: JobParameters): JobParameters {
+    return JSON.parse(JSON.stringify(params))
+}
+
+/**
+ * Converts a two column key/value range into a set of overrides.
+ * Rows with an empty key are skipped, allowing blank spacer rows in the sheet.
+ *
+ * @param table The 2D array of values read from the sheet.
+ * @return Overrides keyed by the trimmed text of the first column.
+ */
+function parseParameterTable(table: unknown[][]): ParameterOverrides {
+    let overrides: ParameterOverrides = {}
+
+    table.forEach((row, index) => {
+        if (!Array.isArray(row) || row.length < 2) {
+            throw new TypeError(`Parameter table row ${index + 1} must contain a key and a value.`)
+        }
+        let key: string = String(row[0]).trim()
+        if (key === "") {
+            return
+        }
+        if (Object.prototype.hasOwnProperty.call(overrides, key)) {
+            throw new SyntaxError(`Parameter "${key}" is given more than once.`)
+        }
+        overrides[key] = row[1]
+    })
+
+    return overrides
+}
+
+/**
+ * Reads overrides from the named parameter range of the active spreadsheet, if one exists.
+ *
+ * @param rangeName The named range to read from.
+ * @return Overrides from the range, or an empty set if the range or spreadsheet is not available.
+ */
+function readParameterRange(rangeName: string): ParameterOverrides {
+    let spreadsheet = SpreadsheetApp.getActiveSpreadsheet()
+    // No spreadsheet is available when running from the script editor of a standalone project
+    if (spreadsheet === null) {
+        return {}
+    }
+
+    let range = spreadsheet.getRangeByName(rangeName)
+    if (range === null) {
+        return {}
+    }
+
+    return parseParameterTable(range.getValues())
+}
+
+/**
+ * Resolves the overrides argument given to genCode.
+ * A range of values is used directly, a string is treated as the name of a range, and nothing falls back to the default named range.
+ *
+ * @param source The value passed in by the sheet.
+ * @return The overrides found, which may be empty.
+ */
+function getParameterOverrides(source: unknown): ParameterOverrides {
+    if (source === undefined || source === "") {
+        return readParameterRange(PARAMETER_RANGE_NAME)
+    }
+    if (typeof source === "string") {
+        let overrides: ParameterOverrides = readParameterRange(source)
+        if (Object.keys(overrides).length === 0) {
+            throw new ReferenceError(`No parameters found in named range "${source}".`)
+        }
+        return overrides
+    }
+    if (Array.isArray(source)) {
+        return parseParameterTable(source)
+    }
+    throw new TypeError("Parameters must be given as a two column key/value range or the name of one.")
+}
+
+/**
+ * Converts a raw sheet value to the type of the default it replaces.
+ *
+ * @param key The dotted parameter path, used for error messages.
+ * @param value The raw value from the sheet.
+ * @param example The default value, whose type is required.
+ * @return The converted value.
+ */
+function coerceParameter(key: string, value: unknown, example: number | boolean | string): number | boolean | string {
+    if (typeof example === "string") {
+        return isTextParameter(key) ? String(value).trim() : String(value).trim().toLowerCase()
+    }
+
+    if (typeof example === "boolean") {
+        if (typeof value === "boolean") {
+            return value
+        }
+        let text: string = String(value).trim().toLowerCase()
+        if (text === "true" || text === "yes" || text === "1") {
+            return true
+        }
+        if (text === "false" || text === "no" || text === "0") {
+            return false
+        }
+        throw new TypeError(`Parameter "${key}" must be TRUE or FALSE, got "${value}".`)
+    }
+
+    // Number testing matches that used for point data in genCode
+    if (value === "" || typeof value === "boolean" || isNaN(value as number) || isNaN(parseFloat(value as string))) {
+        throw new TypeError(`Parameter "${key}" must be a number, got "${value}".`)
+    }
+    return +(value as number)
+}
+
+/**
+ * Checks whether a parameter is text written to the program, which keeps its case rather than being read as a choice.
+ *
+ * @param key The dotted parameter path.
+ */
+function isTextParameter(key: string): boolean {
+    let path: string[] = key.split(".")
+    return path[0] === "job" || (path[0] === "templates" && path.length === 3)
+}
+
+// Names of the units lengths can be given in
+const UNITS: string[] = ["inch", "mm"]
+
+const MM_PER_INCH = 25.4
+
+// Parameters holding a length, or a feed per revolution or per minute, which are converted along with the units
+const LENGTH_PARAMETERS: string[] = [
+    "depths.max", "depths.min", "spacing.xClearance", "spacing.zClearance", "spacing.colletShift", "spacing.blendLength", "feed",
+    "rapidRate", "stickout", "pointSpacing", "finishing.allowance", "fit.pitch", "fit.window", "fit.tolerance"
+]
+
+// Fields of each tool in the library holding a length or feed
+const TOOL_LENGTH_FIELDS: ("feed" | "maxDepth" | "noseRadius" | "width")[] = ["feed", "maxDepth", "noseRadius", "width"]
+
+/**
+ * Converts a parameter set to other units.  Lengths and feeds are scaled, and the printed precision is changed by a place, as a
+ * millimeter is near enough a tenth of the smallest inch value worth printing.
+ *
+ * @param params The parameter set to convert, which is left unchanged.
+ * @param units The units to convert to.
+ * @return A converted copy of params.
+ */
+function convertParameterUnits(params: JobParameters, units: string): JobParameters {
+    let converted: JobParameters = copyParameters(params)
+    if (units === params.units) {
+        return converted
+    }
+    let factor: number = (units === "mm") ? MM_PER_INCH : 1 / MM_PER_INCH
+    let convert = (value: number): number => scaleLength(value, factor)
+
+    LENGTH_PARAMETERS.forEach(key => {
+        let path: string[] = key.split(".")
+        let target: ParameterNode = converted as unknown as ParameterNode
+        for (let i = 0; i < path.length - 1; i++) {
+            target = target[path[i]] as ParameterNode
+        }
+        target[path[path.length - 1]] = convert(target[path[path.length - 1]] as number)
+    })
+    Object.keys(converted.tools).forEach(key => {
+        let tool: ToolDefinition = converted.tools[key]
+        TOOL_LENGTH_FIELDS.forEach(field => tool[field] = convert(tool[field]))
+    })
+    converted.decimals = Math.max(0, converted.decimals + ((units === "mm") ? -1 : 1))
+    converted.units = units
+    return converted
+}
+
+/**
+ * Converts a length to other units.  The result is rounded well past any printed precision, so a 1 inch stickout becomes 25.4
+ * rather than 25.400000000000002.
+ *
+ * @param value The length to convert.
+ * @param factor The factor to multiply it by.
+ * @return The converted length.
+ */
+function scaleLength(value: number, factor: number): number {
+    return (factor === 1) ? value : +(value * factor).toFixed(6)
+}
+
+/**
+ * Finds the factor converting the stock and profile of a job from the units they are given in to the units of the program.
+ *
+ * @param params The job parameters in use.
+ * @return The factor to multiply input lengths by.
+ */
+function inputScale(params: JobParameters): number {
+    let inputUnits: string = (params.inputUnits === "") ? params.units : params.inputUnits
+    if (inputUnits === params.units) {
+        return 1
+    }
+    return (params.units === "mm") ? MM_PER_INCH : 1 / MM_PER_INCH
+}
+
+/**
+ * Gives the short name of the units of a job, as used for areas and volumes, such as "cu in".
+ */
+function unitAbbreviation(params: JobParameters): string {
+    return (params.units === "mm") ? "mm" : "in"
+}
+
+/**
+ * Builds the parameters for a job by applying overrides to the defaults, then checks the result.
+ *
+ * @param overrides Values to replace, keyed by dotted parameter path.
+ * @param base The parameters to start from, defaulting to defaultParameters.
+ * @return A complete, checked set of job parameters.
+ */
+function buildParameters(overrides: ParameterOverrides, base: JobParameters = defaultParameters): JobParameters {
+    let params: JobParameters = copyParameters(base)
+
+    // The base is converted before anything else, so the other overrides are taken as given in the job's units
+    if (Object.prototype.hasOwnProperty.call(overrides, "units")) {
+        let units = coerceParameter("units", overrides.units, params.units) as string
+        if (UNITS.indexOf(units) !== -1) {
+            params = convertParameterUnits(params, units)
+        }
+    }
+
+    Object.keys(overrides).forEach(key => {
+        let path: string[] = key.split(".")
+        if (path.length === 3 && path[0] === "tools" && /^T[1-9][0-9]*$/.test(path[1]) && !Object.prototype.hasOwnProperty.call(params.tools, path[1])) {
+            params.tools[path[1]] = newToolDefinition(+path[1].slice(1))
+        }
+        // Template names are chosen with "template", which is lowercased like any other choice
+        if (path.length === 3 && path[0] === "templates") {
+            path[1] = path[1].toLowerCase()
+            if (!Object.prototype.hasOwnProperty.call(params.templates, path[1])) {
+                params.templates[path[1]] = newProgramTemplate()
+            }
+        }
+        let target: ParameterNode | undefined = params as unknown as ParameterNode
+        for (let i = 0; i < path.length - 1; i++) {
+            let child: unknown = Object.prototype.hasOwnProperty.call(target, path[i]) ? target[path[i]] : undefined
+            target = (typeof child === "object" && child !== null) ? child as ParameterNode : undefined
+            if (target === undefined) {
+                break
+            }
+        }
+        let field: string = path[path.length - 1]
+        if (target === undefined || !Object.prototype.hasOwnProperty.call(target, field) || typeof target[field] === "object") {
+            throw new ReferenceError(`Unknown parameter "${key}".`)
+        }
+        target[field] = coerceParameter(key, overrides[key], target[field] as number | boolean | string)
+    })
+
+    validateParameters(params)
+
+    return params
+}
+
+/**
+ * Checks the tool library of a set of parameters, and that the tools chosen for each operation suit it.
+ *
+ * @param params The parameters to check.
+ * @return A description of each problem found.
+ */
+function toolLibraryProblems(params: JobParameters): string[] {
+    let problems: string[] = []
+
+    Object.keys(params.tools).forEach(key => {
+        let tool: ToolDefinition = params.tools[key]
+        let nonNegative: [string, number][] = [
+            ["feed", tool.feed],
+            ["rpm", tool.rpm],
+            ["maxDepth", tool.maxDepth],
+            ["noseRadius", tool.noseRadius],
+            ["width", tool.width]
+        ]
+        nonNegative.forEach(([field, value]) => {
+            if (!isFinite(value) || value < 0) {
+                problems.push(`tools.${key}.${field} must not be negative`)
+            }
+        })
+        if (TOOL_TYPES.indexOf(tool.type) === -1) {
+            problems.push(`tools.${key}.type must be one of: ${TOOL_TYPES.join(", ")}`)
+        }
+        if (!Number.isInteger(tool.offset) || tool.offset < 1) {
+            problems.push(`tools.${key}.offset must be a whole number of at least 1`)
+        }
+        if (!Number.isInteger(tool.orientation) || tool.orientation < 0 || tool.orientation > 9) {
+            problems.push(`tools.${key}.orientation must be an imaginary tool nose number from 0 to 9`)
+        }
+        if (!isFinite(tool.plungeAngle) || tool.plungeAngle < 0 || tool.plungeAngle > 90) {
+            problems.push(`tools.${key}.plungeAngle must be an angle from 0 to 90 degrees`)
+        }
+        if (tool.rpm > params.maxRpm) {
+            problems.push(`tools.${key}.rpm must not exceed maxRpm`)
+        }
+    })
+
+    // Each operation needs a tool of a suitable type
+    let operations: [string, number, string[]][] = [
+        ["roughingTool", params.roughingTool, TURNING_TOOL_TYPES],
+        ["finishingTool", params.finishingTool, TURNING_TOOL_TYPES]
+    ]
+    if (params.partOff) {
+        operations.push(["partOffTool", params.partOffTool, ["part off"]])
+    }
+    operations.forEach(([key, number, types]) => {
+        let tool: ToolDefinition | undefined = params.tools["T" + number]
+        if (tool === undefined) {
+            problems.push(`${key} must be the number of a tool in the library`)
+        }
+        else if (types.indexOf(tool.type) === -1) {
+            problems.push(`${key} must be a ${types.join(" or ")} tool`)
+        }
+    })
+    if (problems.length > 0) {
+        return problems
+    }
+
+    // Finishing removes the finishing allowance left by roughing on each side, and where each section ends, the fillet left by the
+    // roughing tool's nose
+    let finishingDepth: number = getTool(params, params.finishingTool).maxDepth
+    let allowance: number = finishAllowance(params)
+    let fillet: number = roughingFillet(params)
+    if (finishingDepth < 2 * allowance) {
+        problems.push("finishingTool maxDepth is too small to remove the finishing allowance")
+    }
+    else if (fillet > 0 && (allowance <= 0 || finishingDepth < 2 * (allowance + fillet) - 1e-9)) {
+        problems.push("finishingTool maxDepth is too small to remove the finishing allowance along with the fillet left by the roughing tool's nose radius")
+    }
+    if (params.partOff && getTool(params, params.partOffTool).width <= 0) {
+        problems.push("partOffTool must have a blade width")
+    }
+
+    return problems
+}
+
+/**
+ * Checks that a full set of parameters can produce sensible code, reporting every problem found at once.
+ *
+ * @param params The parameters to check.
+ */
+function validateParameters(params: JobParameters): void {
+    let problems: string[] = []
+
+    let positive: [string, number][] = [
+        ["depths.max", params.depths.max],
+        ["depths.min", params.depths.min],
+        ["feed", params.feed],
+        ["rpm", params.rpm],
+        ["maxRpm", params.maxRpm],
+        ["fit.window", params.fit.window],
+        ["rapidRate", params.rapidRate],
+        ["stickout", params.stickout],
+        ["pointSpacing", params.pointSpacing]
+    ]
+    positive.forEach(([key, value]) => {
+        if (!isFinite(value) || value <= 0) {
+            problems.push(`${key} must be greater than zero`)
+        }
+    })
+
+    let nonNegative: [string, number][] = [
+        ["spacing.xClearance", params.spacing.xClearance],
+        ["spacing.zClearance", params.spacing.zClearance],
+        ["spacing.colletShift", params.spacing.colletShift],
+        ["spacing.blendLength", params.spacing.blendLength],
+        ["finishing.allowance", params.finishing.allowance],
+        ["fit.pitch", params.fit.pitch],
+        ["fit.tolerance", params.fit.tolerance],
+        ["sections.maxSlenderness", params.sections.maxSlenderness]
+    ]
+    nonNegative.forEach(([key, value]) => {
+        if (!isFinite(value) || value < 0) {
+            problems.push(`${key} must not be negative`)
+        }
+    })
+
+    if (!isFinite(params.spacing.colletShiftRate)) {
+        problems.push("spacing.colletShiftRate must be a number")
+    }
+    if (params.spacing.blendLength >= params.stickout) {
+        problems.push("spacing.blendLength must be less than stickout")
+    }
+    if (params.spacing.blendLength > 0 && params.spacing.blendLength >= params.spacing.zClearance) {
+        // The overlap is cut from the cycle start point, which must stay clear of it
+        problems.push("spacing.blendLength must be less than spacing.zClearance")
+    }
+
+    if (SECTION_PLACEMENTS.indexOf(params.sections.placement) === -1) {
+        problems.push(`sections.placement must be one of: ${SECTION_PLACEMENTS.join(", ")}`)
+    }
+    let boundaries: number[] = parseBoundaryList(params.sections.boundaries)
+    if (boundaries.some((location, i) => !isFinite(location) || location <= 0 || (i > 0 && location <= boundaries[i - 1]))) {
+        problems.push("sections.boundaries must be locations greater than zero, in increasing order and separated by commas")
+    }
+    if (!isFinite(params.sections.maxSlopeChange) || params.sections.maxSlopeChange < 0 || params.sections.maxSlopeChange > 180) {
+        problems.push("sections.maxSlopeChange must be an angle from 0 to 180 degrees")
+    }
+
+    if (params.depths.min > params.depths.max) {
+        problems.push("depths.min must not exceed depths.max")
+    }
+    if (!Number.isInteger(params.decimals) || params.decimals < 0 || params.decimals > 6) {
+        problems.push("decimals must be a whole number from 0 to 6")
+    }
+    else if (finishAllowance(params) > 0 && +finishAllowance(params).toFixed(params.decimals) === 0) {
+        // Finishing allowance must still be representable
+        problems.push("decimals is too small to represent the finishing allowance")
+    }
+
+    if (!Number.isInteger(params.compareSection) || params.compareSection < 0) {
+        problems.push("compareSection must be a section number, or 0 for no comparison")
+    }
+    if (ROUGHING_STRATEGIES.indexOf(params.roughingStrategy) === -1) {
+        problems.push(`roughingStrategy must be one of: ${ROUGHING_STRATEGIES.join(", ")}`)
+    }
+    if (params.subroutinePlacement !== "inline" && params.subroutinePlacement !== "end") {
+        problems.push("subroutinePlacement must be inline or end")
+    }
+    if (UNITS.indexOf(params.units) === -1) {
+        problems.push(`units must be one of: ${UNITS.join(", ")}`)
+    }
+    if (params.inputUnits !== "" && UNITS.indexOf(params.inputUnits) === -1) {
+        problems.push(`inputUnits must be one of: ${UNITS.join(", ")}, or empty`)
+    }
+    if (POST_PROCESSOR_NAMES.indexOf(params.postProcessor) === -1) {
+        problems.push(`postProcessor must be one of: ${POST_PROCESSOR_NAMES.join(", ")}`)
+    }
+    problems.push(...toolLibraryProblems(params))
+    if (params.rpm > params.maxRpm) {
+        problems.push("rpm must not exceed maxRpm")
+    }
+    if (params.material !== "" && !Object.prototype.hasOwnProperty.call(MATERIALS, params.material)) {
+        problems.push(`material must be one of: ${Object.keys(MATERIALS).join(", ")}, or empty`)
+    }
+    if (SPINDLE_MODES.indexOf(params.spindleMode) === -1) {
+        problems.push(`spindleMode must be one of: ${SPINDLE_MODES.join(", ")}`)
+    }
+    if (!Number.isInteger(params.finishing.springPasses) || params.finishing.springPasses < 0) {
+        problems.push("finishing.springPasses must be a whole number, or 0 for none")
+    }
+    if (FINISHING_DIRECTIONS.indexOf(params.finishing.direction) === -1) {
+        problems.push(`finishing.direction must be one of: ${FINISHING_DIRECTIONS.join(", ")}`)
+    }
+    if (FIT_METHODS.indexOf(params.fit.method) === -1) {
+        problems.push(`fit.method must be one of: ${FIT_METHODS.join(", ")}`)
+    }
+    if (NOSE_COMPENSATION_MODES.indexOf(params.noseCompensation) === -1) {
+        problems.push(`noseCompensation must be one of: ${NOSE_COMPENSATION_MODES.join(", ")}`)
+    }
+    if (BATCH_OUTPUTS.indexOf(params.batchOutput) === -1) {
+        problems.push(`batchOutput must be one of: ${BATCH_OUTPUTS.join(", ")}`)
+    }
+    if (!Object.prototype.hasOwnProperty.call(params.templates, params.template)) {
+        problems.push(`template must be one of: ${Object.keys(params.templates).join(", ")}`)
+    }
+    Object.keys(params.templates).forEach(name => {
+        let template: ProgramTemplate = params.templates[name]
+        let parts: [string, string][] = [["header", template.header], ["setup", template.setup], ["footer", template.footer]]
+        parts.forEach(([part, text]) => {
+            templatePlaceholderProblems(text).forEach(problem => problems.push(`templates.${name}.${part} ${problem}`))
+        })
+    })
+
+    if (problems.length > 0) {
+        throw new RangeError("Invalid job parameters: " + problems.join("; ") + ".")
+    }
+}
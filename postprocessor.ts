@@ -0,0 +1,444 @@
+/*
+Post processors:
+- Each controller's syntax is kept in a PostProcessor subclass, so the motion functions never write controller specific codes themselves
+- Omniturn is the default, matching the code generated before posts were introduced
+- The Fanuc style post covers standard lathe controls: G71/G70 contour roughing and finishing, G90 box turning, O-number subprograms with M98/M99
+- Posts are selected per job with the postProcessor parameter
+*/
+
+/**
+ * Base class for controller output.  Codes shared by most controllers are provided here and overridden where a controller differs.
+ */
+abstract class PostProcessor {
+    // Name used to select the post in job parameters
+    abstract name: string
+
+    rapidCode: string = "G00"
+    linearCode: string = "G01"
+    clockwiseArcCode: string = "G02"
+    counterClockwiseArcCode: string = "G03"
+
+    /**
+     * Formats a coordinate or feed value to the precision in use.
+     */
+    formatNumber(value: number, decimals: number): string {
+        return String(+value.toFixed(decimals))
+    }
+
+    /**
+     * Formats the words giving an arc's size, placed after its end point.  The radius is used, as generated arcs never exceed 180 degrees.
+     */
+    arcWords(start: DimensionPoint, end: DimensionPoint, center: DimensionPoint, radius: number, params: JobParameters): string {
+        return "R" + this.formatNumber(radius, params.decimals)
+    }
+
+    /**
+     * Formats the move to a contour point, as used in cycle contours and their subroutines.  Points holding a radius are reached by an arc.
+     *
+     * @param previous The contour point the move starts from, or undefined for the first point.
+     * @param point The contour point to move to.
+     * @param lastCode The motion code in effect before the move, which is only repeated when it changes.
+     * @param params The job parameters in use.
+     * @return The move without a line ending, and the motion code in effect after it.
+     */
+    contourMove(previous: DimensionPoint | undefined, point: DimensionPoint, lastCode: string, params: JobParameters): { code: string, motionCode: string } {
+        let motionCode: string = this.linearCode
+        let arcWords: string = ""
+        if (previous !== undefined && point.radius !== undefined) {
+            let arc: ArcGeometry = arcGeometry(previous, point)
+            motionCode = arc.clockwise ? this.clockwiseArcCode : this.counterClockwiseArcCode
+            arcWords = this.arcWords(previous, point, arc.center, arc.radius, params)
+        }
+
+        let code: string = (motionCode === lastCode) ? "" : motionCode
+        code += "X" + this.formatNumber(point.x, params.decimals) + "Z" + this.formatNumber(point.z, params.decimals) + arcWords
+
+        return { code: code, motionCode: motionCode }
+    }
+
+    /**
+     * Formats a comment to be placed at the end of a block, or on a line by itself when followed by a newline.
+     */
+    comment(text: string): string {
+        return "(" + text + ")"
+    }
+
+    /**
+     * Code needed before any other output, including header comments.
+     */
+    programStart(params: JobParameters): string {
+        return ""
+    }
+
+    /**
+     * Modal setup block run before the first tool call.
+     */
+    abstract setup(params: JobParameters): string
+
+    /**
+     * Code selecting inch or millimeter units, as given in the setup block.
+     */
+    unitsCode(params: JobParameters): string {
+        return (params.units === "mm") ? "G21" : "G20"
+    }
+
+    /**
+     * Code selecting constant rpm or constant surface speed, as given in the setup block.
+     */
+    spindleModeCode(params: JobParameters): string {
+        return (params.spindleMode === "css") ? "G96" : "G97"
+    }
+
+    /**
+     * Limits the spindle speed for constant surface speed, which must come before the spindle is first started.
+     */
+    spindleClamp(params: JobParameters): string {
+        return (params.spindleMode === "css") ? `G50S${params.maxRpm}\n` : ""
+    }
+
+    /**
+     * Selects a tool along with the offset register it is used with.
+     */
+    abstract toolChange(tool: number, offset: number): string
+
+    abstract programEnd(): string
+
+    /**
+     * Code needed after everything else, including any subroutines placed after the program end.
+     */
+    programFinish(): string {
+        return ""
+    }
+
+    abstract feedPerMinute(feed: number, params: JobParameters): string
+
+    abstract feedPerRevolution(feed: number, params: JobParameters): string
+
+    /**
+     * Starts or cancels tool nose radius compensation, which takes effect on the following move.
+     */
+    noseCompensation(side: "left" | "right" | "off"): string {
+        return ((side === "left") ? "G41" : (side === "right") ? "G42" : "G40") + "\n"
+    }
+
+    spindleStart(rpm: number): string {
+        return `M03S${rpm}\n`
+    }
+
+    spindleStop(): string {
+        return "M05\n"
+    }
+
+    optionalStop(comment?: string): string {
+        return "M01" + (comment === undefined ? "" : this.comment(comment)) + "\n"
+    }
+
+    abstract subroutineStart(id: number): string
+
+    subroutineEnd(): string {
+        return "M99\n"
+    }
+
+    abstract subroutineCall(id: number): string
+
+    /**
+     * Generates a roughing cycle following a contour.  The cutter is assumed to be at the cycle start point, and is returned there.
+     * Any contour given separately by contourSubroutine is placed inline or after the program end by the caller.
+     *
+     * @param points The points defining the inside contour of material removal.
+     * @param I The maximum depth of cut per side, i.e. half of the depth on diameter.
+     * @param U The finishing allowance per side.
+     * @param F The feed rate.
+     * @param subroutineID The number to use to label the contour.
+     * @param params The job parameters in use.
+     * @param comment Optional comment placed on the cycle block.
+     */
+    abstract contourCycle(points: DimensionPoint[], I: number, U: number, F: number, subroutineID: number, params: JobParameters, comment?: string): string
+
+    /**
+     * Generates the subroutine holding a contour for contourCycle, if the controller needs one.
+     *
+     * @return The subroutine, or an empty string if the contour is given with the cycle itself.
+     */
+    contourSubroutine(points: DimensionPoint[], subroutineID: number, params: JobParameters): string {
+        return ""
+    }
+
+    // Whether the controller has a finishing cycle to follow contourCycle
+    hasFinishCycle: boolean = false
+
+    /**
+     * Generates a finishing pass over a contour previously roughed with contourCycle, for controllers with hasFinishCycle set.
+     * The cutter is returned to the cycle start point.
+     */
+    finishCycle(points: DimensionPoint[], subroutineID: number, params: JobParameters): string {
+        throw new Error(`The ${this.name} post has no finishing cycle.`)
+    }
+
+    /**
+     * Generates a roughing cycle removing a rectangular block of material between the start and end points.
+     * The cutter is assumed to be at the start point, and is returned there.
+     */
+    abstract boxCycle(startPoint: DimensionPoint, endPoint: DimensionPoint, I: number, U: number, F: number, params: JobParameters, comment?: string): string
+}
+
+/**
+ * Omniturn controls, using G72 diameter mode and }N labelled subroutines for G75 contour cycles.
+ */
+class OmniturnPost extends PostProcessor {
+    name: string = "omniturn"
+
+    setup(params: JobParameters): string {
+        return this.spindleClamp(params) + `${this.unitsCode(params)}G72G90${this.spindleModeCode(params)}G95F${this.formatNumber(params.feed, params.decimals)}\n`
+    }
+
+    /**
+     * Omniturn controls select units with G70 and G71 in place of G20 and G21.
+     */
+    unitsCode(params: JobParameters): string {
+        return (params.units === "mm") ? "G71" : "G70"
+    }
+
+    toolChange(tool: number, offset: number): string {
+        // Gang tooling has no turret to index, so tools are selected by their offset alone
+        return `T${offset}\n`
+    }
+
+    programEnd(): string {
+        return "M30\n"
+    }
+
+    feedPerMinute(feed: number, params: JobParameters): string {
+        return `G94F${this.formatNumber(feed, params.decimals)}\n`
+    }
+
+    feedPerRevolution(feed: number, params: JobParameters): string {
+        return `G95F${this.formatNumber(feed, params.decimals)}\n`
+    }
+
+    subroutineStart(id: number): string {
+        return "}" + id + "\n"
+    }
+
+    subroutineCall(id: number): string {
+        return `M98P${id}\n`
+    }
+
+    contourCycle(points: DimensionPoint[], I: number, U: number, F: number, subroutineID: number, params: JobParameters, comment?: string): string {
+        let code: string = "G75"
+        code += "I" + this.formatNumber(I, params.decimals)
+        code += "U" + this.formatNumber(U, params.decimals)
+        code += "F" + this.formatNumber(F, params.decimals)
+        code += "P" + subroutineID
+
+        if (typeof comment !== 'undefined') {
+            code += this.comment(comment)
+        }
+        code += "\n"
+
+        return code
+    }
+
+    contourSubroutine(points: DimensionPoint[], subroutineID: number, params: JobParameters): string {
+        return taperSubroutine(subroutineID, points, params, this)
+    }
+
+    boxCycle(startPoint: DimensionPoint, endPoint: DimensionPoint, I: number, U: number, F: number, params: JobParameters, comment?: string): string {
+        let code: string = "G74"
+        code += "X" + this.formatNumber(endPoint.x, params.decimals)
+        code += "Z" + this.formatNumber(endPoint.z, params.decimals)
+        code += "I" + this.formatNumber(I, params.decimals)
+        code += "U" + this.formatNumber(U, params.decimals)
+        code += "F" + this.formatNumber(F, params.decimals)
+
+        if (typeof comment !== 'undefined') {
+            code += this.comment(comment)
+        }
+        code += "\n"
+
+        return code
+    }
+}
+
+/**
+ * Standard Fanuc style lathe controls (group A G codes), using diameter programming and O-number subprograms.
+ */
+class FanucPost extends PostProcessor {
+    name: string = "fanuc"
+
+    // Program number used for the main program
+    programNumber: number = 1
+
+    // Sequence number last given to a contour block, counted through the whole program so no number is used twice
+    sequenceNumber: number = 0
+
+    // First and last sequence numbers of each contour, by subroutine ID, so G70 finishes the contour G71 roughed
+    contourBlocks: { [subroutineID: number]: { first: number, last: number } } = {}
+
+    /**
+     * Fanuc controls read values without a decimal point as least input increments, so one is always included.
+     */
+    formatNumber(value: number, decimals: number): string {
+        let text: string = String(+value.toFixed(decimals))
+        return (text.indexOf(".") === -1) ? text + "." : text
+    }
+
+    programStart(params: JobParameters): string {
+        this.sequenceNumber = 0
+        this.contourBlocks = {}
+        return "%\n" + this.programLabel(this.programNumber) + "\n"
+    }
+
+    setup(params: JobParameters): string {
+        return this.spindleClamp(params) + `${this.unitsCode(params)}G18G40${this.spindleModeCode(params)}G99F${this.formatNumber(params.feed, params.decimals)}\n`
+    }
+
+    toolChange(tool: number, offset: number): string {
+        return "T" + ("0" + tool).slice(-2) + ("0" + offset).slice(-2) + "\n"
+    }
+
+    programEnd(): string {
+        return "M30\n"
+    }
+
+    programFinish(): string {
+        return "%\n"
+    }
+
+    feedPerMinute(feed: number, params: JobParameters): string {
+        return `G98F${this.formatNumber(feed, params.decimals)}\n`
+    }
+
+    feedPerRevolution(feed: number, params: JobParameters): string {
+        return `G99F${this.formatNumber(feed, params.decimals)}\n`
+    }
+
+    programLabel(id: number): string {
+        return "O" + ("000" + id).slice(-4)
+    }
+
+    subroutineStart(id: number): string {
+        return this.programLabel(id) + "\n"
+    }
+
+    subroutineCall(id: number): string {
+        return `M98P${id}\n`
+    }
+
+    /**
+     * The contour is given inline as sequence numbered blocks, as G71 and G70 can only find their contour in the program they are
+     * called from.  O-number subprograms are used for the parts of a combined batch program, each holding its own cycles and contours.
+     * A contour that rises and falls in X needs a type II cycle, which is selected by moving in both axes in the first block.
+     */
+    contourCycle(points: DimensionPoint[], I: number, U: number, F: number, subroutineID: number, params: JobParameters, comment?: string): string {
+        let first: number = this.sequenceNumber + 1
+        let last: number = first + points.length
+        this.sequenceNumber = last
+        this.contourBlocks[subroutineID] = { first: first, last: last }
+
+        let code: string = "G71"
+        code += "U" + this.formatNumber(I, params.decimals)
+        code += "R" + this.formatNumber(params.spacing.xClearance / 2, params.decimals)
+        if (typeof comment !== 'undefined') {
+            code += this.comment(comment)
+        }
+        code += "\n"
+
+        code += "G71"
+        code += "P" + first
+        code += "Q" + last
+        // Finishing allowance in X is given on diameter
+        code += "U" + this.formatNumber(2 * U, params.decimals)
+        code += "W" + this.formatNumber(0, params.decimals)
+        code += "F" + this.formatNumber(F, params.decimals)
+        code += "\n"
+
+        code += `N${first}${this.rapidCode}X${this.formatNumber(points[0].x, params.decimals)}`
+        if (!monotonicDiameters(points)) {
+            code += "W" + this.formatNumber(0, params.decimals)
+        }
+        code += "\n"
+        let motionCode: string = this.rapidCode
+        points.forEach((point, index) => {
+            let move = this.contourMove(points[index - 1], point, motionCode, params)
+            code += `N${first + index + 1}` + move.code + "\n"
+            motionCode = move.motionCode
+        })
+
+        return code
+    }
+
+    hasFinishCycle: boolean = true
+
+    finishCycle(points: DimensionPoint[], subroutineID: number, params: JobParameters): string {
+        let blocks: { first: number, last: number } | undefined = this.contourBlocks[subroutineID]
+        if (blocks === undefined) {
+            throw new ReferenceError(`No contour ${subroutineID} has been roughed for G70 to finish.`)
+        }
+        return `G70P${blocks.first}Q${blocks.last}\n`
+    }
+
+    /**
+     * Repeats a G90 single pass box cycle, stepping down by the maximum depth until the finishing allowance is reached.
+     */
+    boxCycle(startPoint: DimensionPoint, endPoint: DimensionPoint, I: number, U: number, F: number, params: JobParameters, comment?: string): string {
+        let finalX: number = endPoint.x + 2 * U
+        let numPasses: number = Math.max(1, Math.ceil((startPoint.x - finalX) / (2 * I)))
+        let code: string = ""
+
+        for (let i = 1; i <= numPasses; i++) {
+            let x: number = (i === numPasses) ? finalX : startPoint.x - i * 2 * I
+            if (i === 1) {
+                code += "G90"
+                code += "X" + this.formatNumber(x, params.decimals)
+                code += "Z" + this.formatNumber(endPoint.z, params.decimals)
+                code += "F" + this.formatNumber(F, params.decimals)
+                if (typeof comment !== 'undefined') {
+                    code += this.comment(comment)
+                }
+            }
+            else {
+                code += "X" + this.formatNumber(x, params.decimals)
+            }
+            code += "\n"
+        }
+
+        return code
+    }
+}
+
+/**
+ * Checks whether a contour's diameters only rise or only fall along it, as a type I G71 cycle requires.
+ *
+ * @param points The contour points in the order they are followed.
+ * @return True if no diameter turns back.
+ */
+function monotonicDiameters(points: DimensionPoint[]): boolean {
+    let rises: boolean = false
+    let falls: boolean = false
+    for (let i = 1; i < points.length; i++) {
+        rises = rises || points[i].x > points[i - 1].x + 1e-9
+        falls = falls || points[i].x < points[i - 1].x - 1e-9
+    }
+    return !(rises && falls)
+}
+
+// Names of the available posts, as used in job parameters
+const POST_PROCESSOR_NAMES: string[] = ["omniturn", "fanuc"]
+
+/**
+ * Provides the post processor for a controller.
+ *
+ * @param name The name of the post, as given in job parameters.
+ * @return A post processor for the named controller.
+ */
+function getPostProcessor(name: string): PostProcessor {
+    switch (name) {
+        case "omniturn":
+            return new OmniturnPost()
+        case "fanuc":
+            return new FanucPost()
+        default:
+            throw new RangeError(`Unknown post processor "${name}", expected one of: ${POST_PROCESSOR_NAMES.join(", ")}.`)
+    }
+}
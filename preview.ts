@@ -0,0 +1,232 @@
+/*
+Toolpath preview sidebar:
+- The sheet's Mandrel menu opens a sidebar drawing the job of the selected cell, which must hold a genCode formula or another
+  custom function taking the same arguments
+- The formula's arguments are read back from the sheet as the custom function would receive them, so the preview matches its output
+- The drawing is a side view of the mandrel's upper half, measured from the tip with each section in its place along it:
+    - The stock outline, the target profile, and the boundaries between sections
+    - Every rapid and feed move of the program, with native cycles drawn as the simulated passes that stand in for them
+- Each move keeps the line of the program it comes from, so hovering it in the sidebar highlights that line
+- The drawing itself is done in the browser by preview.html, with the data built here
+*/
+
+/**
+ * A single move of the program, drawn as a line through its points.
+ */
+interface PreviewMove {
+    // Line of the program the move comes from (1 based), which is the cycle's line for the passes of a native cycle
+    line: number
+    rapid: boolean
+    // Whether the move is made with the finishing tool
+    finishing: boolean
+    // Points along the move as [distance from tip, radius], with arcs as short lines
+    points: number[][]
+}
+
+/**
+ * Everything drawn in the preview sidebar.
+ */
+interface ToolpathPreview {
+    stockDiameter: number
+    // Length of stock drawn, including any part off
+    stockLength: number
+    // Target profile as [distance from tip, radius], with arcs as short lines
+    profile: number[][]
+    // Distances from the tip of the boundaries between sections
+    boundaries: number[]
+    moves: PreviewMove[]
+    // Lines of the program
+    code: string[]
+    warnings: string[]
+}
+
+// Largest distance between an arc and the lines it is drawn with, far finer than can be seen in the sidebar
+const PREVIEW_ARC_TOLERANCE = 0.0005
+
+/**
+ * Builds the data drawn in the preview sidebar for a job.
+ *
+ * @param stockDiameter The diameter of the rod stock to be machined.
+ * @param profile The mandrel profile, with points sorted by location.
+ * @param params The job parameters to use.
+ * @param report A report already holding any problems found reading the inputs, which is added to.
+ * @return The preview.  A ValidationError is thrown if any errors are found.
+ */
+function buildPreview(stockDiameter: number, profile: Profile, params: JobParameters, report: ValidationReport = new ValidationReport()): ToolpathPreview {
+    // The job is prepared once, for both the program and the sections it is drawn in
+    let job: PreparedJob = prepareJob(stockDiameter, profile, params, report)
+    let program: ProgramBuilder = buildJobProgram(job, params, report)
+    let sections: Section[] = job.sections
+    stockDiameter = job.stockDiameter
+    let blockLines: number[] = []
+    let code: string = program.serialize(program.post, blockLines)
+
+    // Machine coordinates depend on the section being cut, as the stock is pulled between them
+    let section: Section = sections[0]
+    let toPreviewPoint = (x: number, z: number): number[] => [section.start + section.length - params.stickout - z, x / 2]
+
+    let moves: PreviewMove[] = []
+    let x: number | undefined = undefined
+    let z: number | undefined = undefined
+    let finishing: boolean = false
+    let addMove = (block: ToolpathBlock, line: number): void => {
+        if (block.type === "tool") {
+            finishing = block.tool === params.finishingTool && block.tool !== params.roughingTool
+            x = undefined
+            z = undefined
+            return
+        }
+        if (block.type !== "rapid" && block.type !== "feed" && block.type !== "arc") {
+            return
+        }
+
+        let startX: number | undefined = x
+        let startZ: number | undefined = z
+        if (block.point.axesPresent.x) {
+            x = block.point.x
+        }
+        if (block.point.axesPresent.z) {
+            z = block.point.z
+        }
+        // A new tool's position is unknown until both axes have been given
+        if (startX === undefined || startZ === undefined || x === undefined || z === undefined) {
+            return
+        }
+
+        let points: DimensionPoint[] = [new DimensionPoint(startX, startZ), new DimensionPoint(x, z)]
+        if (block.type === "arc") {
+            points = [points[0]].concat(arcPoints(block.start, block.end, block.center, block.clockwise, PREVIEW_ARC_TOLERANCE))
+        }
+        moves.push({ line: line, rapid: block.type === "rapid", finishing: finishing, points: points.map(point => toPreviewPoint(point.x, point.z)) })
+    }
+
+    let feed: number = 0
+    program.blocks.forEach((block, index) => {
+        if (block.type === "operation") {
+            // The part off is made at the end of the last section
+            let match: RegExpMatchArray | null = block.name.match(/^Section (\d+)/)
+            let sectionIndex: number = (match === null) ? sections.length - 1 : +match[1] - 1
+            section = sections[sectionIndex]
+        }
+        else if (block.type === "feedMode") {
+            feed = block.feed
+        }
+        else if (block.type === "cycle") {
+            x = block.start.x
+            z = block.start.z
+            simulatedCycleBlocks(block, feed, params).forEach(simulatedBlock => addMove(simulatedBlock, blockLines[index]))
+            return
+        }
+        else if ((block.type === "feed" || block.type === "arc") && block.feed !== undefined) {
+            feed = block.feed
+        }
+        addMove(block, blockLines[index])
+    })
+
+    let boundaries: number[] = sections.slice(1).map(later => later.start)
+    let mandrelLength: number = Math.max(...job.oriented.locations)
+    let profilePoints: DimensionPoint[] = expandArcs(job.oriented.diameters.map((diameter, i) =>
+        new DimensionPoint(diameter, job.oriented.locations[i], (job.oriented.radii[i] === 0) ? undefined : job.oriented.radii[i])), PREVIEW_ARC_TOLERANCE)
+
+    return {
+        stockDiameter: stockDiameter,
+        stockLength: mandrelLength + ((params.partOff && params.compareSection === 0) ? getTool(params, params.partOffTool).width : 0),
+        profile: profilePoints.map(point => [point.z, point.x / 2]),
+        boundaries: boundaries,
+        moves: moves,
+        code: code.split("\n"),
+        warnings: report.warnings.map(issue => ValidationReport.describe(issue))
+    }
+}
+
+/**
+ * Reads the arguments of a custom function call in a formula, as the function would receive them: ranges as their values, with a
+ * single cell as its value alone, and strings and numbers as given.
+ *
+ * @param formula The formula, such as "=genCode(B1, A3:A20, , \"Params\")".
+ * @param sheet The sheet the formula is on, which ranges without a sheet name refer to.
+ * @return The arguments, with any left empty as undefined.
+ */
+function readFormulaArguments(formula: string, sheet: GoogleAppsScript.Spreadsheet.Sheet): unknown[] {
+    let call: RegExpMatchArray | null = formula.match(/^=\s*\w+\s*\(([\s\S]*)\)\s*$/)
+    if (call === null) {
+        throw new SyntaxError("Select a cell holding a genCode formula to preview.")
+    }
+
+    // Arguments are split on commas outside of strings and brackets
+    let args: string[] = []
+    let current: string = ""
+    let depth: number = 0
+    let quoted: boolean = false
+    for (let char of call[1]) {
+        if (char === "\"") {
+            quoted = !quoted
+        }
+        else if (!quoted && (char === "(" || char === "{")) {
+            depth++
+        }
+        else if (!quoted && (char === ")" || char === "}")) {
+            depth--
+        }
+        else if (!quoted && depth === 0 && char === ",") {
+            args.push(current.trim())
+            current = ""
+            continue
+        }
+        current += char
+    }
+    args.push(current.trim())
+
+    let spreadsheet = sheet.getParent()
+    return args.map(arg => {
+        if (arg === "") {
+            return undefined
+        }
+        if (/^".*"$/.test(arg)) {
+            return arg.slice(1, -1).replace(/""/g, "\"")
+        }
+        if (isNumericCell(arg)) {
+            return +arg
+        }
+        let reference: string = arg.replace(/\$/g, "")
+        let range = /^('[^']+'|[^!(]+)!/.test(reference) ? spreadsheet.getRange(reference)
+            : /^[A-Z]+\d*(:[A-Z]+\d*)?$/i.test(reference) ? sheet.getRange(reference)
+            : spreadsheet.getRangeByName(reference)
+        if (range === null) {
+            throw new TypeError(`Preview can't read the argument "${arg}", only ranges, numbers and strings can be given.`)
+        }
+        return (range.getNumRows() === 1 && range.getNumColumns() === 1) ? range.getValue() : range.getValues()
+    })
+}
+
+/**
+ * Adds the Mandrel menu to the sheet when it is opened.
+ */
+function onOpen(): void {
+    SpreadsheetApp.getUi()
+        .createMenu("Mandrel")
+        .addItem("Preview toolpath", "showPreviewSidebar")
+        .addToUi()
+}
+
+/**
+ * Opens the preview sidebar, which draws the job of the selected cell.
+ */
+function showPreviewSidebar(): void {
+    SpreadsheetApp.getUi().showSidebar(HtmlService.createHtmlOutputFromFile("preview").setTitle("Mandrel Preview"))
+}
+
+/**
+ * Builds the preview of the job in the selected cell, called from the sidebar.  Any problems are thrown for the sidebar to show.
+ *
+ * @return The preview.
+ */
+function previewSelection(): ToolpathPreview {
+    let cell = SpreadsheetApp.getActiveRange()
+    if (cell === null) {
+        throw new ReferenceError("Select a cell holding a genCode formula to preview.")
+    }
+    let args: unknown[] = readFormulaArguments(cell.getCell(1, 1).getFormula(), cell.getSheet())
+    let job: JobInputs = readJob(args[0], args[1], args[2], args[3], args[4])
+    return buildPreview(job.stockDiameter, job.profile, job.params, job.report)
+}
@@ -0,0 +1,488 @@
+/*
+Program building:
+- A ProgramBuilder is created for each generation run, so no modal state carries over between runs
+- Motion and commands are recorded as typed blocks, forming an intermediate representation of the toolpath
+- Moves with no change in position are dropped when recorded, and only changed axes are kept
+- Text is only produced when the program is serialized through a post processor, which is where modal G codes and feeds are suppressed
+    - The line each block starts on can be recorded as it is serialized, so moves can be matched to their code
+    - Text blocks are written as given, for lines of the program templates that aren't comments
+- Blocks can be grouped into subprograms called from the main program, as used to combine several parts in one program
+- Each section and the part off is marked as an operation, so the toolpath can be divided up for time and material estimates
+- Contour subroutines are placed inline after their cycle, or collected and placed after the program end, as set in the job parameters
+*/
+
+interface RapidBlock {
+    type: "rapid"
+    // Target position, with only the axes that change present
+    point: MovePoint
+    comment?: string
+}
+
+interface FeedBlock {
+    type: "feed"
+    // Target position, with only the axes that change present
+    point: MovePoint
+    feed?: number
+    comment?: string
+}
+
+interface ArcBlock {
+    type: "arc"
+    // Target position, with only the axes that change present
+    point: MovePoint
+    start: DimensionPoint
+    end: DimensionPoint
+    center: DimensionPoint
+    radius: number
+    clockwise: boolean
+    feed?: number
+    comment?: string
+}
+
+interface ContourCycleBlock {
+    type: "cycle"
+    cycle: "contour"
+    // Cutter position at the start of the cycle, which it returns to
+    start: DimensionPoint
+    points: DimensionPoint[]
+    I: number
+    U: number
+    F: number
+    subroutineID: number
+    comment?: string
+}
+
+interface BoxCycleBlock {
+    type: "cycle"
+    cycle: "box"
+    start: DimensionPoint
+    end: DimensionPoint
+    I: number
+    U: number
+    F: number
+    comment?: string
+}
+
+interface FinishCycleBlock {
+    type: "cycle"
+    cycle: "finish"
+    start: DimensionPoint
+    points: DimensionPoint[]
+    subroutineID: number
+}
+
+type CycleBlock = ContourCycleBlock | BoxCycleBlock | FinishCycleBlock
+
+interface SpindleBlock {
+    type: "spindle"
+    on: boolean
+    rpm?: number
+    // Surface speed matching rpm, given instead of it under constant surface speed
+    surfaceSpeed?: number
+}
+
+interface FeedModeBlock {
+    type: "feedMode"
+    mode: "perMinute" | "perRevolution"
+    feed: number
+}
+
+interface CommentBlock {
+    type: "comment"
+    text: string
+}
+
+interface OperationBlock {
+    type: "operation"
+    // Name of the operation the following blocks belong to, given as a comment
+    name: string
+    // Material the operation removes, in cubic units of the program
+    removedVolume: number
+}
+
+interface TextBlock {
+    type: "text"
+    // Line written to the program as given, such as a line of a template
+    text: string
+}
+
+interface StopBlock {
+    type: "stop"
+    // Optional stops pause for the operator, end stops finish the program
+    stop: "optional" | "end"
+    comment?: string
+}
+
+interface CallBlock {
+    type: "call"
+    subroutineID: number
+}
+
+interface SubprogramBlock {
+    type: "subprogram"
+    // Start of a subprogram, labelled with its number, or its end returning to the caller
+    edge: "start" | "end"
+    subroutineID: number
+}
+
+interface SetupBlock {
+    type: "setup"
+}
+
+interface ToolBlock {
+    type: "tool"
+    tool: number
+    offset: number
+}
+
+interface CompensationBlock {
+    type: "compensation"
+    // Side of the programmed path the tool is kept on, or off to cancel
+    side: "left" | "right" | "off"
+}
+
+type ToolpathBlock = RapidBlock | FeedBlock | ArcBlock | CycleBlock | SpindleBlock | FeedModeBlock | CommentBlock | TextBlock | OperationBlock | StopBlock | CallBlock | SubprogramBlock | SetupBlock | ToolBlock | CompensationBlock
+
+/**
+ * Records the toolpath of a single program, tracking the cutter position as blocks are added.
+ */
+class ProgramBuilder {
+    params: JobParameters
+    post: PostProcessor
+    blocks: ToolpathBlock[]
+    // Tool currently in use, undefined until the first tool change
+    tool: Tool | undefined
+    position: {
+        x: number | undefined,
+        y: number | undefined,
+        z: number | undefined
+    }
+
+    constructor (params: JobParameters) {
+        this.params = params
+        this.post = getPostProcessor(params.postProcessor)
+        this.blocks = []
+        this.tool = undefined
+        this.position = {
+            x: undefined,
+            y: undefined,
+            z: undefined
+        }
+    }
+
+    /**
+     * Reduces a point to the axes that differ from the current position, and moves the current position there.
+     *
+     * @return The changed axes, or undefined if the point matches the current position.
+     */
+    private moveTo(point: MovePoint): MovePoint | undefined {
+        let x: number | undefined = (point.axesPresent.x && point.x !== this.position.x) ? point.x : undefined
+        let y: number | undefined = (point.axesPresent.y && point.y !== this.position.y) ? point.y : undefined
+        let z: number | undefined = (point.axesPresent.z && point.z !== this.position.z) ? point.z : undefined
+
+        // Check that of present axes, at least one is separate from the current position
+        if (x === undefined && y === undefined && z === undefined) {
+            return undefined
+        }
+
+        if (x !== undefined) {
+            this.position.x = x
+        }
+        if (y !== undefined) {
+            this.position.y = y
+        }
+        if (z !== undefined) {
+            this.position.z = z
+        }
+        return new MovePoint(x, y, z)
+    }
+
+    rapidPosition(point: MovePoint, comment?: string): void {
+        let changed: MovePoint | undefined = this.moveTo(point)
+        if (changed !== undefined) {
+            this.blocks.push({ type: "rapid", point: changed, comment: comment })
+        }
+    }
+
+    linearInterpolation(point: MovePoint, feed?: number, comment?: string): void {
+        let changed: MovePoint | undefined = this.moveTo(point)
+        if (changed !== undefined) {
+            this.blocks.push({ type: "feed", point: changed, feed: feed, comment: comment })
+        }
+    }
+
+    /**
+     * Records an arc from the current position to a profile point holding the arc's radius.
+     */
+    circularInterpolation(point: DimensionPoint, feed?: number, comment?: string): void {
+        let start: DimensionPoint = this.currentPoint()
+        let arc: ArcGeometry = arcGeometry(start, point)
+        let changed: MovePoint | undefined = this.moveTo(point.getMovePoint())
+        if (changed !== undefined) {
+            this.blocks.push({ type: "arc", point: changed, start: start, end: point, center: arc.center, radius: arc.radius, clockwise: arc.clockwise, feed: feed, comment: comment })
+        }
+    }
+
+    /**
+     * Records a contour cycle starting from, and returning to, the current position.
+     */
+    contourCycle(points: DimensionPoint[], I: number, U: number, F: number, subroutineID: number, comment?: string): void {
+        this.blocks.push({ type: "cycle", cycle: "contour", start: this.currentPoint(), points: points, I: I, U: U, F: F, subroutineID: subroutineID, comment: comment })
+    }
+
+    /**
+     * Records a box cycle starting from, and returning to, the current position.
+     */
+    boxCycle(endPoint: DimensionPoint, I: number, U: number, F: number, comment?: string): void {
+        this.blocks.push({ type: "cycle", cycle: "box", start: this.currentPoint(), end: endPoint, I: I, U: U, F: F, comment: comment })
+    }
+
+    /**
+     * Records a finishing cycle over a contour previously roughed by contourCycle, which returns the cutter to startPoint.
+     */
+    finishCycle(startPoint: DimensionPoint, points: DimensionPoint[], subroutineID: number): void {
+        this.blocks.push({ type: "cycle", cycle: "finish", start: startPoint, points: points, subroutineID: subroutineID })
+        this.position.x = startPoint.x
+        this.position.z = startPoint.z
+    }
+
+    spindleStart(rpm: number, surfaceSpeed?: number): void {
+        this.blocks.push({ type: "spindle", on: true, rpm: rpm, surfaceSpeed: surfaceSpeed })
+    }
+
+    spindleStop(): void {
+        this.blocks.push({ type: "spindle", on: false })
+    }
+
+    feedMode(mode: "perMinute" | "perRevolution", feed: number): void {
+        this.blocks.push({ type: "feedMode", mode: mode, feed: feed })
+    }
+
+    comment(text: string): void {
+        this.blocks.push({ type: "comment", text: text })
+    }
+
+    /**
+     * Marks the start of an operation, such as a section or the part off, so the toolpath can be divided up for estimates.
+     */
+    operation(name: string, removedVolume: number): void {
+        this.blocks.push({ type: "operation", name: name, removedVolume: removedVolume })
+    }
+
+    text(text: string): void {
+        this.blocks.push({ type: "text", text: text })
+    }
+
+    /**
+     * Adds blocks before an earlier block, for a header that can only be worked out once the toolpath is complete.
+     */
+    insertBlocks(index: number, blocks: ToolpathBlock[]): void {
+        this.blocks.splice(index, 0, ...blocks)
+    }
+
+    optionalStop(comment?: string): void {
+        this.blocks.push({ type: "stop", stop: "optional", comment: comment })
+    }
+
+    programEnd(): void {
+        this.blocks.push({ type: "stop", stop: "end" })
+    }
+
+    setup(): void {
+        this.blocks.push({ type: "setup" })
+    }
+
+    call(subroutineID: number): void {
+        this.blocks.push({ type: "call", subroutineID: subroutineID })
+    }
+
+    /**
+     * Adds blocks as a subprogram, to be placed after the program end and run with call.
+     */
+    subprogram(subroutineID: number, blocks: ToolpathBlock[]): void {
+        this.blocks.push({ type: "subprogram", edge: "start", subroutineID: subroutineID }, ...blocks, { type: "subprogram", edge: "end", subroutineID: subroutineID })
+    }
+
+    /**
+     * Records a change to a tool, unless it is already in use.  The new tool's position is unknown until it is next moved,
+     * so the following move gives both axes.
+     */
+    toolChange(tool: Tool): void {
+        if (this.tool !== undefined && this.tool.number === tool.number && this.tool.offset === tool.offset) {
+            return
+        }
+        this.tool = tool
+        this.blocks.push({ type: "tool", tool: tool.number, offset: tool.offset })
+        this.position.x = undefined
+        this.position.z = undefined
+    }
+
+    noseCompensation(side: "left" | "right" | "off"): void {
+        this.blocks.push({ type: "compensation", side: side })
+    }
+
+    currentPoint(): DimensionPoint {
+        if (this.position.x === undefined || this.position.z === undefined) {
+            throw new RangeError("Cycle started before the cutter position is known.")
+        }
+        return new DimensionPoint(this.position.x, this.position.z)
+    }
+
+    /**
+     * Produces the program text for the recorded blocks.
+     *
+     * @param post The post processor to use, defaulting to the one selected in the job parameters.
+     * @param blockLines Optional, filled with the line of the program each block starts on (1 based), for matching moves to their code.
+     * @return The full program.
+     */
+    serialize(post: PostProcessor = this.post, blockLines?: number[]): string {
+        let params: JobParameters = this.params
+        let code: string = post.programStart(params)
+
+        // Modal state is local to serialization, so each program starts fresh
+        let lastGCode: string = "None"
+        let lastFeed: number = -1
+
+        // Subroutines held for placement after the program end
+        let subroutines: string = ""
+
+        // Lines are counted as the code grows, rather than over the whole program for every block
+        let linesCounted: number = 0
+        let lengthCounted: number = 0
+
+        this.blocks.forEach(block => {
+            if (blockLines !== undefined) {
+                linesCounted += code.slice(lengthCounted).split("\n").length - 1
+                lengthCounted = code.length
+                blockLines.push(linesCounted + 1)
+            }
+            switch (block.type) {
+                case "rapid":
+                case "feed":
+                case "arc": {
+                    let gCode: string
+                    let motionCode: string
+                    if (block.type === "arc") {
+                        gCode = block.clockwise ? "02" : "03"
+                        motionCode = block.clockwise ? post.clockwiseArcCode : post.counterClockwiseArcCode
+                    }
+                    else {
+                        gCode = (block.type === "rapid") ? "00" : "01"
+                        motionCode = (block.type === "rapid") ? post.rapidCode : post.linearCode
+                    }
+
+                    // Check if the last code used was this one
+                    // If so, we don't need to print the code
+                    if (lastGCode != gCode) {
+                        code += motionCode
+                    }
+
+                    // Insert axis data where present
+                    if (block.point.axesPresent.x) {
+                        code += "X" + post.formatNumber(block.point.x!, params.decimals)
+                    }
+                    if (block.point.axesPresent.y) {
+                        code += "Y" + post.formatNumber(block.point.y!, params.decimals)
+                    }
+                    if (block.point.axesPresent.z) {
+                        code += "Z" + post.formatNumber(block.point.z!, params.decimals)
+                    }
+
+                    if (block.type === "arc") {
+                        code += post.arcWords(block.start, block.end, block.center, block.radius, params)
+                    }
+
+                    // Insert feed rate if present and changed
+                    let feed: number | undefined = (block.type !== "rapid") ? block.feed : undefined
+                    if (typeof feed !== 'undefined' && feed != lastFeed) {
+                        code += "F" + post.formatNumber(feed, params.decimals)
+                    }
+
+                    // Insert comment if present
+                    if (typeof block.comment !== 'undefined') {
+                        code += post.comment(block.comment)
+                    }
+
+                    // Close line of code
+                    code += "\n"
+
+                    // Set last G code used and feed rate, which rapids reset
+                    lastGCode = gCode
+                    lastFeed = (feed === undefined ? -1 : feed)
+                    break
+                }
+                case "cycle":
+                    if (block.cycle === "contour") {
+                        code += post.contourCycle(block.points, block.I, block.U, block.F, block.subroutineID, params, block.comment)
+                        if (params.subroutinePlacement === "inline") {
+                            code += post.contourSubroutine(block.points, block.subroutineID, params)
+                        }
+                        else {
+                            subroutines += post.contourSubroutine(block.points, block.subroutineID, params)
+                        }
+                    }
+                    else if (block.cycle === "box") {
+                        code += post.boxCycle(block.start, block.end, block.I, block.U, block.F, params, block.comment)
+                        lastFeed = block.F
+                    }
+                    else {
+                        code += post.finishCycle(block.points, block.subroutineID, params)
+                    }
+                    // Reset last used function for safety
+                    lastGCode = "None"
+                    break
+                case "spindle":
+                    if (!block.on) {
+                        code += post.spindleStop()
+                    }
+                    else {
+                        code += post.spindleStart((this.params.spindleMode === "css" && block.surfaceSpeed !== undefined) ? block.surfaceSpeed : block.rpm!)
+                    }
+                    break
+                case "feedMode":
+                    code += (block.mode === "perMinute") ? post.feedPerMinute(block.feed, params) : post.feedPerRevolution(block.feed, params)
+                    break
+                case "comment":
+                    code += post.comment(block.text) + "\n"
+                    break
+                case "text":
+                    code += block.text + "\n"
+                    break
+                case "operation":
+                    code += post.comment(block.name) + "\n"
+                    break
+                case "stop":
+                    code += (block.stop === "optional") ? post.optionalStop(block.comment) : post.programEnd()
+                    break
+                case "call":
+                    code += post.subroutineCall(block.subroutineID)
+                    break
+                case "subprogram":
+                    if (block.edge === "start") {
+                        code += post.subroutineStart(block.subroutineID)
+                        // The caller's modal state isn't relied on, as the subprogram may be reached from anywhere
+                        lastGCode = "None"
+                        lastFeed = -1
+                    }
+                    else {
+                        code += post.subroutineEnd()
+                    }
+                    break
+                case "setup":
+                    code += post.setup(params)
+                    break
+                case "tool":
+                    code += post.toolChange(block.tool, block.offset)
+                    break
+                case "compensation":
+                    code += post.noseCompensation(block.side)
+                    break
+            }
+        })
+
+        code += subroutines
+        code += post.programFinish()
+
+        return code
+    }
+}
@@ -0,0 +1,377 @@
+/*
+Reading programs back into profiles:
+- Omniturn programs, whether generated or written by hand, are read back into the profile they finish, so old jobs whose sheets are
+  lost can be generated again with current parameters
+- The program is split into sections at each "(Section N)" marker and each M01 stock pull, and reading stops at the part off
+- The finished contour of a section is taken from the last G75 contour subroutine it calls, as the contour is given there exactly,
+  or otherwise from its last run of feed moves with the spindle running, which is the finishing pass
+    - Approach and retract moves at either end of a pass are dropped, as they are straight in or out at the ends of the contour
+    - A finishing pass cut with geometric nose radius compensation, as noted in the header, follows the tool tip, so is moved back
+      onto the contour using the nose radius and orientation of the finishing tool in the job parameters.  Programs whose noted
+      nose radius differs from the finishing tool's aren't read
+- Contours are mapped from machine coordinates back to locations along the mandrel, undoing Section.machiningPoints:
+    - Generated programs run Z negative toward the collet, measured from the stock pulled to the end of the section, so a point is
+      found from the pull position, less any raise for collet shift
+    - Programs from before the pull position was used run Z positive from the start of each section, and are read as such when no
+      contour reaches a negative Z
+    - Each section starts where the one before it ends.  Sections of generated programs are as long as their pull position is
+      short of the collet, a stickout from Z0, so sections of any length are read.  Older programs are read as a stickout long
+    - The stickout is read from the program header when it is noted
+- Points re-cut by the overlap of a section with the one before it are only kept once, and points added where a section boundary
+  splits a line are dropped
+- Each point keeps the line of the program it was read from as its row, so problems with the profile can be found in the program
+*/
+
+/**
+ * A profile read back from a program.
+ */
+interface ProgramProfile {
+    // Profile in the order it is machined, measured from the end of the mandrel machined first
+    profile: Profile
+    // Stock diameter noted in the program header, or NaN if none is
+    stockDiameter: number
+    // Stickout the sections were read with
+    stickout: number
+    sectionCount: number
+}
+
+/**
+ * A point of a toolpath read from a program.
+ */
+interface ProgramPathPoint {
+    x: number
+    z: number
+    // Line of the program the point was reached on
+    line: number
+    // Radius and direction of the arc reaching the point, if it isn't reached by a straight line
+    arc?: { radius: number, clockwise: boolean }
+}
+
+/**
+ * Part of a program machining a single section, from one stock pull to the next.
+ */
+interface ProgramSectionPart {
+    // Z position of the pull the section was machined from, less any raise for collet shift
+    pullZ: number
+    // Last contour subroutine called, if any
+    subroutineID: number | undefined
+    // Last run of feed moves made with the spindle running
+    lastRun: ProgramPathPoint[]
+}
+
+/**
+ * Reads the profile an Omniturn program finishes.
+ *
+ * @param code The program text.
+ * @param params The job parameters, giving the stickout when the program doesn't note it, and the overlap between sections.
+ * @return The profile and what could be read of the job.
+ */
+function readProgramProfile(code: string, params: JobParameters): ProgramProfile {
+    let program: ParsedProgram = parseProgram(code)
+    let stickoutNote: RegExpMatchArray | null = code.match(/\(\s*([\d.]+)\s*(?:inch|mm)\s+part stickout\s*\)/i)
+    let stockNote: RegExpMatchArray | null = code.match(/\(\s*([\d.]+)\s*(?:inch|mm)\s+diameter\b[^)]*stock\s*\)/i)
+    let stickout: number = (stickoutNote === null) ? params.stickout : +stickoutNote[1]
+
+    // Parts of the program between stock pulls, with the part before the first pull starting from Z0
+    let parts: ProgramSectionPart[] = []
+    let part: ProgramSectionPart = { pullZ: 0, subroutineID: undefined, lastRun: [] }
+    let run: ProgramPathPoint[] = []
+    let motion: number = 0
+    let x: number | undefined = undefined
+    let z: number | undefined = undefined
+    let spindleOn: boolean = false
+    let shift: number = 0
+    let ended: boolean = false
+
+    let endRun = (): void => {
+        if (run.length > 1) {
+            part.lastRun = run
+        }
+        run = []
+    }
+    let endPart = (pullZ: number): void => {
+        endRun()
+        parts.push(part)
+        part = { pullZ: pullZ, subroutineID: undefined, lastRun: [] }
+    }
+
+    program.main.forEach(block => {
+        if (ended) {
+            return
+        }
+        if (block.comment !== undefined) {
+            let raise: RegExpMatchArray | null = block.comment.match(/Pull raised ([\d.]+)/i)
+            if (raise !== null) {
+                shift = +raise[1]
+            }
+            // Markers are matched in full, as the estimate in the header names each operation too
+            if (/^\s*Section \d+\s*$/i.test(block.comment)) {
+                endPart(part.pullZ)
+            }
+            if (/^\s*Part off\s*$/i.test(block.comment)) {
+                ended = true
+                return
+            }
+        }
+
+        let word = (letter: string): number | undefined => block.words.find(found => found.letter === letter)?.value
+        let gCodes: number[] = block.words.filter(found => found.letter === "G").map(found => found.value)
+        let mCodes: number[] = block.words.filter(found => found.letter === "M").map(found => found.value)
+
+        // Cycles return to where they started, so only the subroutine holding their contour is noted
+        if (gCodes.indexOf(75) !== -1) {
+            part.subroutineID = word("P")
+        }
+        else if (gCodes.indexOf(74) === -1) {
+            gCodes.filter(g => g >= 0 && g <= 3).forEach(g => motion = g)
+            let newX: number | undefined = word("X") ?? x
+            let newZ: number | undefined = word("Z") ?? z
+            if ((newX !== x || newZ !== z) && newX !== undefined && newZ !== undefined) {
+                if (motion === 0 || !spindleOn) {
+                    endRun()
+                }
+                else {
+                    if (run.length === 0 && x !== undefined && z !== undefined) {
+                        run.push({ x: x, z: z, line: block.line })
+                    }
+                    let R: number | undefined = word("R")
+                    run.push({ x: newX, z: newZ, line: block.line, arc: (motion >= 2 && R !== undefined) ? { radius: R, clockwise: motion === 2 } : undefined })
+                }
+            }
+            x = newX
+            z = newZ
+        }
+
+        mCodes.forEach(m => {
+            if (m === 3 || m === 4) {
+                spindleOn = true
+            }
+            else if (m === 5) {
+                spindleOn = false
+                endRun()
+            }
+            else if (m === 1) {
+                endPart((z ?? 0) - shift)
+                shift = 0
+            }
+            else if (m === 30 || m === 2) {
+                ended = true
+            }
+        })
+    })
+    endPart(0)
+
+    // Contours in machine coordinates, from the subroutine where one is called
+    let contours: { pullZ: number, path: ProgramPathPoint[], finishingPass: boolean }[] = []
+    parts.forEach(found => {
+        let path: ProgramPathPoint[] = found.lastRun
+        let subroutine: boolean = found.subroutineID !== undefined && program.subroutines[found.subroutineID] !== undefined
+        if (subroutine) {
+            path = subroutinePath(program.subroutines[found.subroutineID!])
+        }
+        if (path.length > 1) {
+            contours.push({ pullZ: found.pullZ, path: path, finishingPass: !subroutine })
+        }
+    })
+    if (contours.length === 0) {
+        throw new SyntaxError("No finished contour could be found in the program.")
+    }
+
+    // Diameters are given to the rounding of the program, found from the most decimal places given to one
+    let decimals: number = Math.max(0, ...(code.match(/X[-+]?\d*\.\d+/gi) ?? []).map(word => word.length - word.indexOf(".") - 1))
+
+    // Finishing passes cut with geometric compensation follow the tool tip, which is moved back onto the contour with the
+    // finishing tool of the job parameters
+    let finishingTool: Tool = getTool(params, params.finishingTool)
+    let compensated: boolean = /\(\s*Finishing pass uses geometric nose radius compensation\s*\)/i.test(code)
+    if (compensated) {
+        let radiusNote: RegExpMatchArray | null = code.match(new RegExp(`\\(\\s*T${params.finishingTool}\\b[^,)]*,\\s*([\\d.]+)\\s*(?:inch|mm)\\s+nose radius\\s*\\)`, "i"))
+        if (finishingTool.noseRadius === 0) {
+            throw new RangeError(`The finishing pass was cut with geometric nose radius compensation, so the nose radius of the finishing tool T${params.finishingTool} must be given to read it.`)
+        }
+        if (radiusNote !== null && Math.abs(+radiusNote[1] - finishingTool.noseRadius) > 1e-9) {
+            throw new RangeError(`The finishing pass was cut with a ${radiusNote[1]} nose radius, but finishing tool T${params.finishingTool} has a ${finishingTool.noseRadius} nose radius.`)
+        }
+    }
+
+    // The tool tip path was rounded toward the material, so compensated contours are only found to within a printed unit, and
+    // the ends of neighbouring sections may differ by as much
+    let unit: number = Math.pow(10, -decimals)
+    let repeatTolerance: number = compensated ? unit + 1e-9 : 1e-9
+
+    let legacy: boolean = contours.every(contour => contour.path.every(point => point.z >= -1e-9))
+    let profile: Profile = { diameters: [], locations: [], radii: [], rows: [] }
+    let starts: number[] = []
+    let sectionStart: number = 0
+    contours.forEach(contour => {
+        let sectionLength: number = legacy ? stickout : +(contour.pullZ + stickout).toFixed(6)
+        starts.push(sectionStart)
+        let toLocation = (machineZ: number): number => +(sectionStart + (legacy ? machineZ : contour.pullZ - machineZ)).toFixed(6)
+        let points: ProgramPathPoint[] = contour.path
+        let radii: number[] = points.map((point, i) => (i > 0 && point.arc !== undefined) ? signedArcRadius(points[i - 1], point) : 0)
+        let locations: number[] = points.map(point => toLocation(point.z))
+
+        // The contour is the end of the path running one way along the mandrel, with any approach from elsewhere dropped
+        let direction: number = 0
+        let first: number = locations.length - 1
+        while (first > 0) {
+            let step: number = locations[first] - locations[first - 1]
+            if (Math.abs(step) > 1e-9) {
+                if (direction !== 0 && Math.sign(step) !== direction) {
+                    break
+                }
+                direction = Math.sign(step)
+            }
+            first--
+        }
+        let section: Profile = {
+            diameters: points.slice(first).map(point => point.x),
+            locations: locations.slice(first),
+            radii: radii.slice(first),
+            rows: points.slice(first).map(point => point.line)
+        }
+        if (direction < 0) {
+            section = {
+                diameters: section.diameters.reverse(),
+                locations: section.locations.reverse(),
+                radii: [0].concat(section.radii.slice(1).reverse()),
+                rows: section.rows.reverse()
+            }
+        }
+
+        // Moves beyond the section are the approach to it, and moves straight in or out at either end are the approach and retract.
+        // A compensated tool tip can reach past either end by up to twice the nose radius
+        let reach: number = (compensated && contour.finishingPass) ? 2 * finishingTool.noseRadius : 0
+        let keep: number[] = section.locations.map((location, i) => i)
+            .filter(i => section.locations[i] >= sectionStart - params.spacing.blendLength - reach - 1e-9 && section.locations[i] <= sectionStart + sectionLength + reach + 1e-9)
+        while (keep.length > 1 && Math.abs(section.locations[keep[0]] - section.locations[keep[1]]) <= 1e-9) {
+            keep.shift()
+        }
+        while (keep.length > 1 && Math.abs(section.locations[keep[keep.length - 1]] - section.locations[keep[keep.length - 2]]) <= 1e-9) {
+            keep.pop()
+        }
+        let kept: Profile = {
+            diameters: keep.map(i => section.diameters[i]),
+            locations: keep.map(i => section.locations[i]),
+            radii: keep.map(i => section.radii[i]),
+            rows: keep.map(i => section.rows[i])
+        }
+
+        // The kept path runs toward the collet, in the order the compensated path was found in
+        if (compensated && contour.finishingPass && !legacy && kept.locations.length > 1) {
+            let tipPath: DimensionPoint[] = kept.locations.map((location, i) => new DimensionPoint(kept.diameters[i], contour.pullZ - (location - sectionStart), (kept.radii[i] === 0) ? undefined : kept.radii[i]))
+            let undone = undoNoseRadiusPath(tipPath, finishingTool, decimals)
+            kept = {
+                diameters: undone.points.map(point => point.x),
+                locations: undone.points.map(point => toLocation(point.z)),
+                radii: undone.points.map(point => point.radius ?? 0),
+                rows: undone.sources.map(i => kept.rows[i])
+            }
+        }
+
+        // Points already read from the previous section are dropped, as are repeats of the same point.  A point is only reached by
+        // an arc when the point the arc starts from is in the profile
+        let last: number = profile.locations.length - 1
+        let joined: boolean = false
+        kept.locations.forEach((location, i) => {
+            let diameter: number = kept.diameters[i]
+            if (last >= 0 && location < profile.locations[last] - 1e-9) {
+                joined = false
+                return
+            }
+            if (last >= 0 && Math.abs(location - profile.locations[last]) <= 1e-9 && Math.abs(diameter - profile.diameters[last]) <= repeatTolerance) {
+                joined = true
+                return
+            }
+            profile.diameters.push(diameter)
+            profile.locations.push(location)
+            profile.radii.push(joined ? kept.radii[i] : 0)
+            profile.rows.push(kept.rows[i])
+            last++
+            joined = true
+        })
+        sectionStart = +(sectionStart + sectionLength).toFixed(6)
+    })
+
+    // Sections split the lines of the profile at their boundaries, so points there which lie on a line are dropped, to within the
+    // rounding of the program
+    let tolerance: number = compensated ? repeatTolerance : unit / 2 - 1e-9
+    for (let i = profile.locations.length - 2; i > 0; i--) {
+        let boundary: boolean = starts.some(start => start > 0 && Math.abs(profile.locations[i] - start) <= 1e-9)
+        let span: number = profile.locations[i + 1] - profile.locations[i - 1]
+        if (!boundary || profile.radii[i] !== 0 || profile.radii[i + 1] !== 0 || span <= 1e-9) {
+            continue
+        }
+        let onLine: number = profile.diameters[i - 1] + (profile.diameters[i + 1] - profile.diameters[i - 1]) * (profile.locations[i] - profile.locations[i - 1]) / span
+        if (Math.abs(onLine - profile.diameters[i]) <= tolerance && profile.locations[i] - profile.locations[i - 1] > 1e-9 && profile.locations[i + 1] - profile.locations[i] > 1e-9) {
+            profile.diameters.splice(i, 1)
+            profile.locations.splice(i, 1)
+            profile.radii.splice(i, 1)
+            profile.rows.splice(i, 1)
+        }
+    }
+
+    return {
+        profile: profile,
+        stockDiameter: (stockNote === null) ? NaN : +stockNote[1],
+        stickout: stickout,
+        sectionCount: contours.length
+    }
+}
+
+/**
+ * Follows the moves of a contour subroutine, starting from its first point.
+ *
+ * @param blocks The blocks of the subroutine.
+ * @return The path of the contour.
+ */
+function subroutinePath(blocks: ProgramBlock[]): ProgramPathPoint[] {
+    let path: ProgramPathPoint[] = []
+    let motion: number = 1
+    let x: number | undefined = undefined
+    let z: number | undefined = undefined
+    blocks.forEach(block => {
+        block.words.filter(found => found.letter === "G" && found.value >= 0 && found.value <= 3).forEach(found => motion = found.value)
+        let R: number | undefined = block.words.find(found => found.letter === "R")?.value
+        x = block.words.find(found => found.letter === "X")?.value ?? x
+        z = block.words.find(found => found.letter === "Z")?.value ?? z
+        if (x !== undefined && z !== undefined) {
+            path.push({ x: x, z: z, line: block.line, arc: (path.length > 0 && motion >= 2 && R !== undefined) ? { radius: R, clockwise: motion === 2 } : undefined })
+        }
+    })
+    return path
+}
+
+/**
+ * Finds the signed radius of an arc in a program, positive if it bulges away from the axis, as held by profile points.
+ *
+ * @param start The point the arc starts from.
+ * @param end The point the arc reaches, holding its radius and direction.
+ * @return The signed radius.
+ */
+function signedArcRadius(start: ProgramPathPoint, end: ProgramPathPoint): number {
+    let center: DimensionPoint = arcCenterFromRadius(new DimensionPoint(start.x, start.z), new DimensionPoint(end.x, end.z), end.arc!.radius, end.arc!.clockwise)
+    // Convex arcs bulge away from the axis, so their center lies toward it
+    return (center.x < (start.x + end.x) / 2) ? end.arc!.radius : -end.arc!.radius
+}
+
+/**
+ * Reads the profile an Omniturn program finishes, so an old job can be generated again.
+ *
+ * @param {Array<Array<string>>|string} program The program, as a single cell such as a genCode result, or a column holding a line per cell.
+ * @param {Array<Array<string>>|string=} optParameters Job parameter overrides, as given to genCode.  The stickout is used if the program doesn't note it.
+ * @return A table with a header row of the diameter, location and arc radius of each point, ready to give to genCode, or the problem found reading the program.
+ * @customfunction
+ */
+function readCode(program, optParameters?): (string | number)[][] {
+    try {
+        let params: JobParameters = buildParameters(getParameterOverrides(optParameters))
+        let lines: string = Array.isArray(program) ? program.map(row => Array.isArray(row) ? row.join("") : String(row)).join("\n") : String(program)
+        let read: ProgramProfile = readProgramProfile(lines, params)
+        let table: (string | number)[][] = [["Diameter", "Location", "Radius"]]
+        read.profile.diameters.forEach((diameter, i) => table.push([diameter, read.profile.locations[i], (read.profile.radii[i] === 0) ? "" : read.profile.radii[i]]))
+        return table
+    } catch (err) {
+        return [[err.message]]
+    }
+}
@@ -0,0 +1,305 @@
+/*
+Operator setup sheets:
+- A setup sheet is built from the same prepared job as the program, so its sections, pulls and diameters always match the code
+- It lists the stock to load, the tools and offsets used, where the stock is pulled to before each section, and the diameters the
+  finished mandrel should measure
+- Locations are given both as the profile was entered and as the distance from the tip, which is the end machined first and the
+  easiest place to measure from on the machine
+- Checkpoints give the diameters to mic once each section is finished, at its start, middle and end.  The end is measured inside
+  where the finishing tool's nose rounds off the section
+- The sheet can show it as a table through setupSheet, and the Node library and command line write it as a printable HTML page
+*/
+
+/**
+ * A tool used by the job, as listed on the setup sheet.
+ */
+interface SetupTool {
+    number: number
+    offset: number
+    description: string
+    noseRadius: number
+    // The operations the tool is used for, such as "Roughing, Finishing"
+    operations: string
+}
+
+/**
+ * The stock pull made before a section is machined.
+ */
+interface SetupPull {
+    section: number
+    length: number
+    // Distance the stock is pulled out of the collet, which is the length of the previous section, or 0 for the first section where
+    // the stock is loaded to the stop
+    pullDistance: number
+    // Length of stock expected out of the collet once pulled, measured from the collet face to the tip
+    stickout: number
+    // Position of the pull stop the stock is pulled against, in machine coordinates
+    stopX: number
+    stopZ: number
+}
+
+/**
+ * A diameter the finished mandrel should measure.
+ */
+interface SetupDiameter {
+    // Section the diameter is cut in, counting from 1
+    section: number
+    // Location as given in the profile, and as measured from the tip
+    location: number
+    fromTip: number
+    diameter: number
+}
+
+/**
+ * Everything an operator needs to set up and check a job.
+ */
+interface SetupSheet {
+    // Units of every length on the sheet, which are those of the program
+    units: string
+    stockDiameter: number
+    material: string
+    // Length of the finished mandrel, and the length of stock it uses including the part off
+    mandrelLength: number
+    cutLength: number
+    tools: SetupTool[]
+    pulls: SetupPull[]
+    // Diameters to check after each section, in the order they are machined
+    checkpoints: SetupDiameter[]
+    // Every diameter of the profile, from the tip
+    diameters: SetupDiameter[]
+}
+
+/**
+ * Builds the setup sheet for a job, from the same sections the program is generated from.
+ *
+ * @param stockDiameter The diameter of the rod stock to be machined.
+ * @param profile The mandrel profile, with points sorted by location.
+ * @param params The job parameters to use.
+ * @param report A report already holding any problems found reading the inputs, which is added to.
+ * @return The setup sheet.  A ValidationError is thrown if any errors are found.
+ */
+function buildSetupSheet(stockDiameter: number, profile: Profile, params: JobParameters, report: ValidationReport = new ValidationReport()): SetupSheet {
+    let job: PreparedJob = prepareJob(stockDiameter, profile, params, report)
+    let sections: Section[] = job.sections
+    stockDiameter = job.stockDiameter
+    let round = (value: number): number => +value.toFixed(params.decimals)
+
+    let mandrelLength: number = Math.max(...job.oriented.locations)
+    let partOff: boolean = params.partOff && params.compareSection === 0
+    let partOffWidth: number = partOff ? getTool(params, params.partOffTool).width : 0
+
+    // Tools are listed in the order they are first used, as in the program header
+    let tools: SetupTool[] = []
+    let addTool = (number: number, operation: string): void => {
+        let listed: SetupTool | undefined = tools.find(tool => tool.number === number)
+        if (listed !== undefined) {
+            listed.operations += ", " + operation
+            return
+        }
+        let tool: Tool = getTool(params, number)
+        tools.push({ number: number, offset: tool.offset, description: TOOL_TYPE_DESCRIPTIONS[tool.type], noseRadius: tool.noseRadius, operations: operation })
+    }
+    addTool(params.roughingTool, "Roughing")
+    addTool(params.finishingTool, "Finishing")
+    if (partOff) {
+        addTool(params.partOffTool, "Part Off")
+    }
+
+    // The pull stop is placed as sectionCycle places it, clearing the largest diameter already machined
+    let pullDiameters: number[] = sectionPullDiameters(sections, params)
+    let pulls: SetupPull[] = sections.map((section, i) => {
+        let pullDiameter: number = Math.max(pullDiameters[i], section.startPoint.x)
+        return {
+            section: i + 1,
+            length: round(section.length),
+            pullDistance: (i === 0) ? 0 : round(sections[i - 1].length),
+            stickout: round(section.start + section.length),
+            stopX: round(pullDiameter + params.spacing.xClearance),
+            stopZ: round(section.startPoint.z + colletShift(params, stockDiameter, pullDiameter))
+        }
+    })
+
+    let toTipLocation = (fromTip: number): number => job.reversed ? mandrelLength - fromTip : fromTip
+    let endAllowance: number = 2 * getTool(params, params.finishingTool).noseRadius
+    let checkpoints: SetupDiameter[] = []
+    sections.forEach((section, i) => {
+        let locations: number[] = [0, section.length / 2, Math.max(section.length / 2, section.length - endAllowance)]
+        locations.forEach(z => {
+            let fromTip: number = section.start + z
+            checkpoints.push({ section: i + 1, location: round(toTipLocation(fromTip)), fromTip: round(fromTip), diameter: round(profileDiameterAt(section.points, z)) })
+        })
+    })
+
+    // Points on a section boundary are listed with the section that ends there
+    let diameters: SetupDiameter[] = job.oriented.locations.map((fromTip, i) => ({
+        section: Math.max(1, sections.filter(section => section.start < fromTip - 1e-9).length),
+        location: round(toTipLocation(fromTip)),
+        fromTip: round(fromTip),
+        diameter: round(job.oriented.diameters[i])
+    }))
+
+    return {
+        units: params.units,
+        stockDiameter: stockDiameter,
+        material: params.material,
+        mandrelLength: round(mandrelLength),
+        cutLength: round(mandrelLength + partOffWidth),
+        tools: tools,
+        pulls: pulls,
+        checkpoints: checkpoints,
+        diameters: diameters
+    }
+}
+
+/**
+ * Finds the diameter of a profile at a location, following any arcs.  At a shoulder the diameter before it is given.
+ *
+ * @param points The profile, with points sorted by location and arcs held by the points they end at.
+ * @param z The location to find the diameter at, which must be within the profile.
+ * @return The diameter at z.
+ */
+function profileDiameterAt(points: DimensionPoint[], z: number): number {
+    let index: number = points.findIndex((point, i) => i > 0 && point.z >= z - 1e-9 && points[i - 1].z <= z + 1e-9)
+    if (index === -1) {
+        throw new RangeError(`Location ${z} is outside the profile.`)
+    }
+    let start: DimensionPoint = points[index - 1]
+    let end: DimensionPoint = points[index]
+    if (end.z - start.z < 1e-9) {
+        return start.x
+    }
+    if (end.radius !== undefined) {
+        return arcDiameterAt(start, end, z)
+    }
+    return start.x + (end.x - start.x) * (z - start.z) / (end.z - start.z)
+}
+
+function tableWithHeader(header: string[], rows: (string | number)[][]): (string | number)[][] {
+    return [header as (string | number)[]].concat(rows)
+}
+
+/**
+ * Lays out the parts of a setup sheet as titled tables, each with a header row, shared by the sheet and HTML layouts.
+ */
+function setupSheetSections(sheet: SetupSheet): { title: string, rows: (string | number)[][] }[] {
+    let summary: (string | number)[][] = [["Item", "Value"], ["Units", sheet.units], ["Stock diameter", sheet.stockDiameter]]
+    if (sheet.material !== "") {
+        summary.push(["Material", sheet.material])
+    }
+    summary.push(["Mandrel length", sheet.mandrelLength], ["Stock used", sheet.cutLength])
+
+    return [
+        { title: "Stock", rows: summary },
+        {
+            title: "Tools",
+            rows: tableWithHeader(["Tool", "Offset", "Description", "Nose radius", "Used for"],
+                sheet.tools.map(tool => [`T${tool.number}`, tool.offset, tool.description, tool.noseRadius, tool.operations]))
+        },
+        {
+            title: "Stock pulls",
+            rows: tableWithHeader(["Section", "Length", "Pull distance", "Expected stickout", "Stop X", "Stop Z"],
+                sheet.pulls.map(pull => [pull.section, pull.length, (pull.section === 1) ? "Load to stop" : pull.pullDistance, pull.stickout, pull.stopX, pull.stopZ]))
+        },
+        {
+            title: "Checkpoints",
+            rows: tableWithHeader(["Section", "Location", "From tip", "Diameter"],
+                sheet.checkpoints.map(point => [point.section, point.location, point.fromTip, point.diameter]))
+        },
+        {
+            title: "Expected diameters",
+            rows: tableWithHeader(["Section", "Location", "From tip", "Diameter"],
+                sheet.diameters.map(point => [point.section, point.location, point.fromTip, point.diameter]))
+        }
+    ]
+}
+
+/**
+ * Lays a setup sheet out as a single table for display in the sheet, with each part under its title and a blank row between them.
+ */
+function setupSheetTable(sheet: SetupSheet): (string | number)[][] {
+    let table: (string | number)[][] = []
+    setupSheetSections(sheet).forEach((part, index) => {
+        if (index > 0) {
+            table.push([])
+        }
+        table.push([part.title])
+        table.push(...part.rows)
+    })
+
+    // Sheets need every row to be the same width
+    let width: number = Math.max(...table.map(row => row.length))
+    return table.map(row => row.concat(new Array(width - row.length).fill("")))
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+/**
+ * Lays a setup sheet out as a printable HTML page.
+ *
+ * @param sheet The setup sheet.
+ * @param title The title of the page, such as the name of the job.
+ * @return The HTML page.
+ */
+function setupSheetHtml(sheet: SetupSheet, title: string = "Mandrel Setup Sheet"): string {
+    let lines: string[] = [
+        "<!DOCTYPE html>",
+        "<html>",
+        "<head>",
+        "<meta charset=\"utf-8\">",
+        `<title>${escapeHtml(title)}</title>`,
+        "<style>",
+        "body { font-family: sans-serif; font-size: 11pt; margin: 1.5em; }",
+        "table { border-collapse: collapse; margin-bottom: 1.5em; }",
+        "th, td { border: 1px solid #888; padding: 0.2em 0.6em; text-align: left; }",
+        "th { background: #eee; }",
+        "td.check { width: 6em; }",
+        "h2 { font-size: 13pt; margin-bottom: 0.4em; }",
+        "@media print { h2 { break-after: avoid; } table { break-inside: auto; } }",
+        "</style>",
+        "</head>",
+        "<body>",
+        `<h1>${escapeHtml(title)}</h1>`
+    ]
+    setupSheetSections(sheet).forEach(part => {
+        // Checkpoints get a blank column for the operator to note what they measured
+        let measured: boolean = part.title === "Checkpoints"
+        lines.push(`<h2>${escapeHtml(part.title)}</h2>`, "<table>")
+        part.rows.forEach((row, index) => {
+            let cell: string = (index === 0) ? "th" : "td"
+            let cells: string[] = row.map(value => `<${cell}>${escapeHtml(String(value))}</${cell}>`)
+            if (measured) {
+                cells.push((index === 0) ? "<th>Measured</th>" : "<td class=\"check\"></td>")
+            }
+            lines.push(`<tr>${cells.join("")}</tr>`)
+        })
+        lines.push("</table>")
+    })
+    lines.push("</body>", "</html>", "")
+    return lines.join("\n")
+}
+
+/**
+ * Lists everything an operator needs to set up and check a mandrel: the stock, tools and offsets, the stock pull before each
+ * section, the diameters to mic after each section, and every diameter of the finished mandrel.
+ *
+ * @param {number} stockDiameter The diameter of the rod stock to be machined.
+ * @param {Array<number>} diameterPoints Diameter measurments for the mandrel, as given to genCode.
+ * @param {Array<number>=} optPointLocations Locations of the points given in diameterPoints, as given to genCode.
+ * @param {Array<Array<string>>|string=} optParameters Job parameter overrides, as given to genCode.
+ * @param {Array<number>=} optRadiusList Radii of arcs reaching each point from the previous one, as given to genCode.
+ * @return The setup sheet as a table, or the problems found if code can't be generated.
+ * @customfunction
+ */
+function setupSheet(stockDiameter, diameterList, optLocationList, optParameters?, optRadiusList?): (string | number)[][] {
+    let job: JobInputs = readJob(stockDiameter, diameterList, optLocationList, optParameters, optRadiusList)
+    try {
+        return setupSheetTable(buildSetupSheet(job.stockDiameter, job.profile, job.params, job.report))
+    } catch (err) {
+        if (err instanceof ValidationError) {
+            return err.report.toTable()
+        }
+        return [[err.message]]
+    }
+}
@@ -0,0 +1,1005 @@
+/*
+Toolpath simulation, used to check generated programs without reading them by eye or cutting material:
+- Split the program into main blocks and }N ... M99 subroutines
+- Step through the main blocks tracking modal state and cutter position
+- Model stock as diameters sampled along Z, cut down wherever the cutter passes below the surface
+- Arcs are followed as short lines, both for moves and within cycle contours
+- Tools are looked up in the job's tool library from their T word, which gives the offset on the Omniturn
+- Moves cut with the tool's nose radius, placed from the imaginary tool tip by its orientation
+    - Within G41/G42 the control is trusted to apply the radius, so the programmed path is cut as given
+    - Canned cycles are cut to their contour as given, as they leave material for the finishing pass either way
+- Part off tools cut their blade width toward the collet, and don't count toward the length of a section
+- Each M01 stock pull starts a new section, with the previously cut stock registered against the pull position
+    - With collet shift compensation on, the stock is drawn back by the expected shift as it is clamped, so raised pulls are checked
+- Report the finished profile of each section and any problems found along the way
+*/
+
+type SimulationIssueType = "rapidThroughStock" | "cutTooDeep" | "cutWithSpindleStopped" | "diameterMismatch" | "unsupported"
+
+interface SimulationIssue {
+    // Line of the program the issue was found on (1 based), or 0 if not tied to a line
+    line: number
+    // Section the issue was found in (1 based), or 0 if before the first stock pull
+    section: number
+    type: SimulationIssueType
+    message: string
+}
+
+interface SimulatedSection {
+    // Z position of the cutter when the stock was pulled, which the stock face is set against
+    pullZ: number
+    // Length of stock cut during the section, measured from pullZ
+    length: number
+    // Finished profile in section coordinates, with z = 0 at the pull position and increasing toward the collet
+    profile: DimensionPoint[]
+}
+
+interface SimulationResult {
+    sections: SimulatedSection[]
+    issues: SimulationIssue[]
+}
+
+/**
+ * A single line of a program, broken into address words.
+ */
+interface ProgramBlock {
+    line: number
+    words: { letter: string, value: number }[]
+    comment?: string
+}
+
+/**
+ * A program split into the blocks run in order and the subroutines referenced by label.
+ */
+interface ParsedProgram {
+    main: ProgramBlock[]
+    subroutines: { [label: number]: ProgramBlock[] }
+}
+
+// Spacing of the stock model samples along Z, in inches
+const SIMULATION_RESOLUTION = 0.001
+
+/**
+ * Splits program text into blocks.  Subroutines (from a }N label through M99) are collected separately,
+ * whether they are placed inline or after M30, so that they are only run when called.
+ *
+ * @param code The program text.
+ * @return The main program blocks and subroutines.
+ */
+function parseProgram(code: string): ParsedProgram {
+    let program: ParsedProgram = { main: [], subroutines: {} }
+    let currentSubroutine: ProgramBlock[] | undefined = undefined
+
+    code.split(/\r?\n/).forEach((text, index) => {
+        // Separate comments from code, then ignore whitespace
+        let comments: string[] = []
+        let stripped: string = text.replace(/\(([^)]*)\)/g, (match, comment) => {
+            comments.push(comment)
+            return ""
+        }).replace(/\s+/g, "").toUpperCase()
+
+        let block: ProgramBlock = { line: index + 1, words: [] }
+        if (comments.length > 0) {
+            block.comment = comments.join(" ")
+        }
+
+        // Subroutine labels begin a new block of stored lines
+        let label = stripped.match(/^\}(\d+)$/)
+        if (label !== null) {
+            currentSubroutine = []
+            program.subroutines[+label[1]] = currentSubroutine
+            return
+        }
+
+        let wordPattern: RegExp = /([A-Z])([-+]?(?:\d+\.?\d*|\.\d+))/g
+        let match: RegExpExecArray | null
+        let consumed: number = 0
+        while ((match = wordPattern.exec(stripped)) !== null) {
+            block.words.push({ letter: match[1], value: +match[2] })
+            consumed += match[0].length
+        }
+        if (consumed !== stripped.length) {
+            throw new SyntaxError(`Unable to read line ${index + 1}: "${text}"`)
+        }
+
+        if (currentSubroutine !== undefined) {
+            if (block.words.some(word => word.letter === "M" && word.value === 99)) {
+                currentSubroutine = undefined
+            }
+            else if (block.words.length > 0) {
+                currentSubroutine.push(block)
+            }
+            return
+        }
+
+        if (block.words.length > 0 || block.comment !== undefined) {
+            program.main.push(block)
+        }
+    })
+
+    return program
+}
+
+/**
+ * Stock modelled as a set of diameters sampled at regular Z intervals.
+ * Anything beyond the sampled range is treated as uncut stock toward the collet and air past the part end.
+ */
+class StockModel {
+    zStart: number
+    resolution: number
+    diameters: number[]
+    stockDiameter: number
+
+    constructor (zStart: number, zEnd: number, resolution: number, stockDiameter: number, diameterAt: (z: number) => number) {
+        this.zStart = zStart
+        this.resolution = resolution
+        this.stockDiameter = stockDiameter
+        this.diameters = []
+        let numSamples: number = Math.ceil((zEnd - zStart) / resolution) + 1
+        for (let i = 0; i < numSamples; i++) {
+            this.diameters.push(diameterAt(this.zAt(i)))
+        }
+    }
+
+    zAt(index: number): number {
+        return this.zStart + index * this.resolution
+    }
+
+    /**
+     * Provides the diameter of the nearest sample, without interpolation, so that shoulders stay square when the stock is moved.
+     */
+    sampleAt(z: number): number {
+        let index: number = Math.round((z - this.zStart) / this.resolution)
+        if (index < 0) {
+            return this.stockDiameter
+        }
+        if (index >= this.diameters.length) {
+            return 0
+        }
+        return this.diameters[index]
+    }
+
+    /**
+     * Provides the diameter at any Z, interpolating between samples.
+     */
+    diameterAt(z: number): number {
+        let position: number = (z - this.zStart) / this.resolution
+        let index: number = Math.floor(position)
+        if (index < 0) {
+            return this.stockDiameter
+        }
+        if (index >= this.diameters.length - 1) {
+            return (index === this.diameters.length - 1) ? this.diameters[index] : 0
+        }
+        let fraction: number = position - index
+        return this.diameters[index] + fraction * (this.diameters[index + 1] - this.diameters[index])
+    }
+
+    /**
+     * Calls back with each sample index covered by a straight cutter move, along with the cutter diameter at that sample.
+     * A sample at the start of a move is skipped, as the cutter is already there.
+     */
+    forEachSampleOnPath(x0: number, z0: number, x1: number, z1: number, callback: (index: number, x: number) => void): void {
+        let zMin: number = Math.min(z0, z1)
+        let zMax: number = Math.max(z0, z1)
+        let first: number = Math.max(0, Math.ceil((zMin - this.zStart) / this.resolution - 1e-6))
+        let last: number = Math.min(this.diameters.length - 1, Math.floor((zMax - this.zStart) / this.resolution + 1e-6))
+
+        for (let i = first; i <= last; i++) {
+            // Moves with no Z travel finish at their deepest point on the sample
+            if (z1 === z0) {
+                callback(i, x1)
+                continue
+            }
+            if (Math.abs(this.zAt(i) - z0) < 1e-6) {
+                continue
+            }
+            callback(i, x0 + (this.zAt(i) - z0) / (z1 - z0) * (x1 - x0))
+        }
+    }
+
+    /**
+     * Calls back with each sample index under a round nose moving in a straight line, along with the lowest diameter the nose reaches there.
+     * The nose is stepped along the move, and reaches down to its center height at the samples level with its edge.
+     *
+     * @param x0 The diameter of the nose center at the start of the move, with z0, x1 and z1 following.
+     */
+    forEachSampleUnderNose(x0: number, z0: number, x1: number, z1: number, noseRadius: number, callback: (index: number, x: number) => void): void {
+        let lowest: { [index: number]: number } = {}
+        let numSteps: number = Math.max(1, Math.ceil(Math.max(Math.abs(z1 - z0), Math.abs(x1 - x0) / 2) / (this.resolution / 2)))
+
+        for (let step = 1; step <= numSteps; step++) {
+            let centerZ: number = z0 + step / numSteps * (z1 - z0)
+            let centerR: number = (x0 + step / numSteps * (x1 - x0)) / 2
+            let first: number = Math.max(0, Math.ceil((centerZ - noseRadius - this.zStart) / this.resolution))
+            let last: number = Math.min(this.diameters.length - 1, Math.floor((centerZ + noseRadius - this.zStart) / this.resolution))
+            for (let i = first; i <= last; i++) {
+                let dz: number = this.zAt(i) - centerZ
+                if (Math.abs(dz) > noseRadius + 1e-9) {
+                    continue
+                }
+                let x: number = 2 * (centerR - Math.sqrt(Math.max(0, noseRadius * noseRadius - dz * dz)))
+                lowest[i] = (lowest[i] === undefined) ? x : Math.min(lowest[i], x)
+            }
+        }
+
+        Object.keys(lowest).forEach(key => callback(+key, lowest[+key]))
+    }
+
+    /**
+     * Finds how far a cutter move would pass inside the stock, without removing anything.
+     *
+     * @param noseRadius Optional radius of the cutter nose, in which case the positions given are of the nose center.
+     * @return The greatest diameter of stock above the cutter along the move, or 0 if the move is clear.
+     */
+    interference(x0: number, z0: number, x1: number, z1: number, noseRadius?: number): number {
+        let depth: number = 0
+        let check = (index: number, x: number) => {
+            depth = Math.max(depth, this.diameters[index] - x)
+        }
+        if (noseRadius === undefined || noseRadius === 0) {
+            this.forEachSampleOnPath(x0, z0, x1, z1, check)
+        }
+        else {
+            this.forEachSampleUnderNose(x0, z0, x1, z1, noseRadius, check)
+        }
+        return depth
+    }
+
+    /**
+     * Removes all stock above a cutter move.
+     *
+     * @param noseRadius Optional radius of the cutter nose, in which case the positions given are of the nose center.
+     * @return The greatest diameter of stock removed along the move, and the lowest Z at which any was removed.
+     */
+    cut(x0: number, z0: number, x1: number, z1: number, noseRadius?: number): { depth: number, lowestZ: number } {
+        let result = { depth: 0, lowestZ: Infinity }
+        let cut = (index: number, x: number) => {
+            this.cutSample(index, x, result)
+        }
+        if (noseRadius === undefined || noseRadius === 0) {
+            this.forEachSampleOnPath(x0, z0, x1, z1, cut)
+        }
+        else {
+            this.forEachSampleUnderNose(x0, z0, x1, z1, noseRadius, cut)
+        }
+        return result
+    }
+
+    /**
+     * Removes all stock above a target diameter over a range of Z, as done by a canned cycle.
+     *
+     * @param target Provides the diameter to cut to at a given Z, or undefined where nothing is to be cut.
+     * @return The greatest diameter of stock removed, and the lowest Z at which any was removed.
+     */
+    cutTo(zMin: number, zMax: number, target: (z: number) => number | undefined): { depth: number, lowestZ: number } {
+        let result = { depth: 0, lowestZ: Infinity }
+        let first: number = Math.max(0, Math.ceil((zMin - this.zStart) / this.resolution - 1e-6))
+        let last: number = Math.min(this.diameters.length - 1, Math.floor((zMax - this.zStart) / this.resolution + 1e-6))
+        for (let i = first; i <= last; i++) {
+            let x: number | undefined = target(this.zAt(i))
+            if (x !== undefined) {
+                this.cutSample(i, x, result)
+            }
+        }
+        return result
+    }
+
+    private cutSample(index: number, x: number, result: { depth: number, lowestZ: number }): void {
+        if (this.diameters[index] > x) {
+            result.depth = Math.max(result.depth, this.diameters[index] - x)
+            result.lowestZ = Math.min(result.lowestZ, this.zAt(index))
+            this.diameters[index] = Math.max(x, 0)
+        }
+    }
+}
+
+/**
+ * Interprets the subset of Omniturn G code produced by genCode, tracking modal state, cutter position and remaining stock.
+ */
+class ToolpathSimulator {
+    params: JobParameters
+    stockDiameter: number
+
+    // Modal state
+    motion: number = -1
+    feedMode: number = 95
+    feed: number = -1
+    rpm: number = 0
+    spindleOn: boolean = false
+    ended: boolean = false
+    // Whether G41/G42 nose radius compensation is active
+    compensated: boolean = false
+    // Tool in use, undefined until the first tool call
+    tool: Tool | undefined = undefined
+
+    // Cutter position, undefined until first commanded
+    x: number | undefined = undefined
+    z: number | undefined = undefined
+
+    // Stock, which only exists once it has been pulled into position
+    stock: StockModel | null = null
+    // Total distance the stock has been pulled since the first section
+    totalShift: number = 0
+    sectionRecords: { pullZ: number, lowestZ: number, shiftAtPull: number }[] = []
+
+    subroutines: { [label: number]: ProgramBlock[] } = {}
+    issues: SimulationIssue[] = []
+
+    constructor (stockDiameter: number, params: JobParameters) {
+        this.stockDiameter = stockDiameter
+        this.params = params
+    }
+
+    /**
+     * Runs a full program, then reports the finished profile of each section.
+     *
+     * @param code The program text.
+     * @return The simulated sections and any issues found.
+     */
+    run(code: string): SimulationResult {
+        let program: ParsedProgram = parseProgram(code)
+        this.subroutines = program.subroutines
+
+        for (let block of program.main) {
+            this.runBlock(block)
+            if (this.ended) {
+                break
+            }
+        }
+
+        // Pulls that are not followed by any cutting (such as a final pull before M30) do not form a section
+        this.sectionRecords = this.sectionRecords.filter(record => record.lowestZ !== Infinity)
+
+        return {
+            sections: this.sectionRecords.map((record, index) => this.finishedSection(index)),
+            issues: this.issues
+        }
+    }
+
+    // Spacing of the stock model samples along Z, in the units of the program
+    get resolution(): number {
+        return (this.params.units === "mm") ? SIMULATION_RESOLUTION * MM_PER_INCH : SIMULATION_RESOLUTION
+    }
+
+    // Tolerance allowed for rounding of printed values
+    get tolerance(): number {
+        return Math.pow(10, -this.params.decimals) / 2 + 1e-9
+    }
+
+    get sectionNumber(): number {
+        return this.sectionRecords.length
+    }
+
+    addIssue(line: number, type: SimulationIssueType, message: string): void {
+        this.issues.push({ line: line, section: this.sectionNumber, type: type, message: message })
+    }
+
+    runBlock(block: ProgramBlock): void {
+        let cycle: number | undefined = undefined
+        let values: { [letter: string]: number } = {}
+
+        block.words.forEach(word => {
+            if (word.letter === "G") {
+                switch (word.value) {
+                    case 0:
+                    case 1:
+                    case 2:
+                    case 3:
+                        this.motion = word.value
+                        break
+                    case 40:
+                        this.compensated = false
+                        break
+                    case 41:
+                    case 42:
+                        this.compensated = true
+                        break
+                    case 50:
+                    case 70:
+                    case 71:
+                    case 72:
+                    case 90:
+                    case 96:
+                    case 97:
+                        // Units are taken from the job, diameter mode and absolute positioning are assumed throughout, and spindle speed doesn't change the cut
+                        break
+                    case 94:
+                    case 95:
+                        this.feedMode = word.value
+                        break
+                    case 74:
+                    case 75:
+                        cycle = word.value
+                        break
+                    default:
+                        this.addIssue(block.line, "unsupported", `G${word.value} is not supported by the simulator`)
+                }
+            }
+            else if (word.letter === "M") {
+                switch (word.value) {
+                    case 1:
+                        this.pullStock(block.line)
+                        break
+                    case 3:
+                        // Programs that cut before any stock pull are assumed to start with the stock face at Z0
+                        if (this.stock === null) {
+                            this.loadStock(0)
+                        }
+                        this.spindleOn = true
+                        break
+                    case 5:
+                        this.spindleOn = false
+                        break
+                    case 30:
+                        this.ended = true
+                        break
+                    default:
+                        this.addIssue(block.line, "unsupported", `M${word.value} is not supported by the simulator`)
+                }
+            }
+            else if (word.letter === "S") {
+                this.rpm = word.value
+            }
+            else if (word.letter === "T") {
+                this.selectTool(block.line, word.value)
+            }
+            else if (word.letter === "F" && cycle === undefined) {
+                this.feed = word.value
+            }
+            else {
+                values[word.letter] = word.value
+            }
+        })
+
+        if (cycle === 75) {
+            this.contourCycle(block.line, values)
+        }
+        else if (cycle === 74) {
+            this.boxCycle(block.line, values)
+        }
+        else if (values.X !== undefined || values.Z !== undefined) {
+            let x: number | undefined = (values.X !== undefined) ? values.X : this.x
+            let z: number | undefined = (values.Z !== undefined) ? values.Z : this.z
+            if (this.motion === 0) {
+                this.rapid(block.line, x, z)
+            }
+            else if (this.motion === 1) {
+                this.linear(block.line, x, z)
+            }
+            else if (this.motion === 2 || this.motion === 3) {
+                this.arc(block.line, x, z, values.R)
+            }
+            else {
+                this.addIssue(block.line, "unsupported", "Axis move given with no motion code active")
+            }
+        }
+    }
+
+    /**
+     * Changes to the library tool using an offset, as called by a T word.
+     */
+    selectTool(line: number, offset: number): void {
+        let key: string | undefined = Object.keys(this.params.tools).find(key => this.params.tools[key].offset === offset)
+        if (key === undefined) {
+            this.addIssue(line, "unsupported", `T${offset} does not match the offset of any tool in the library`)
+            return
+        }
+        this.tool = getTool(this.params, +key.slice(1))
+    }
+
+    get partingOff(): boolean {
+        return this.tool !== undefined && this.tool.type === "part off"
+    }
+
+    // Deepest cut allowed for the tool in use
+    get maxDepth(): number {
+        return (this.tool === undefined) ? this.params.depths.max : this.tool.maxDepth
+    }
+
+    /**
+     * Radius of the nose used for cutting, which is 0 when the control is compensating for it.
+     */
+    get noseRadius(): number {
+        return (this.compensated || this.tool === undefined || this.partingOff) ? 0 : this.tool.noseRadius
+    }
+
+    /**
+     * Converts a programmed imaginary tool tip position to the position of the nose center.
+     */
+    noseCenter(x: number, z: number): DimensionPoint {
+        if (this.noseRadius === 0) {
+            return new DimensionPoint(x, z)
+        }
+        let tip: [number, number] = TOOL_TIP_DIRECTIONS[this.tool!.orientation]
+        return new DimensionPoint(x - 2 * tip[1] * this.noseRadius, z - tip[0] * this.noseRadius)
+    }
+
+    /**
+     * Cuts along a straight move between programmed positions with the tool nose.
+     * A part off blade cuts its width toward the collet from its edge facing the part, which leaves a face at that edge.
+     */
+    cutAlong(x0: number, z0: number, x1: number, z1: number): { depth: number, lowestZ: number } {
+        if (this.partingOff) {
+            let zMin: number = Math.min(z0, z1) - this.tool!.width
+            let zMax: number = Math.max(z0, z1) - this.stock!.resolution / 2
+            return this.stock!.cutTo(zMin, zMax, () => Math.min(x0, x1))
+        }
+        let from: DimensionPoint = this.noseCenter(x0, z0)
+        let to: DimensionPoint = this.noseCenter(x1, z1)
+        return this.stock!.cut(from.x, from.z, to.x, to.z, this.noseRadius)
+    }
+
+    rapid(line: number, x: number | undefined, z: number | undefined): void {
+        if (this.stock !== null && this.x !== undefined && this.z !== undefined && x !== undefined && z !== undefined) {
+            let from: DimensionPoint = this.noseCenter(this.x, this.z)
+            let to: DimensionPoint = this.noseCenter(x, z)
+            let depth: number = this.stock.interference(from.x, from.z, to.x, to.z, this.noseRadius)
+            if (depth > this.tolerance) {
+                this.addIssue(line, "rapidThroughStock", `Rapid move passes ${+depth.toFixed(this.params.decimals)} into stock on diameter`)
+            }
+        }
+        this.x = x
+        this.z = z
+    }
+
+    linear(line: number, x: number | undefined, z: number | undefined): void {
+        if (this.stock !== null && this.x !== undefined && this.z !== undefined && x !== undefined && z !== undefined) {
+            let result = this.cutAlong(this.x, this.z, x, z)
+            this.checkCut(line, result)
+        }
+        this.x = x
+        this.z = z
+    }
+
+    /**
+     * Follows an arc given with an R value, cutting along it as a series of short lines.
+     */
+    arc(line: number, x: number | undefined, z: number | undefined, R: number | undefined): void {
+        if (R === undefined) {
+            this.addIssue(line, "unsupported", "Arcs must be given with an R value")
+        }
+        else if (this.stock !== null && this.x !== undefined && this.z !== undefined && x !== undefined && z !== undefined) {
+            let result = { depth: 0, lowestZ: Infinity }
+            let from: DimensionPoint = new DimensionPoint(this.x, this.z)
+            try {
+                this.arcPoints(from, new DimensionPoint(x, z), R, this.motion === 2).forEach(point => {
+                    let pieceResult = this.cutAlong(from.x, from.z, point.x, point.z)
+                    result.depth = Math.max(result.depth, pieceResult.depth)
+                    result.lowestZ = Math.min(result.lowestZ, pieceResult.lowestZ)
+                    from = point
+                })
+                this.checkCut(line, result)
+            } catch (err) {
+                this.addIssue(line, "unsupported", err.message)
+            }
+        }
+        this.x = x
+        this.z = z
+    }
+
+    /**
+     * Breaks an arc into lines fine enough to be treated as exact.
+     */
+    arcPoints(start: DimensionPoint, end: DimensionPoint, R: number, clockwise: boolean): DimensionPoint[] {
+        return arcPoints(start, end, arcCenterFromRadius(start, end, R, clockwise), clockwise, this.tolerance / 10)
+    }
+
+    checkCut(line: number, result: { depth: number, lowestZ: number }): void {
+        if (result.depth <= this.tolerance) {
+            return
+        }
+        if (!this.spindleOn) {
+            this.addIssue(line, "cutWithSpindleStopped", "Stock is cut while the spindle is stopped")
+        }
+        // Parting off plunges to full depth by design, beyond the end of the section
+        if (this.partingOff) {
+            return
+        }
+
+        let record = this.sectionRecords[this.sectionRecords.length - 1]
+        record.lowestZ = Math.min(record.lowestZ, result.lowestZ)
+
+        if (result.depth > this.maxDepth + this.tolerance) {
+            this.addIssue(line, "cutTooDeep", `Cut of ${+result.depth.toFixed(this.params.decimals)} on diameter exceeds maximum depth of ${this.maxDepth}`)
+        }
+    }
+
+    /**
+     * Runs a G75 contour cycle: the stock is roughed down to the subroutine contour plus the finishing allowance, and the cutter returns to its start point.
+     */
+    contourCycle(line: number, values: { [letter: string]: number }): void {
+        let body: ProgramBlock[] | undefined = this.subroutines[values.P]
+        if (body === undefined) {
+            this.addIssue(line, "unsupported", `G75 calls subroutine ${values.P}, which is not defined`)
+            return
+        }
+        if (values.I === undefined || values.U === undefined) {
+            this.addIssue(line, "unsupported", "G75 requires I and U values")
+            return
+        }
+        this.checkCycleDepth(line, values.I)
+
+        // Contour points carry missing axes over from the previous point, starting from the cutter position
+        // Lines are straight unless given as arcs, which are broken into short lines
+        let contour: DimensionPoint[] = []
+        let x: number | undefined = this.x
+        let z: number | undefined = this.z
+        let motion: number = 1
+        try {
+            body.forEach(block => {
+                let R: number | undefined = undefined
+                block.words.forEach(word => {
+                    if (word.letter === "G" && word.value >= 1 && word.value <= 3) {
+                        motion = word.value
+                    }
+                    if (word.letter === "X") {
+                        x = word.value
+                    }
+                    if (word.letter === "Z") {
+                        z = word.value
+                    }
+                    if (word.letter === "R") {
+                        R = word.value
+                    }
+                })
+                if (x === undefined || z === undefined) {
+                    return
+                }
+                if (motion !== 1 && R !== undefined && contour.length > 0) {
+                    contour.push(...this.arcPoints(contour[contour.length - 1], new DimensionPoint(x, z), R, motion === 2))
+                }
+                else {
+                    contour.push(new DimensionPoint(x, z))
+                }
+            })
+        } catch (err) {
+            this.addIssue(line, "unsupported", `G75 contour could not be read: ${err.message}`)
+            return
+        }
+
+        if (this.stock !== null && contour.length > 1) {
+            let zMin: number = Math.min(...contour.map(point => point.z))
+            let zMax: number = Math.max(...contour.map(point => point.z))
+            let result = this.stock.cutTo(zMin, zMax, (z) => {
+                let target: number | undefined = contourDiameterAt(contour, z)
+                return (target === undefined) ? undefined : target + 2 * values.U
+            })
+            this.checkCut(line, { depth: Math.min(result.depth, 2 * values.I), lowestZ: result.lowestZ })
+        }
+    }
+
+    /**
+     * Runs a G74 box cycle: the stock between the start point and end point is roughed down to the end diameter plus the finishing allowance,
+     * and the cutter returns to its start point.
+     */
+    boxCycle(line: number, values: { [letter: string]: number }): void {
+        if (values.X === undefined || values.Z === undefined || values.I === undefined) {
+            this.addIssue(line, "unsupported", "G74 requires X, Z and I values")
+            return
+        }
+        this.checkCycleDepth(line, values.I)
+
+        if (this.stock !== null && this.z !== undefined) {
+            let target: number = values.X + 2 * (values.U === undefined ? 0 : values.U)
+            let result = this.stock.cutTo(Math.min(this.z, values.Z), Math.max(this.z, values.Z), () => target)
+            this.checkCut(line, { depth: Math.min(result.depth, 2 * values.I), lowestZ: result.lowestZ })
+        }
+    }
+
+    checkCycleDepth(line: number, I: number): void {
+        if (2 * I > this.maxDepth + this.tolerance) {
+            this.addIssue(line, "cutTooDeep", `Cycle depth of ${2 * I} on diameter exceeds maximum depth of ${this.maxDepth}`)
+        }
+    }
+
+    /**
+     * Starts a new section.  The stock is pulled until the face of the uncut stock meets the cutter,
+     * so the lowest point cut in the previous section moves to the cutter's Z position, less any collet shift.
+     */
+    pullStock(line: number): void {
+        if (this.z === undefined || this.x === undefined) {
+            this.addIssue(line, "unsupported", "Stock pulled before the cutter position is known")
+            return
+        }
+        this.loadStock(this.z - colletShift(this.params, this.stockDiameter, this.x - this.params.spacing.xClearance))
+    }
+
+    /**
+     * Sets up the stock for a new section with the face of the uncut stock at pullZ.
+     */
+    loadStock(pullZ: number): void {
+        let previous: StockModel | null = this.stock
+        let shift: number = 0
+        if (previous !== null) {
+            let lastRecord = this.sectionRecords[this.sectionRecords.length - 1]
+            shift = (lastRecord.lowestZ === Infinity) ? 0 : pullZ - lastRecord.lowestZ
+        }
+        this.totalShift += shift
+
+        let zStart: number = pullZ - 3 * this.params.stickout
+        let zEnd: number = pullZ + 3 * this.params.stickout
+        this.stock = new StockModel(zStart, zEnd, this.resolution, this.stockDiameter, (z) => {
+            if (previous === null) {
+                return (z < pullZ + 1e-9) ? this.stockDiameter : 0
+            }
+            return previous.sampleAt(z - shift)
+        })
+
+        this.sectionRecords.push({ pullZ: pullZ, lowestZ: Infinity, shiftAtPull: this.totalShift })
+    }
+
+    /**
+     * Reads the finished profile of a section from the final stock, allowing for any later re-cutting.
+     */
+    finishedSection(index: number): SimulatedSection {
+        let record = this.sectionRecords[index]
+        let offset: number = this.totalShift - record.shiftAtPull
+        let length: number = (record.lowestZ === Infinity) ? 0 : record.pullZ - record.lowestZ
+
+        let profile: DimensionPoint[] = []
+        if (this.stock !== null) {
+            let numSteps: number = Math.round(length / this.resolution)
+            for (let i = 0; i <= numSteps; i++) {
+                let z: number = Math.min(i * this.resolution, length)
+                profile.push(new DimensionPoint(this.stock.diameterAt(record.pullZ - z + offset), z))
+            }
+        }
+
+        return {
+            pullZ: record.pullZ,
+            length: length,
+            profile: simplifyProfile(profile, 1e-7)
+        }
+    }
+
+    /**
+     * Provides the finished diameter at a location within a section, in section coordinates.
+     */
+    finishedDiameterAt(index: number, z: number): number {
+        let record = this.sectionRecords[index]
+        let offset: number = this.totalShift - record.shiftAtPull
+        return this.stock === null ? this.stockDiameter : this.stock.diameterAt(record.pullZ - z + offset)
+    }
+}
+
+/**
+ * Finds the smallest diameter of a contour at a given Z.
+ *
+ * @return The diameter, or undefined if the contour does not cover z.
+ */
+function contourDiameterAt(contour: DimensionPoint[], z: number): number | undefined {
+    let diameter: number | undefined = undefined
+    for (let i = 1; i < contour.length; i++) {
+        let a: DimensionPoint = contour[i - 1]
+        let b: DimensionPoint = contour[i]
+        if (z < Math.min(a.z, b.z) - 1e-9 || z > Math.max(a.z, b.z) + 1e-9) {
+            continue
+        }
+        let x: number = (a.z === b.z) ? Math.min(a.x, b.x) : a.x + (z - a.z) / (b.z - a.z) * (b.x - a.x)
+        diameter = (diameter === undefined) ? x : Math.min(diameter, x)
+    }
+    return diameter
+}
+
+/**
+ * Removes points lying on a straight line between their neighbours.
+ *
+ * @param points The profile to simplify.
+ * @param tolerance The largest diameter deviation allowed for a removed point.
+ * @return The points needed to describe the profile.
+ */
+function simplifyProfile(points: DimensionPoint[], tolerance: number): DimensionPoint[] {
+    if (points.length < 3) {
+        return points
+    }
+    let simplified: DimensionPoint[] = [points[0]]
+    let anchor: number = 0
+    for (let i = 1; i < points.length - 1; i++) {
+        // Keep point i if a straight line from the last kept point to the next point would miss any point in between
+        let a: DimensionPoint = points[anchor]
+        let b: DimensionPoint = points[i + 1]
+        let deviates: boolean = points.slice(anchor + 1, i + 1).some(p => {
+            let expected: number = a.x + (p.z - a.z) / (b.z - a.z) * (b.x - a.x)
+            return Math.abs(expected - p.x) > tolerance
+        })
+        if (deviates) {
+            simplified.push(points[i])
+            anchor = i
+        }
+    }
+    simplified.push(points[points.length - 1])
+    return simplified
+}
+
+/**
+ * Simulates a program and reports the finished profile of each section.
+ *
+ * @param code The program text.
+ * @param stockDiameter The diameter of the rod stock being machined.
+ * @param params The job parameters the program was generated with.
+ * @return The simulated sections and any issues found.
+ */
+function simulateProgram(code: string, stockDiameter: number, params: JobParameters): SimulationResult {
+    return new ToolpathSimulator(stockDiameter, params).run(code)
+}
+
+/**
+ * Finds where to check the finished diameter for a point of a section profile.  The diameter at a shoulder changes at a single z,
+ * so points on a shoulder are checked a small distance along the neighbouring segment on their own side of the face instead.
+ * A round nose can't reach the end of a section toward the collet without cutting past it, so that point can also be moved in.
+ *
+ * @param points The section profile, in order of increasing z.
+ * @param index The index of the point to check.
+ * @param offset The distance along z to move away from a shoulder.
+ * @param endOffset The distance along z to move in from the end of the section.
+ * @return The position and expected diameter to check, or undefined for a shoulder point with nothing beside it in this section.
+ */
+function profileCheckPoint(points: DimensionPoint[], index: number, offset: number, endOffset: number = 0): DimensionPoint | undefined {
+    let point: DimensionPoint = points[index]
+    let previous: DimensionPoint | undefined = points[index - 1]
+    let next: DimensionPoint | undefined = points[index + 1]
+
+    // Neighbour on the far side of the point from its shoulder, if it is on one
+    let neighbour: DimensionPoint | undefined
+    if (next !== undefined && next.z === point.z) {
+        neighbour = previous
+    }
+    else if (previous !== undefined && previous.z === point.z) {
+        neighbour = next
+    }
+    else if (next === undefined && previous !== undefined && endOffset > 0) {
+        neighbour = previous
+        offset = endOffset
+    }
+    else {
+        return point
+    }
+
+    if (neighbour === undefined) {
+        return undefined
+    }
+    let z: number = point.z + Math.sign(neighbour.z - point.z) * Math.min(offset, Math.abs(neighbour.z - point.z) / 2)
+    let [start, end] = (neighbour.z < point.z) ? [neighbour, point] : [point, neighbour]
+    if (end.radius !== undefined) {
+        return new DimensionPoint(arcDiameterAt(start, end, z), z)
+    }
+    return new DimensionPoint(point.x + (z - point.z) / (neighbour.z - point.z) * (neighbour.x - point.x), z)
+}
+
+/**
+ * Simulates a program and checks the finished diameters against the sections it was meant to produce.
+ *
+ * @param code The program text.
+ * @param stockDiameter The diameter of the rod stock being machined.
+ * @param sections The sections the program was generated from.
+ * @param params The job parameters the program was generated with.
+ * @param tolerance The largest allowable difference in diameter, defaulting to the printed precision.  A nose radius compensated
+ *                  path is rounded toward the material, so it may also finish a printed unit further oversize.
+ * @return The simulated sections, with any issues found including diameter mismatches.
+ */
+function verifyProgram(code: string, stockDiameter: number, sections: Section[], params: JobParameters, tolerance?: number): SimulationResult {
+    let simulator: ToolpathSimulator = new ToolpathSimulator(stockDiameter, params)
+    let result: SimulationResult = simulator.run(code)
+    if (tolerance === undefined) {
+        tolerance = simulator.tolerance
+    }
+
+    if (result.sections.length !== sections.length) {
+        result.issues.push({
+            line: 0,
+            section: 0,
+            type: "diameterMismatch",
+            message: `Program cuts ${result.sections.length} section(s), but ${sections.length} were expected`
+        })
+    }
+
+    // Inside corners are left rounded to the nose radius, and the nose stops short of the end of a section where it slopes down, so
+    // both are only checked once clear of the nose
+    let noseRadius: number = getTool(params, params.finishingTool).noseRadius
+    let oversize: number = (params.noseCompensation === "geometric" && noseRadius > 0) ? Math.pow(10, -params.decimals) : 0
+    let mismatched = (diameter: number, expected: number): boolean => diameter - expected > tolerance! + oversize || expected - diameter > tolerance!
+
+    for (let i = 0; i < Math.min(result.sections.length, sections.length); i++) {
+        sections[i].points.forEach((point, index) => {
+            let check: DimensionPoint | undefined = profileCheckPoint(sections[i].points, index, 3 * simulator.resolution + noseRadius, 2 * noseRadius)
+            if (check === undefined) {
+                return
+            }
+            // Arcs are also checked at their midpoint, which shows whether they were cut in the right direction
+            if (index > 0 && point.radius !== undefined) {
+                let midpoint: DimensionPoint = arcGeometry(sections[i].points[index - 1], point).midpoint
+                let diameter: number = simulator.finishedDiameterAt(i, midpoint.z)
+                if (mismatched(diameter, midpoint.x)) {
+                    result.issues.push({
+                        line: 0,
+                        section: i + 1,
+                        type: "diameterMismatch",
+                        message: `Diameter at arc midpoint z = ${+midpoint.z.toFixed(params.decimals)} is ${+diameter.toFixed(params.decimals)}, expected ${+midpoint.x.toFixed(params.decimals)}`
+                    })
+                }
+            }
+            let diameter: number = simulator.finishedDiameterAt(i, check.z)
+            if (mismatched(diameter, check.x)) {
+                result.issues.push({
+                    line: 0,
+                    section: i + 1,
+                    type: "diameterMismatch",
+                    message: `Diameter at z = ${point.z} is ${+diameter.toFixed(params.decimals)}, expected ${point.x}`
+                })
+            }
+        })
+    }
+
+    return result
+}
+
+/**
+ * Testing function for use within Google Apps Script editor, which throws if the program doesn't cut the profile it was given
+ *
+ * @return The simulation of the program, for inspection in the debugger.
+ */
+function testSimulateCode(): SimulationResult {
+    let stockDiameter = 0.5
+    let diameterPoints = [0.335, 0.340, 0.345, 0.348, 0.350, 0.353, 0.355, 0.360, 0.366]
+    let locations = [0.00, 0.25, 0.50, 0.75, 1.00, 1.25, 1.50, 1.75, 2.00]
+
+    let params: JobParameters = buildParameters({})
+    let code: string = genCode(stockDiameter, diameterPoints, locations)
+    let result: SimulationResult = verifyProgram(code, stockDiameter, interpolatePoints(diameterPoints, locations, params), params)
+
+    if (result.issues.length > 0) {
+        throw new Error("Simulation test failed:\n" + result.issues.map(issue => `Line ${issue.line}, section ${issue.section}: ${issue.type} - ${issue.message}`).join("\n"))
+    }
+    return result
+}
+
+/**
+ * Testing function for use within Google Apps Script editor, checking native cycle output against simulated cycles
+ */
+function testNativeCycles() {
+    let stockDiameter = 0.5
+    let diameterPoints = [0.335, 0.340, 0.345, 0.348, 0.350, 0.353, 0.355, 0.360, 0.366]
+    let locations = [0.00, 0.25, 0.50, 0.75, 1.00, 1.25, 1.50, 1.75, 2.00]
+    let failures: string[] = []
+
+    let flagSets: [boolean, boolean][] = [[false, false], [true, false], [false, true], [true, true]]
+    flagSets.forEach(([G74Functional, G75Functional]) => {
+        ["inline", "end"].forEach(placement => {
+            let overrides: ParameterOverrides = { G74Functional: G74Functional, G75Functional: G75Functional, subroutinePlacement: placement }
+            let params: JobParameters = buildParameters(overrides)
+            let code: string = genCode(stockDiameter, diameterPoints, locations, Object.keys(overrides).map(key => [key, overrides[key]]))
+            let result: SimulationResult = verifyProgram(code, stockDiameter, interpolatePoints(diameterPoints, locations, params), params)
+            let name: string = `G74 ${G74Functional}, G75 ${G75Functional}, ${placement}`
+
+            result.issues.forEach(issue => failures.push(`${name}: line ${issue.line} ${issue.type} - ${issue.message}`))
+
+            // Subroutines placed at the end must all follow M30
+            let lines: string[] = code.split("\n")
+            let endLine: number = lines.indexOf("M30")
+            let labelLines: number[] = lines.map((line, index) => line.charAt(0) === "}" ? index : -1).filter(index => index >= 0)
+            if (G75Functional && labelLines.length !== 2) {
+                failures.push(`${name}: expected 2 subroutines, found ${labelLines.length}`)
+            }
+            if (labelLines.some(index => (placement === "end") !== (index > endLine))) {
+                failures.push(`${name}: subroutine placed incorrectly`)
+            }
+        })
+    })
+
+    // Comparison output must cut the same profile with both versions, each of which starts on fresh stock
+    let params: JobParameters = buildParameters({ compareSection: 2 })
+    let section: Section = interpolatePoints(diameterPoints, locations, params)[1]
+    let lines: string[] = genCode(stockDiameter, diameterPoints, locations, [["compareSection", 2]]).split("\n")
+    // The header's estimate names each version too, so the marker is found by ending where the operation's name does
+    let nativeStart: number = lines.findIndex(line => /native cycle version, load fresh stock at stop\)$/.test(line))
+    let versions: string[] = [lines.slice(0, nativeStart).join("\n") + "\nM30\n", lines.slice(nativeStart).join("\n")]
+    versions.forEach((version, index) => {
+        let result: SimulationResult = verifyProgram(version, stockDiameter, [section], params)
+        result.issues.forEach(issue => failures.push(`Comparison version ${index + 1}: line ${issue.line} ${issue.type} - ${issue.message}`))
+    })
+
+    if (failures.length > 0) {
+        throw new Error("Native cycle test failed:\n" + failures.join("\n"))
+    }
+}
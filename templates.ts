@@ -0,0 +1,144 @@
+/*
+Program templates:
+- The header, setup block and end of each program are laid out by a template, chosen per job with the "template" parameter
+- Templates are held in the job parameters like the tool library, keyed by name, e.g. "templates.acme.header", and setting any
+  part of a template not in the library adds it, starting from the default template
+- Each template is text with a line per program line.  Lines wrapped in parentheses are comments, written in the post's own comment
+  style, and any other line is written as given, for safety blocks and the like
+- Placeholders in braces, such as {partNumber}, are filled in from the job.  A line whose placeholders are all empty is left out,
+  so optional fields such as a revision don't leave empty comments behind
+- Three placeholders stand for whole blocks and must be on a line of their own:
+    - {notes} for the generated notes on the fit, tools, finishing and estimated time, as comments
+    - {setup} for the post's modal setup block
+    - {end} for the post's end of program
+- The default template, in the default parameters, matches the program layout used before templates were introduced
+*/
+
+/**
+ * The parts of a program laid out by a template.
+ */
+interface ProgramTemplate {
+    // Lines at the top of the program, after any warnings
+    header: string
+    // Lines before the first tool is called
+    setup: string
+    // Lines after the last operation
+    footer: string
+}
+
+// Version of the generator, given to templates as {version}
+const GENERATOR_VERSION = "1.0.0"
+
+// Placeholders standing for whole blocks, which are given a line of their own
+const TEMPLATE_BLOCK_PLACEHOLDERS: string[] = ["notes", "setup", "end"]
+
+// Placeholders filled in with a value of the job
+const TEMPLATE_PLACEHOLDERS: string[] = [
+    "jobName", "customer", "partNumber", "revision", "author", "date", "stock", "stockDiameter", "material", "stickout", "units",
+    "sectionCount", "estimatedTime", "postProcessor", "version"
+]
+
+/**
+ * Creates a template for one added to a job, starting from the default template.
+ */
+function newProgramTemplate(): ProgramTemplate {
+    return Object.assign({}, defaultParameters.templates.default)
+}
+
+/**
+ * Finds the placeholders used in a template that aren't known, for checking job parameters.
+ *
+ * @param text The template text.
+ * @return A description of each unknown placeholder, and of each block placeholder not on a line of its own.
+ */
+function templatePlaceholderProblems(text: string): string[] {
+    let problems: string[] = []
+    text.split(/\r?\n/).forEach(line => {
+        let names: string[] = (line.match(/\{[^{}]*\}/g) ?? []).map(placeholder => placeholder.slice(1, -1))
+        names.forEach(name => {
+            if (TEMPLATE_BLOCK_PLACEHOLDERS.indexOf(name) !== -1) {
+                if (line.trim() !== `{${name}}`) {
+                    problems.push(`must have {${name}} on a line of its own`)
+                }
+            }
+            else if (TEMPLATE_PLACEHOLDERS.indexOf(name) === -1) {
+                problems.push(`uses {${name}}, which is not a known placeholder`)
+            }
+        })
+    })
+    return problems
+}
+
+/**
+ * Turns a template into program blocks, filling in its placeholders.
+ *
+ * @param text The template text.
+ * @param values The value of each placeholder, by name.
+ * @param notes The lines given by {notes}, as comments.
+ * @return The blocks, ready to be added to a program.
+ */
+function renderTemplate(text: string, values: { [name: string]: string }, notes: string[]): ToolpathBlock[] {
+    let blocks: ToolpathBlock[] = []
+    text.split(/\r?\n/).forEach(line => {
+        switch (line.trim()) {
+            case "{notes}":
+                notes.forEach(note => blocks.push({ type: "comment", text: note }))
+                return
+            case "{setup}":
+                blocks.push({ type: "setup" })
+                return
+            case "{end}":
+                blocks.push({ type: "stop", stop: "end" })
+                return
+        }
+
+        let placeholders: number = 0
+        let filled: number = 0
+        let rendered: string = line.replace(/\{([^{}]*)\}/g, (match, name) => {
+            placeholders++
+            let value: string = values[name] ?? ""
+            if (value !== "") {
+                filled++
+            }
+            return value
+        })
+        if (placeholders > 0 && filled === 0) {
+            return
+        }
+
+        // Comments are given to the post without their parentheses, so they are written in its own style
+        let comment: RegExpMatchArray | null = rendered.match(/^\s*\(([^()]*)\)\s*$/)
+        blocks.push((comment === null) ? { type: "text", text: rendered } : { type: "comment", text: comment[1] })
+    })
+    return blocks
+}
+
+/**
+ * Finds the value of each template placeholder for a job.
+ *
+ * @param params The job parameters in use.
+ * @param stockDiameter The diameter of the stock, in the units of the program.
+ * @param sectionCount The number of sections the mandrel is machined in.
+ * @param estimate The estimate of the finished toolpath.
+ * @return The value of each placeholder, by name.
+ */
+function templateValues(params: JobParameters, stockDiameter: number, sectionCount: number, estimate: ProgramEstimate): { [name: string]: string } {
+    let date = new Date()
+    return {
+        jobName: params.job.name,
+        customer: params.job.customer,
+        partNumber: params.job.partNumber,
+        revision: params.job.revision,
+        author: params.job.author,
+        date: `${date.getMonth() + 1}.${date.getDate()}.${date.getFullYear()}`,
+        stock: `${stockDiameter} ${params.units} diameter ${(params.material === "") ? "" : params.material + " "}stock`,
+        stockDiameter: String(stockDiameter),
+        material: params.material,
+        stickout: String(params.stickout),
+        units: params.units,
+        sectionCount: String(sectionCount),
+        estimatedTime: formatMinutes(estimate.total.cuttingTime + estimate.total.rapidTime),
+        postProcessor: params.postProcessor,
+        version: GENERATOR_VERSION
+    }
+}
@@ -0,0 +1,57 @@
+/*
+Batch tests:
+- Each variant of a family is generated as its own job, so its program is verified against the variant's own profile, offset,
+  scaled and shortened from the base
+- Combined programs call each part as a subprogram, numbered apart so parts never share subroutines
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+const BASE_DIAMETERS = [0.335, 0.34, 0.345, 0.348, 0.35, 0.353, 0.355, 0.36, 0.366]
+const BASE_LOCATIONS = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
+
+const VARIANT_TABLE = [
+    ["partNumber", "diameterOffset", "scale", "length", "stockDiameter"],
+    ["MD-1", "", "", "", ""],
+    ["MD-2", 0.01, "", "", ""],
+    ["MD-3", "", 1.1, 1.5, 0.6]
+]
+
+test("separate batch programs cut each variant's profile", () => {
+    let params = mandrel.buildParameters({})
+    let variants = mandrel.readVariantTable(VARIANT_TABLE)
+    let programs = mandrel.buildBatchPrograms(0.5, mandrel.readProfileCells(BASE_DIAMETERS, BASE_LOCATIONS), variants, params)
+    assert.deepStrictEqual(programs.map(program => program.name), ["MD-1", "MD-2", "MD-3"])
+
+    let expected = [
+        { stock: 0.5, diameters: BASE_DIAMETERS, locations: BASE_LOCATIONS },
+        { stock: 0.5, diameters: BASE_DIAMETERS.map(diameter => +(diameter + 0.01).toFixed(6)), locations: BASE_LOCATIONS },
+        { stock: 0.6, diameters: BASE_DIAMETERS.slice(0, 7).map(diameter => +(diameter * 1.1).toFixed(6)), locations: BASE_LOCATIONS.slice(0, 7) }
+    ]
+    programs.forEach((program, i) => {
+        let sections = mandrel.interpolatePoints(expected[i].diameters, expected[i].locations, params)
+        let issues = mandrel.verifyProgram(program.code, expected[i].stock, sections, params).issues
+        assert.deepStrictEqual(issues.map(issue => issue.message), [], program.name)
+    })
+})
+
+test("combined batch programs call each part as its own subroutine block", () => {
+    let params = mandrel.buildParameters({ batchOutput: "combined" })
+    let variants = mandrel.readVariantTable(VARIANT_TABLE)
+    let code = mandrel.buildBatchProgram(0.5, mandrel.readProfileCells(BASE_DIAMETERS, BASE_LOCATIONS), variants, params).serialize()
+
+    let calls = Array.from(code.matchAll(/^M98P(\d+)$/gm), match => +match[1])
+    assert.deepStrictEqual(calls, [1000, 2000, 3000])
+    // Stock is loaded between parts, and every part is ended with M99
+    assert.strictEqual(code.match(/^M01\(Load .* stock for .*\)$/gm).length, 2)
+    assert.strictEqual(code.match(/^M99$/gm).length, 3)
+})
+
+test("a variant longer than the base profile is rejected", () => {
+    let variants = mandrel.readVariantTable([["partNumber", "length"], ["MD-9", 3]])
+    let params = mandrel.buildParameters({})
+    assert.throws(() => mandrel.buildBatchPrograms(0.5, mandrel.readProfileCells(BASE_DIAMETERS, BASE_LOCATIONS), variants, params),
+        /Variant row 2: length must not be longer than the base profile/)
+})
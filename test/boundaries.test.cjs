@@ -0,0 +1,87 @@
+/*
+Section boundary tests:
+- Boundaries given with sections.boundaries are used as given, measured along the profile as it was entered, so a profile cut
+  reversed has them measured from its other end
+- Automatic placement keeps boundaries off points where the slope changes by more than sections.maxSlopeChange
+- Given boundaries must increase, lie within the profile and leave no section longer than the stickout
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+const TAPER_DIAMETERS = [0.335, 0.34, 0.345, 0.348, 0.35, 0.353, 0.355, 0.36, 0.366]
+const TAPER_LOCATIONS = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
+
+/**
+ * Generates and verifies a program cut at the given boundaries, returning the messages of any issues found.
+ */
+function verifiedIssues(diameters, locations, params, boundaries) {
+    let code = mandrel.generateProgram(0.5, mandrel.readProfileCells(diameters, locations), params)
+    let sections = mandrel.interpolatePoints(diameters, locations, params, undefined, boundaries)
+    assert.strictEqual(code.match(/^\(Section \d+\)$/gm).length, boundaries.length + 1)
+    return mandrel.verifyProgram(code, 0.5, sections, params).issues.map(issue => issue.message)
+}
+
+/**
+ * Validates a job, returning the messages of its errors.
+ */
+function validationErrors(diameters, locations, params) {
+    let report = new mandrel.ValidationReport()
+    mandrel.validateJob(0.5, mandrel.readProfileCells(diameters, locations), params, report)
+    return report.errors.map(issue => issue.message)
+}
+
+test("given boundaries are used whatever the placement", () => {
+    for (let placement of ["fixed", "auto"]) {
+        let params = mandrel.buildParameters({ "sections.boundaries": "0.75,1.5", "sections.placement": placement })
+        let profile = mandrel.readProfileCells(TAPER_DIAMETERS, TAPER_LOCATIONS)
+        assert.deepStrictEqual(mandrel.sectionBoundaries(profile, params), [0.75, 1.5])
+        assert.deepStrictEqual(verifiedIssues(TAPER_DIAMETERS, TAPER_LOCATIONS, params, [0.75, 1.5]), [])
+    }
+})
+
+test("given boundaries are measured from the other end of a reversed profile", () => {
+    let params = mandrel.buildParameters({ "sections.boundaries": "0.75,1.5" })
+    let profile = mandrel.readProfileCells(TAPER_DIAMETERS, TAPER_LOCATIONS)
+    assert.deepStrictEqual(mandrel.sectionBoundaries(profile, params, true), [0.5, 1.25])
+
+    // Entered largest diameter first, the profile is cut from its last point, which is the taper in the order it is machined
+    let code = mandrel.generateProgram(0.5, mandrel.readProfileCells(TAPER_DIAMETERS.slice().reverse(), TAPER_LOCATIONS), params)
+    let sections = mandrel.interpolatePoints(TAPER_DIAMETERS, TAPER_LOCATIONS, params, undefined, [0.5, 1.25])
+    assert.deepStrictEqual(sections.map(section => section.start), [0, 0.5, 1.25])
+    assert.deepStrictEqual(mandrel.verifyProgram(code, 0.5, sections, params).issues.map(issue => issue.message), [])
+})
+
+test("automatic placement avoids points where the slope changes sharply", () => {
+    // The slope changes by under a degree at 0.6, and by almost 4 degrees at 0.9
+    let diameters = [0.3, 0.31, 0.32, 0.33, 0.38, 0.43, 0.48]
+    let locations = [0, 0.3, 0.6, 0.9, 1.2, 1.5, 1.8]
+    let profile = mandrel.readProfileCells(diameters, locations)
+
+    let params = mandrel.buildParameters({ "sections.placement": "auto" })
+    let boundaries = mandrel.sectionBoundaries(profile, params)
+    assert.strictEqual(boundaries[0], 0.6)
+    assert.deepStrictEqual(verifiedIssues(diameters, locations, params, boundaries), [])
+
+    // Allowing any change of slope, the boundary is put on the furthest point within the stickout
+    let anySlope = mandrel.buildParameters({ "sections.placement": "auto", "sections.maxSlopeChange": 180 })
+    assert.strictEqual(mandrel.sectionBoundaries(profile, anySlope)[0], 0.9)
+})
+
+test("given boundaries must increase", () => {
+    assert.throws(() => mandrel.buildParameters({ "sections.boundaries": "1.5,0.75" }), /sections.boundaries must be locations greater than zero, in increasing order/)
+    assert.throws(() => mandrel.buildParameters({ "sections.boundaries": "0.75,x" }), /sections.boundaries/)
+})
+
+test("given boundaries outside the profile are reported", () => {
+    let params = mandrel.buildParameters({ "sections.boundaries": "1,2.5" })
+    assert.deepStrictEqual(validationErrors(TAPER_DIAMETERS, TAPER_LOCATIONS, params),
+        ["Section boundary 2.5 is not within the profile, which runs from 0 to 2."])
+})
+
+test("given boundaries further apart than the stickout are reported", () => {
+    let params = mandrel.buildParameters({ "sections.boundaries": "0.5" })
+    assert.deepStrictEqual(validationErrors(TAPER_DIAMETERS, TAPER_LOCATIONS, params),
+        ["Section 2 is 1.5 long, longer than the stickout of 1."])
+})
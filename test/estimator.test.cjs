@@ -0,0 +1,65 @@
+/*
+Estimator tests:
+- Estimates are checked against what can be worked out by hand for a simple job: the volume between the stock and the turned
+  profile, the slot cut by the part off tool, and cutting time inversely proportional to the feed
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+const TAPER_DIAMETERS = [0.335, 0.34, 0.345, 0.348, 0.35, 0.353, 0.355, 0.36, 0.366]
+const TAPER_LOCATIONS = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
+
+/**
+ * Estimates the program for the taper with the given parameter overrides.
+ */
+function estimateTaper(overrides) {
+    let program = mandrel.buildProgram(0.5, mandrel.readProfileCells(TAPER_DIAMETERS, TAPER_LOCATIONS), mandrel.buildParameters(overrides))
+    return mandrel.estimateProgram(program)
+}
+
+/**
+ * Finds the volume of a turned profile, as a frustum between each pair of points.
+ */
+function profileVolume(diameters, locations) {
+    let volume = 0
+    for (let i = 1; i < diameters.length; i++) {
+        let a = diameters[i - 1] / 2
+        let b = diameters[i] / 2
+        volume += Math.PI * (locations[i] - locations[i - 1]) * (a * a + a * b + b * b) / 3
+    }
+    return volume
+}
+
+test("the estimate removes the stock less the turned profile", () => {
+    let estimate = estimateTaper({})
+    assert.deepStrictEqual(estimate.operations.map(operation => operation.name), ["Section 1", "Section 2"])
+    assert.strictEqual(estimate.units, "in")
+
+    let expected = Math.PI * 0.25 * 0.25 * 2 - profileVolume(TAPER_DIAMETERS, TAPER_LOCATIONS)
+    assert.ok(Math.abs(estimate.total.removedVolume - expected) < 1e-4, `${estimate.total.removedVolume} removed, ${expected} expected`)
+})
+
+test("the total is the sum of the operations", () => {
+    let estimate = estimateTaper({ partOff: true })
+    for (let field of ["cuttingTime", "rapidTime", "passes", "removedVolume"]) {
+        let sum = estimate.operations.reduce((total, operation) => total + operation[field], 0)
+        assert.ok(Math.abs(estimate.total[field] - sum) < 1e-9, field)
+    }
+})
+
+test("the part off removes a slot the width of its tool", () => {
+    let estimate = estimateTaper({ partOff: true })
+    let partOff = estimate.operations.find(operation => operation.name === "Part Off")
+    assert.ok(partOff !== undefined)
+    assert.ok(Math.abs(partOff.removedVolume - Math.PI * 0.25 * 0.25 * 0.062) < 1e-9)
+})
+
+test("doubling the feed halves the cutting time", () => {
+    let slow = estimateTaper({ feed: 0.002 })
+    let fast = estimateTaper({ feed: 0.004 })
+    assert.strictEqual(fast.total.passes, slow.total.passes)
+    let ratio = fast.total.cuttingTime / slow.total.cuttingTime
+    assert.ok(Math.abs(ratio - 0.5) < 0.01, `ratio ${ratio}`)
+})
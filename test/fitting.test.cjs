@@ -0,0 +1,60 @@
+/*
+Fitting tests:
+- Measured profiles are fitted as set in the job parameters, and the fits checked for the properties each method promises rather
+  than for exact values: a monotone fit never turns back, a least squares fit follows a straight taper through its noise
+- Repeated readings at a location are averaged, and the deviation of the fit from the readings is reported
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+// A taper rising 0.015 per inch, read with up to 0.002 of noise
+const NOISY_DIAMETERS = [0.3, 0.306, 0.304, 0.311, 0.309, 0.316, 0.318]
+const NOISY_LOCATIONS = [0, 0.2, 0.4, 0.6, 0.8, 1, 1.2]
+
+/**
+ * Fits the noisy taper with the given parameter overrides.
+ */
+function fitNoisy(overrides, report = new mandrel.ValidationReport()) {
+    let profile = mandrel.readProfileCells(NOISY_DIAMETERS, NOISY_LOCATIONS)
+    return mandrel.fitProfile(profile, mandrel.buildParameters(overrides), report)
+}
+
+test("a monotone fit only rises along a rising profile", () => {
+    let fit = fitNoisy({ "fit.method": "monotone" })
+    let diameters = fit.profile.diameters
+    assert.strictEqual(diameters.length, NOISY_DIAMETERS.length)
+    assert.ok(diameters.every((diameter, i) => i === 0 || diameter >= diameters[i - 1]), diameters.join(", "))
+    assert.ok(fit.maxDeviation > 0 && fit.maxDeviation <= 0.002)
+})
+
+test("a least squares fit follows a noisy taper, resampled at the pitch", () => {
+    let fit = fitNoisy({ "fit.method": "least squares", "fit.pitch": 0.25 })
+    assert.deepStrictEqual(fit.profile.locations, [0, 0.25, 0.5, 0.75, 1, 1.2])
+    fit.profile.diameters.forEach((diameter, i) => {
+        let taper = 0.3 + 0.015 * fit.profile.locations[i]
+        assert.ok(Math.abs(diameter - taper) <= 0.0015, `${diameter} at ${fit.profile.locations[i]}`)
+    })
+    assert.match(fit.description, /^Profile smoothed by least squares over 0.5 inch and resampled at 0.25 inch pitch from 7 readings/)
+})
+
+test("repeated readings at a location are averaged", () => {
+    let profile = mandrel.readProfileCells([0.3, 0.302, 0.31, 0.32], [0, 0, 0.5, 1])
+    let fit = mandrel.fitProfile(profile, mandrel.buildParameters({ "fit.method": "least squares" }), new mandrel.ValidationReport())
+    assert.deepStrictEqual(fit.profile.locations, [0, 0.5, 1])
+    assert.deepStrictEqual(fit.profile.diameters, [0.301, 0.31, 0.32])
+})
+
+test("a fit further from a reading than the tolerance is warned of against its row", () => {
+    let report = new mandrel.ValidationReport()
+    let fit = fitNoisy({ "fit.method": "monotone", "fit.tolerance": 0.0005 }, report)
+    assert.deepStrictEqual(report.warnings.map(issue => [issue.type, issue.row]), [["fitDeviation", fit.deviationRow]])
+})
+
+test("profiles are used as given when no fit is set", () => {
+    let fit = fitNoisy({})
+    assert.deepStrictEqual(fit.profile.diameters, NOISY_DIAMETERS)
+    assert.strictEqual(fit.maxDeviation, 0)
+    assert.strictEqual(fit.description, "")
+})
@@ -0,0 +1,96 @@
+/*
+Golden program tests:
+- Full programs are generated for representative profiles through the Node build, and compared line for line with the programs
+  kept in test/golden
+- The date a program was generated on is the only line that changes from run to run, so it is left out of the comparison
+- After an intended change to the output, the golden programs are written again with UPDATE_GOLDEN=1 npm test, and the
+  differences reviewed before they are committed
+- Tests are run by npm test with Node's own test runner, against the Node build, and are .cjs so clasp leaves them out of pushes
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const fs = require("fs")
+const path = require("path")
+const mandrel = require("../dist/mandrel.cjs")
+
+const GOLDEN_DIR = path.join(__dirname, "golden")
+
+// Profile measured every 0.25 inch, as used by the sheet's own test
+const TAPER_DIAMETERS = [0.335, 0.340, 0.345, 0.348, 0.350, 0.353, 0.355, 0.360, 0.366]
+const TAPER_LOCATIONS = [0.00, 0.25, 0.50, 0.75, 1.00, 1.25, 1.50, 1.75, 2.00]
+
+const GOLDEN_CASES = [
+    {
+        // Shorter than the stickout, so machined without a pull
+        name: "single-section",
+        stock: 0.5,
+        diameters: [0.335, 0.340, 0.345, 0.348],
+        locations: [0.00, 0.25, 0.50, 0.75],
+        overrides: {}
+    },
+    {
+        // Points fall on each section boundary
+        name: "exact-boundary",
+        stock: 0.5,
+        diameters: TAPER_DIAMETERS,
+        locations: TAPER_LOCATIONS,
+        overrides: {}
+    },
+    {
+        // Boundaries fall between points, so the diameter there is interpolated
+        name: "interpolated-boundary",
+        stock: 0.5,
+        diameters: TAPER_DIAMETERS,
+        locations: TAPER_LOCATIONS,
+        overrides: { stickout: 0.6 }
+    },
+    {
+        // Largest diameter first, so the profile is cut reversed
+        name: "reversed-taper",
+        stock: 0.5,
+        diameters: TAPER_DIAMETERS.slice().reverse(),
+        locations: TAPER_LOCATIONS,
+        overrides: {}
+    },
+    {
+        // Boundaries placed on the profile's points rather than every stickout
+        name: "auto-boundaries",
+        stock: 0.5,
+        diameters: TAPER_DIAMETERS,
+        locations: TAPER_LOCATIONS,
+        overrides: { stickout: 0.6, "sections.placement": "auto" }
+    },
+    {
+        // Blank and non-numeric cells are skipped with a warning, as are spare rows at the end of the range
+        name: "filtered-blank-cells",
+        stock: 0.5,
+        diameters: [0.335, "", 0.345, 0.348, "n/a", 0.353, 0.355, 0.360, 0.366, "", ""],
+        locations: undefined,
+        overrides: {}
+    }
+]
+
+/**
+ * Generates the program of a golden case, with the date it was generated on replaced so runs can be compared.
+ */
+function goldenProgram(goldenCase) {
+    let report = new mandrel.ValidationReport()
+    let params = mandrel.buildParameters(goldenCase.overrides)
+    let profile = mandrel.readProfileCells(goldenCase.diameters, goldenCase.locations, undefined, report, 1, params.pointSpacing)
+    let code = mandrel.generateProgram(goldenCase.stock, profile, params, report)
+    return code.replace(/^\(Executed [\d.]+\)$/m, "(Executed DATE)")
+}
+
+for (let goldenCase of GOLDEN_CASES) {
+    test(`golden program: ${goldenCase.name}`, () => {
+        let goldenPath = path.join(GOLDEN_DIR, goldenCase.name + ".nc")
+        let code = goldenProgram(goldenCase)
+        if (process.env.UPDATE_GOLDEN) {
+            fs.writeFileSync(goldenPath, code)
+            return
+        }
+        assert.ok(fs.existsSync(goldenPath), `${goldenPath} is missing, write it with UPDATE_GOLDEN=1 npm test`)
+        assert.deepStrictEqual(code.split("\n"), fs.readFileSync(goldenPath, "utf8").split("\n"))
+    })
+}
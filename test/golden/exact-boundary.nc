@@ -0,0 +1,124 @@
+(OMalley Brass)
+(1 inch part stickout)
+(0.5 inch diameter stock)
+(T1 OD Roughing Cutter)
+(T2 OD Finishing Cutter)
+(Estimated machine time 3:59, 3:56 feed and 0:03 rapid, 10 passes, 0.2 cu in removed)
+(Section 1 - 2:00, 5 passes, 0.1035 cu in removed)
+(Section 2 - 1:59, 5 passes, 0.0965 cu in removed)
+(Code generation by Jeremy Peplinski)
+(Executed DATE)
+G70G72G90G97G95F0.002
+T1
+(Section 1)
+G94F3
+G01X0.345Z0
+M01(Move stock to appropriate position)
+X0.51Z0.1
+M03S1500
+G95F0.002
+(Roughing Cycle)
+(Simulated G75 Contour cycle)
+Z0F0.002
+X0.4713
+X0.4725Z-0.25
+X0.4738Z-0.5
+X0.4745Z-0.75
+X0.475Z-1
+X0.485
+G00Z0.1
+G01Z0F0.002
+X0.4325
+X0.435Z-0.25
+X0.4375Z-0.5
+X0.439Z-0.75
+X0.44Z-1
+X0.45
+G00Z0.1
+G01Z0F0.002
+X0.3938
+X0.3975Z-0.25
+X0.4012Z-0.5
+X0.4035Z-0.75
+X0.405Z-1
+X0.415
+G00Z0.1
+G01Z0F0.002
+X0.355
+X0.36Z-0.25
+X0.365Z-0.5
+X0.368Z-0.75
+X0.37Z-1
+X0.38
+G00Z0.1
+G01X0.51F0.002
+(Finishing Pass)
+T2
+G00X0.51Z0.1
+G01Z0F0.002
+X0.335
+X0.34Z-0.25
+X0.345Z-0.5
+X0.348Z-0.75
+X0.35Z-1
+X0.36
+G00Z0.1
+X0.51
+M05
+(Section 2)
+T1
+G94F3
+G01X0.36Z0
+M01(Move stock to appropriate position)
+X0.51Z0.1
+M03S1500
+G95F0.002
+(Roughing Cycle)
+(Simulated G75 Contour cycle)
+Z0F0.002
+X0.475
+X0.4758Z-0.25
+X0.4763Z-0.5
+X0.4775Z-0.75
+X0.479Z-1
+X0.489
+G00Z0.1
+G01Z0F0.002
+X0.44
+X0.4415Z-0.25
+X0.4425Z-0.5
+X0.445Z-0.75
+X0.448Z-1
+X0.458
+G00Z0.1
+G01Z0F0.002
+X0.405
+X0.4073Z-0.25
+X0.4088Z-0.5
+X0.4125Z-0.75
+X0.417Z-1
+X0.427
+G00Z0.1
+G01Z0F0.002
+X0.37
+X0.373Z-0.25
+X0.375Z-0.5
+X0.38Z-0.75
+X0.386Z-1
+X0.396
+G00Z0.1
+G01X0.51F0.002
+(Finishing Pass)
+T2
+G00X0.51Z0.1
+G01Z0F0.002
+X0.35
+X0.353Z-0.25
+X0.355Z-0.5
+X0.36Z-0.75
+X0.366Z-1
+X0.376
+G00Z0.1
+X0.51
+M05
+M30
@@ -0,0 +1,117 @@
+(WARNING - Diameter row 2: Empty row ignored.)
+(WARNING - Diameter row 5: "n/a" is not a number, row ignored.)
+(OMalley Brass)
+(1 inch part stickout)
+(0.5 inch diameter stock)
+(T1 OD Roughing Cutter)
+(T2 OD Finishing Cutter)
+(Estimated machine time 3:08, 3:06 feed and 0:03 rapid, 10 passes, 0.1486 cu in removed)
+(Section 1 - 2:00, 5 passes, 0.1013 cu in removed)
+(Section 2 - 1:09, 5 passes, 0.0472 cu in removed)
+(Code generation by Jeremy Peplinski)
+(Executed DATE)
+G70G72G90G97G95F0.002
+T1
+(Section 1)
+G94F3
+G01X0.345Z0
+M01(Move stock to appropriate position)
+X0.51Z0.1
+M03S1500
+G95F0.002
+(Roughing Cycle)
+(Simulated G75 Contour cycle)
+Z0F0.002
+X0.4713
+X0.4738Z-0.25
+X0.4745Z-0.5
+X0.4758Z-0.75
+X0.4763Z-1
+X0.4863
+G00Z0.1
+G01Z0F0.002
+X0.4325
+X0.4375Z-0.25
+X0.439Z-0.5
+X0.4415Z-0.75
+X0.4425Z-1
+X0.4525
+G00Z0.1
+G01Z0F0.002
+X0.3938
+X0.4012Z-0.25
+X0.4035Z-0.5
+X0.4073Z-0.75
+X0.4088Z-1
+X0.4188
+G00Z0.1
+G01Z0F0.002
+X0.355
+X0.365Z-0.25
+X0.368Z-0.5
+X0.373Z-0.75
+X0.375Z-1
+X0.385
+G00Z0.1
+G01X0.51F0.002
+(Finishing Pass)
+T2
+G00X0.51Z0.1
+G01Z0F0.002
+X0.335
+X0.345Z-0.25
+X0.348Z-0.5
+X0.353Z-0.75
+X0.355Z-1
+X0.365
+G00Z0.1
+X0.51
+M05
+(Section 2)
+T1
+G94F3
+G01X0.365Z-0.5
+M01(Move stock to appropriate position)
+X0.51Z-0.4
+M03S1500
+G95F0.002
+(Roughing Cycle)
+(Simulated G75 Contour cycle)
+Z-0.5F0.002
+X0.4763
+X0.4775Z-0.75
+X0.479Z-1
+X0.489
+G00Z-0.4
+G01Z-0.5F0.002
+X0.4425
+X0.445Z-0.75
+X0.448Z-1
+X0.458
+G00Z-0.4
+G01Z-0.5F0.002
+X0.4088
+X0.4125Z-0.75
+X0.417Z-1
+X0.427
+G00Z-0.4
+G01Z-0.5F0.002
+X0.375
+X0.38Z-0.75
+X0.386Z-1
+X0.396
+G00Z-0.4
+G01X0.51F0.002
+(Finishing Pass)
+T2
+G00X0.51Z-0.4
+G01Z-0.5F0.002
+X0.355
+X0.36Z-0.75
+X0.366Z-1
+X0.376
+G00Z-0.4
+X0.51
+Z0.1
+M05
+M30
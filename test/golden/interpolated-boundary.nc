@@ -0,0 +1,215 @@
+(OMalley Brass)
+(0.6 inch part stickout)
+(0.5 inch diameter stock)
+(T1 OD Roughing Cutter)
+(T2 OD Finishing Cutter)
+(Estimated machine time 4:35, 4:31 feed and 0:04 rapid, 20 passes, 0.2 cu in removed)
+(Section 1 - 1:19, 5 passes, 0.063 cu in removed)
+(Section 2 - 1:19, 5 passes, 0.0603 cu in removed)
+(Section 3 - 1:19, 5 passes, 0.0581 cu in removed)
+(Section 4 - 0:38, 5 passes, 0.0185 cu in removed)
+(Code generation by Jeremy Peplinski)
+(Executed DATE)
+G70G72G90G97G95F0.002
+T1
+(Section 1)
+G94F3
+G01X0.345Z0
+M01(Move stock to appropriate position)
+X0.51Z0.1
+M03S1500
+G95F0.002
+(Roughing Cycle)
+(Simulated G75 Contour cycle)
+Z0F0.002
+X0.4713
+X0.4725Z-0.25
+X0.4738Z-0.5
+X0.474Z-0.6
+X0.484
+G00Z0.1
+G01Z0F0.002
+X0.4325
+X0.435Z-0.25
+X0.4375Z-0.5
+X0.4381Z-0.6
+X0.4481
+G00Z0.1
+G01Z0F0.002
+X0.3938
+X0.3975Z-0.25
+X0.4012Z-0.5
+X0.4022Z-0.6
+X0.4122
+G00Z0.1
+G01Z0F0.002
+X0.355
+X0.36Z-0.25
+X0.365Z-0.5
+X0.3662Z-0.6
+X0.3762
+G00Z0.1
+G01X0.51F0.002
+(Finishing Pass)
+T2
+G00X0.51Z0.1
+G01Z0F0.002
+X0.335
+X0.34Z-0.25
+X0.345Z-0.5
+X0.3462Z-0.6
+X0.3562
+G00Z0.1
+X0.51
+M05
+(Section 2)
+T1
+G94F3
+G01X0.3562Z0
+M01(Move stock to appropriate position)
+X0.51Z0.1
+M03S1500
+G95F0.002
+(Roughing Cycle)
+(Simulated G75 Contour cycle)
+Z0F0.002
+X0.474
+X0.4745Z-0.15
+X0.475Z-0.4
+X0.4756Z-0.6
+X0.4856
+G00Z0.1
+G01Z0F0.002
+X0.4381
+X0.439Z-0.15
+X0.44Z-0.4
+X0.4412Z-0.6
+X0.4512
+G00Z0.1
+G01Z0F0.002
+X0.4022
+X0.4035Z-0.15
+X0.405Z-0.4
+X0.4068Z-0.6
+X0.4168
+G00Z0.1
+G01Z0F0.002
+X0.3662
+X0.368Z-0.15
+X0.37Z-0.4
+X0.3724Z-0.6
+X0.3824
+G00Z0.1
+G01X0.51F0.002
+(Finishing Pass)
+T2
+G00X0.51Z0.1
+G01Z0F0.002
+X0.3462
+X0.348Z-0.15
+X0.35Z-0.4
+X0.3524Z-0.6
+X0.3624
+G00Z0.1
+X0.51
+M05
+(Section 3)
+T1
+G94F3
+G01X0.3624Z0
+M01(Move stock to appropriate position)
+X0.51Z0.1
+M03S1500
+G95F0.002
+(Roughing Cycle)
+(Simulated G75 Contour cycle)
+Z0F0.002
+X0.4756
+X0.4758Z-0.05
+X0.4763Z-0.3
+X0.4775Z-0.55
+X0.4778Z-0.6
+X0.4878
+G00Z0.1
+G01Z0F0.002
+X0.4412
+X0.4415Z-0.05
+X0.4425Z-0.3
+X0.445Z-0.55
+X0.4456Z-0.6
+X0.4556
+G00Z0.1
+G01Z0F0.002
+X0.4068
+X0.4073Z-0.05
+X0.4088Z-0.3
+X0.4125Z-0.55
+X0.4134Z-0.6
+X0.4234
+G00Z0.1
+G01Z0F0.002
+X0.3724
+X0.373Z-0.05
+X0.375Z-0.3
+X0.38Z-0.55
+X0.3812Z-0.6
+X0.3912
+G00Z0.1
+G01X0.51F0.002
+(Finishing Pass)
+T2
+G00X0.51Z0.1
+G01Z0F0.002
+X0.3524
+X0.353Z-0.05
+X0.355Z-0.3
+X0.36Z-0.55
+X0.3612Z-0.6
+X0.3712
+G00Z0.1
+X0.51
+Z0.1
+M05
+(Section 4)
+T1
+G94F3
+G01X0.3712Z-0.4
+M01(Move stock to appropriate position)
+X0.51Z-0.3
+M03S1500
+G95F0.002
+(Roughing Cycle)
+(Simulated G75 Contour cycle)
+Z-0.4F0.002
+X0.4778
+X0.479Z-0.6
+X0.489
+G00Z-0.3
+G01Z-0.4F0.002
+X0.4456
+X0.448Z-0.6
+X0.458
+G00Z-0.3
+G01Z-0.4F0.002
+X0.4134
+X0.417Z-0.6
+X0.427
+G00Z-0.3
+G01Z-0.4F0.002
+X0.3812
+X0.386Z-0.6
+X0.396
+G00Z-0.3
+G01X0.51F0.002
+(Finishing Pass)
+T2
+G00X0.51Z-0.3
+G01Z-0.4F0.002
+X0.3612
+X0.366Z-0.6
+X0.376
+G00Z-0.3
+X0.51
+Z0.1
+M05
+M30
@@ -0,0 +1,63 @@
+(OMalley Brass)
+(1 inch part stickout)
+(0.5 inch diameter stock)
+(T1 OD Roughing Cutter)
+(T2 OD Finishing Cutter)
+(Estimated machine time 1:35, 1:33 feed and 0:01 rapid, 5 passes, 0.0783 cu in removed)
+(Section 1 - 1:35, 5 passes, 0.0783 cu in removed)
+(Code generation by Jeremy Peplinski)
+(Executed DATE)
+G70G72G90G97G95F0.002
+T1
+(Section 1)
+G94F3
+G01X0.345Z-0.25
+M01(Move stock to appropriate position)
+X0.51Z-0.15
+M03S1500
+G95F0.002
+(Roughing Cycle)
+(Simulated G75 Contour cycle)
+Z-0.25F0.002
+X0.4713
+X0.4725Z-0.5
+X0.4738Z-0.75
+X0.4745Z-1
+X0.4845
+G00Z-0.15
+G01Z-0.25F0.002
+X0.4325
+X0.435Z-0.5
+X0.4375Z-0.75
+X0.439Z-1
+X0.449
+G00Z-0.15
+G01Z-0.25F0.002
+X0.3938
+X0.3975Z-0.5
+X0.4012Z-0.75
+X0.4035Z-1
+X0.4135
+G00Z-0.15
+G01Z-0.25F0.002
+X0.355
+X0.36Z-0.5
+X0.365Z-0.75
+X0.368Z-1
+X0.378
+G00Z-0.15
+G01X0.51F0.002
+(Finishing Pass)
+T2
+G00X0.51Z-0.15
+G01Z-0.25F0.002
+X0.335
+X0.34Z-0.5
+X0.345Z-0.75
+X0.348Z-1
+X0.358
+G00Z-0.15
+X0.51
+Z0.1
+M05
+M30
@@ -0,0 +1,62 @@
+/*
+Profile file tests:
+- Profiles are read from the text of each file format the command line accepts, and checked point by point
+- CSV headers written by measurement loggers name their columns in several ways, with units and punctuation, and in any order
+- CMM point lists are measured wherever the part sat on the machine, so their locations are taken from the lowest point
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+test("CSV headers are read by the names loggers give their columns", () => {
+    let headers = ["Position (in),Dia [in]", "Z,OD", "Reading,Distance", "pos,value,arc"]
+    for (let header of headers) {
+        let reversed = header.startsWith("Reading")
+        let rows = reversed ? ["0.3,0", "0.31,0.5", "0.33,1"] : ["0,0.3", "0.5,0.31", "1,0.33"]
+        let report = new mandrel.ValidationReport()
+        let profile = mandrel.parseProfileText([header].concat(rows).join("\n"), "csv", report)
+        assert.deepStrictEqual(profile.diameters, [0.3, 0.31, 0.33], header)
+        assert.deepStrictEqual(profile.locations, [0, 0.5, 1], header)
+        assert.deepStrictEqual(profile.rows, [2, 3, 4], header)
+        assert.deepStrictEqual(report.issues, [], header)
+    }
+})
+
+test("a CSV header naming no diameter column is rejected", () => {
+    assert.throws(() => mandrel.parseProfileText("Position,Width\n0,0.3\n1,0.33", "csv"), /must name a diameter column/)
+})
+
+/**
+ * Writes a CMM point list for a profile, with each point on the X axis and the first at the given Z.
+ */
+function cmmList(diameters, spacing, firstZ) {
+    let lines = ["PT X Y Z"]
+    diameters.forEach((diameter, i) => lines.push(`PT${i + 1} ${diameter / 2} 0 ${firstZ + i * spacing}`))
+    return lines.join("\n")
+}
+
+const CMM_DIAMETERS = [0.335, 0.34, 0.345, 0.348, 0.35, 0.353, 0.355, 0.36, 0.366]
+
+test("CMM locations measured from an offset Z start at 0", () => {
+    for (let firstZ of [5, -2, -0.75]) {
+        let report = new mandrel.ValidationReport()
+        let profile = mandrel.parseCmmPoints(cmmList(CMM_DIAMETERS, 0.25, firstZ), report)
+        assert.deepStrictEqual(profile.locations, CMM_DIAMETERS.map((_, i) => i * 0.25))
+        assert.deepStrictEqual(profile.diameters.map(diameter => +diameter.toFixed(6)), CMM_DIAMETERS)
+        assert.deepStrictEqual(report.warnings.map(issue => issue.type), ["offsetLocation"])
+
+        // The offset list is generated and cuts the profile as if it had been measured from 0
+        let params = mandrel.buildParameters({})
+        let code = mandrel.generateProgram(0.5, profile, params, report)
+        let sections = mandrel.interpolatePoints(profile.diameters, profile.locations, params)
+        assert.deepStrictEqual(mandrel.verifyProgram(code, 0.5, sections, params).issues, [])
+    }
+})
+
+test("CMM lists measured from 0 are read without a warning", () => {
+    let report = new mandrel.ValidationReport()
+    let profile = mandrel.parseCmmPoints(cmmList([0.3, 0.32], 0.5, 0), report)
+    assert.deepStrictEqual(profile.locations, [0, 0.5])
+    assert.deepStrictEqual(report.issues, [])
+})
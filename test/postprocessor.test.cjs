@@ -0,0 +1,79 @@
+/*
+Post processor tests:
+- Programs are generated with the Fanuc post and native cycles, and the G71/G70 blocks checked as a control would read them, as
+  the simulator only reads Omniturn programs
+- Every sequence number is given once in the program, and each G70 finishes the blocks its G71 roughed
+- A contour whose diameter rises and falls is given a type II cycle, moving in both axes in its first block
+- Combined batch programs hold each part in an O-number subprogram, called with M98 and ended with M99
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+const FANUC_OVERRIDES = { postProcessor: "fanuc", G75Functional: true }
+
+/**
+ * Generates a Fanuc program for a profile given as diameters and locations.
+ */
+function fanucProgram(diameters, locations, overrides = {}) {
+    let params = mandrel.buildParameters(Object.assign({}, FANUC_OVERRIDES, overrides))
+    let profile = mandrel.readProfileCells(diameters, locations, undefined, new mandrel.ValidationReport(), 1, params.pointSpacing)
+    return mandrel.generateProgram(0.5, profile, params)
+}
+
+/**
+ * Finds the P and Q words of every block of a cycle.
+ */
+function cycleRanges(code, cycle) {
+    let pattern = new RegExp(`^${cycle}P(\\d+)Q(\\d+)`, "gm")
+    return Array.from(code.matchAll(pattern), match => ({ first: +match[1], last: +match[2] }))
+}
+
+test("Fanuc sequence numbers are never reused, even with 100 or more points in a section", () => {
+    // 0.01 apart, so each 1 inch section holds 101 points
+    let locations = Array.from({ length: 201 }, (_, i) => +(i * 0.01).toFixed(2))
+    let diameters = locations.map(location => +(0.3 + location * 0.05).toFixed(4))
+    let code = fanucProgram(diameters, locations)
+
+    let numbers = Array.from(code.matchAll(/^N(\d+)/gm), match => +match[1])
+    assert.ok(numbers.length > 200)
+    assert.strictEqual(new Set(numbers).size, numbers.length, "a sequence number is given twice")
+
+    let roughing = cycleRanges(code, "G71")
+    let finishing = cycleRanges(code, "G70")
+    assert.strictEqual(roughing.length, 2)
+    assert.deepStrictEqual(finishing, roughing)
+    for (let range of roughing) {
+        assert.match(code, new RegExp(`^N${range.first}G00X`, "m"))
+        assert.match(code, new RegExp(`^N${range.last}[GX]`, "m"))
+    }
+})
+
+test("Fanuc contours rising and falling in diameter use a type II cycle", () => {
+    let code = fanucProgram([0.3, 0.35, 0.32, 0.4], [0, 0.25, 0.5, 0.75])
+    let range = cycleRanges(code, "G71")[0]
+    assert.match(code, new RegExp(`^N${range.first}G00X[\\d.]+W0\\.$`, "m"))
+
+    let taper = fanucProgram([0.3, 0.32, 0.35, 0.4], [0, 0.25, 0.5, 0.75])
+    let taperRange = cycleRanges(taper, "G71")[0]
+    assert.match(taper, new RegExp(`^N${taperRange.first}G00X[\\d.]+$`, "m"))
+})
+
+test("Fanuc combined batch programs call each part as an O-number subprogram", () => {
+    let params = mandrel.buildParameters(Object.assign({ batchOutput: "combined" }, FANUC_OVERRIDES))
+    let profile = mandrel.readProfileCells([0.335, 0.34, 0.345, 0.348], [0, 0.25, 0.5, 0.75])
+    let variants = mandrel.readVariantTable([["partNumber", "diameterOffset"], ["A", 0], ["B", 0.01]])
+    let code = mandrel.buildBatchProgram(0.5, profile, variants, params).serialize()
+
+    let calls = Array.from(code.matchAll(/^M98P(\d+)$/gm), match => +match[1])
+    assert.strictEqual(calls.length, 2)
+    for (let id of calls) {
+        let label = "O" + ("000" + id).slice(-4)
+        let start = code.indexOf("\n" + label + "\n")
+        assert.ok(start > code.indexOf("M30\n"), `${label} is not written after the main program`)
+        assert.match(code.slice(start), /^M99$/m)
+    }
+    let numbers = Array.from(code.matchAll(/^N(\d+)/gm), match => +match[1])
+    assert.strictEqual(new Set(numbers).size, numbers.length, "a sequence number is given twice")
+})
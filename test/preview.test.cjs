@@ -0,0 +1,71 @@
+/*
+Preview tests:
+- The preview draws the program the job generates, so its code is checked against generateProgram
+- Each move keeps the line of the program it comes from, so every move is checked against the words of its line, and every
+  move of the program is checked to be drawn
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+const TAPER_DIAMETERS = [0.335, 0.34, 0.345, 0.348, 0.35, 0.353, 0.355, 0.36, 0.366]
+const TAPER_LOCATIONS = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
+
+/**
+ * Leaves the date out of program lines, so programs built at different times can be compared.
+ */
+function undated(lines) {
+    return lines.map(line => line.replace(/^\(Executed [\d.]+\)$/, "(Executed DATE)"))
+}
+
+test("the preview's moves match the lines of the program", () => {
+    for (let overrides of [{}, { G75Functional: true }, { "tools.T2.noseRadius": 0.01, stickout: 0.6 }]) {
+        let params = mandrel.buildParameters(overrides)
+        let profile = mandrel.readProfileCells(TAPER_DIAMETERS, TAPER_LOCATIONS)
+        let preview = mandrel.buildPreview(0.5, profile, params)
+        assert.deepStrictEqual(undated(preview.code), undated(mandrel.generateProgram(0.5, profile, params).split("\n")), JSON.stringify(overrides))
+
+        // Moves are drawn in the order of the program, each ending at the diameter its line gives to the printed precision, other
+        // than the passes drawn for a native cycle, which all keep the cycle's line
+        let lines = preview.moves.map(move => move.line)
+        assert.ok(lines.every((line, i) => i === 0 || line >= lines[i - 1]), JSON.stringify(overrides))
+        for (let move of preview.moves) {
+            let words = preview.code[move.line - 1].replace(/\(.*\)/, "")
+            let x = words.match(/X([-\d.]+)/)
+            if (/^G7[45]/.test(words) || x === null) {
+                continue
+            }
+            let end = move.points[move.points.length - 1]
+            assert.ok(Math.abs(2 * end[1] - +x[1]) <= Math.pow(10, -params.decimals) / 2 + 1e-9, `line ${move.line} "${words}" drawn to diameter ${2 * end[1]}`)
+        }
+
+        // Only the first move of each tool is left out, as the tool's position is unknown until then.  Contour subroutines hold
+        // no moves of their own
+        let drawn = new Set(lines)
+        let toolChanged = false
+        let subroutine = false
+        preview.code.forEach((line, index) => {
+            let words = line.replace(/\(.*\)/, "")
+            if (/^\}\d/.test(words) || /^M99/.test(words)) {
+                subroutine = /^\}/.test(words)
+            }
+            else if (/^T\d/.test(words)) {
+                toolChanged = true
+            }
+            else if (/[XZ][-\d.]/.test(words) && !subroutine) {
+                assert.ok(drawn.has(index + 1) || toolChanged, `line ${index + 1} "${line}" is not drawn`)
+                toolChanged = false
+            }
+        })
+    }
+})
+
+test("the preview reports the warnings of the job once", () => {
+    let params = mandrel.buildParameters({})
+    let report = new mandrel.ValidationReport()
+    let preview = mandrel.buildPreview(0.5, mandrel.readProfileCells([0.3, 0.32], [0, 2]), params, report)
+    assert.ok(preview.warnings.length > 0)
+    assert.deepStrictEqual(preview.warnings, report.warnings.map(issue => mandrel.ValidationReport.describe(issue)))
+    assert.strictEqual(new Set(preview.warnings).size, preview.warnings.length)
+})
@@ -0,0 +1,80 @@
+/*
+Program reader tests:
+- Generated programs are read back into profiles, which must match the profiles they were generated from, with any section
+  placement and with the overlap between sections read only once
+- Reversed profiles are read in the order they were machined, from the end cut first
+- Reading a program and generating it again with the same parameters gives the same program
+- Finishing passes cut with geometric nose radius compensation are moved back from the tool tip onto the profile, which is found
+  to within a printed unit as the tip path is rounded toward the material
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+const TAPER_DIAMETERS = [0.335, 0.34, 0.345, 0.348, 0.35, 0.353, 0.355, 0.36, 0.366]
+const TAPER_LOCATIONS = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
+
+/**
+ * Generates a program for a profile, with the date left out so programs can be compared.
+ */
+function programFor(stock, profile, params) {
+    return mandrel.generateProgram(stock, profile, params).replace(/^\(Executed [\d.]+\)$/m, "(Executed DATE)")
+}
+
+test("a generated program is read back into its profile", () => {
+    let cases = [
+        { stickout: 1 },
+        { stickout: 0.6 },
+        { stickout: 0.6, "sections.placement": "auto" },
+        { "sections.boundaries": "0.75,1.5" },
+        { G75Functional: true }
+    ]
+    for (let overrides of cases) {
+        let params = mandrel.buildParameters(overrides)
+        let code = programFor(0.5, mandrel.readProfileCells(TAPER_DIAMETERS, TAPER_LOCATIONS), params)
+        let read = mandrel.readProgramProfile(code, params)
+        assert.deepStrictEqual(read.profile.diameters, TAPER_DIAMETERS, JSON.stringify(overrides))
+        assert.deepStrictEqual(read.profile.locations, TAPER_LOCATIONS, JSON.stringify(overrides))
+        assert.strictEqual(read.stockDiameter, 0.5)
+    }
+})
+
+test("a reversed profile is read back in the order it was machined", () => {
+    let params = mandrel.buildParameters({})
+    let code = programFor(0.5, mandrel.readProfileCells(TAPER_DIAMETERS.slice().reverse(), TAPER_LOCATIONS), params)
+    let read = mandrel.readProgramProfile(code, params)
+    assert.deepStrictEqual(read.profile.diameters, TAPER_DIAMETERS)
+    assert.deepStrictEqual(read.profile.locations, TAPER_LOCATIONS)
+})
+
+test("a program read back and generated again is unchanged", () => {
+    let params = mandrel.buildParameters({ "sections.boundaries": "0.75,1.5" })
+    let code = programFor(0.5, mandrel.readProfileCells(TAPER_DIAMETERS, TAPER_LOCATIONS), params)
+    let read = mandrel.readProgramProfile(code, params)
+    assert.strictEqual(read.sectionCount, 3)
+    assert.strictEqual(programFor(read.stockDiameter, read.profile, params), code)
+})
+
+test("a nose radius compensated program is read back into its profile", () => {
+    let params = mandrel.buildParameters({ "tools.T2.noseRadius": 0.01 })
+    let code = programFor(1, mandrel.readProfileCells([0.2, 0.7], [0, 2]), params)
+    assert.match(code, /geometric nose radius compensation/)
+    let read = mandrel.readProgramProfile(code, params)
+    assert.deepStrictEqual(read.profile.diameters, [0.2, 0.7])
+    assert.deepStrictEqual(read.profile.locations, [0, 2])
+
+    for (let overrides of [{ "finishing.direction": "away from collet" }, { "tools.T2.orientation": 2 }, { "tools.T2.noseRadius": 0.004 }]) {
+        let compensated = mandrel.buildParameters(Object.assign({ "tools.T2.noseRadius": 0.01 }, overrides))
+        let taper = mandrel.readProgramProfile(programFor(0.5, mandrel.readProfileCells(TAPER_DIAMETERS, TAPER_LOCATIONS), compensated), compensated)
+        assert.deepStrictEqual(taper.profile.locations, TAPER_LOCATIONS, JSON.stringify(overrides))
+        taper.profile.diameters.forEach((diameter, i) => assert.ok(Math.abs(diameter - TAPER_DIAMETERS[i]) <= 0.0001 + 1e-9,
+            `${JSON.stringify(overrides)}: ${diameter} read at ${TAPER_LOCATIONS[i]}, expected ${TAPER_DIAMETERS[i]}`))
+    }
+})
+
+test("a nose radius compensated program isn't read without the finishing tool's nose radius", () => {
+    let code = programFor(1, mandrel.readProfileCells([0.2, 0.7], [0, 2]), mandrel.buildParameters({ "tools.T2.noseRadius": 0.01 }))
+    assert.throws(() => mandrel.readProgramProfile(code, mandrel.buildParameters({})), /nose radius of the finishing tool T2 must be given/)
+    assert.throws(() => mandrel.readProgramProfile(code, mandrel.buildParameters({ "tools.T2.noseRadius": 0.02 })), /cut with a 0.01 nose radius/)
+})
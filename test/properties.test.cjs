@@ -0,0 +1,117 @@
+/*
+Property tests:
+- Profiles and contours are generated at random from a fixed seed, so every run checks the same cases and a failure can be
+  reproduced, and the generator's invariants are checked for each
+- interpolatePoints: every section is no longer than the stickout, and each section starts where the one before it ends, so the
+  sections join into the profile without a step.  This holds for automatically placed boundaries too, which also keep each
+  section within the slenderness limit
+- genMultiPassPoints: no pass cuts deeper than the depth of cut per side below the pass before it, and the last pass is the
+  target contour itself
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+// Number of random cases checked for each property
+const CASE_COUNT = 200
+
+// Allowed error of computed lengths and diameters
+const EPSILON = 1e-9
+
+/**
+ * Creates a generator of random numbers in [0, 1) from a seed, as mulberry32.
+ */
+function seededRandom(seed) {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+/**
+ * Makes a random profile, with points at increasing locations from 0, sometimes landing on a section boundary.
+ */
+function randomProfile(random, stickout) {
+    let diameters = []
+    let locations = []
+    let count = 2 + Math.floor(random() * 20)
+    let location = 0
+    for (let i = 0; i < count; i++) {
+        diameters.push(+(0.2 + random() * 0.25).toFixed(4))
+        locations.push(location)
+        location = (random() < 0.2) ? (Math.floor(location / stickout) + 1) * stickout : +(location + 0.05 + random() * 0.4).toFixed(4)
+    }
+    return { diameters: diameters, locations: locations }
+}
+
+test("interpolatePoints keeps sections within the stickout and joined end to end", () => {
+    let random = seededRandom(1)
+    for (let n = 0; n < CASE_COUNT; n++) {
+        let stickout = [0.5, 0.6, 0.75, 1][Math.floor(random() * 4)]
+        let blendLength = (random() < 0.5) ? 0 : 0.05
+        let placement = (random() < 0.5) ? "fixed" : "auto"
+        let maxSlenderness = (random() < 0.5) ? 0 : 1 + random() * 2
+        let params = mandrel.buildParameters({
+            stickout: stickout,
+            "spacing.blendLength": blendLength,
+            "sections.placement": placement,
+            "sections.maxSlenderness": maxSlenderness
+        })
+        let profile = randomProfile(random, stickout)
+        let radii = profile.diameters.map(() => 0)
+        let boundaries = mandrel.sectionBoundaries({ diameters: profile.diameters, locations: profile.locations, radii: radii, rows: [] }, params)
+        let sections = mandrel.interpolatePoints(profile.diameters, profile.locations, params, radii, boundaries)
+        let description = `case ${n}: ${JSON.stringify(profile)} with stickout ${stickout}, ${placement} placement`
+
+        if (placement === "fixed") {
+            assert.strictEqual(sections.length, Math.ceil(Math.max(...profile.locations) / stickout), description)
+        }
+        sections.forEach((section, i) => {
+            assert.ok(section.length <= stickout + EPSILON, `${description}, section ${i + 1} is ${section.length} long`)
+            if (placement === "auto" && maxSlenderness > 0) {
+                let smallest = Math.min(...section.points.filter(point => point.z >= -EPSILON).map(point => point.x))
+                assert.ok(section.length <= maxSlenderness * smallest + 1e-6, `${description}, section ${i + 1} is too slender`)
+            }
+            if (i === 0) {
+                return
+            }
+            let previous = sections[i - 1]
+            let end = previous.points[previous.points.length - 1]
+            let start = section.points.find(point => Math.abs(point.z) < EPSILON)
+            assert.ok(start !== undefined, `${description}, section ${i + 1} has no point at its start`)
+            assert.ok(Math.abs(end.z - previous.length) < EPSILON, `${description}, section ${i} doesn't end at its length`)
+            assert.ok(Math.abs(start.x - end.x) < EPSILON, `${description}, sections ${i} and ${i + 1} step from ${end.x} to ${start.x}`)
+        })
+    }
+})
+
+test("genMultiPassPoints cuts no deeper than I per pass and finishes on the contour", () => {
+    let random = seededRandom(2)
+    for (let n = 0; n < CASE_COUNT; n++) {
+        let points = []
+        let count = 2 + Math.floor(random() * 15)
+        for (let i = 0; i < count; i++) {
+            points.push(new mandrel.DimensionPoint(+(0.1 + random() * 0.35).toFixed(4), -i * 0.1))
+        }
+        let startX = Math.max(...points.map(point => point.x)) + random() * 0.2
+        let I = 0.005 + random() * 0.04
+        let passes = mandrel.genMultiPassPoints(points, startX, I)
+        let description = `case ${n}: ${points.length} points from ${startX} with I ${I}`
+
+        assert.ok(passes.length >= 1, description)
+        let previous = points.map(() => startX)
+        passes.forEach((pass, p) => {
+            assert.strictEqual(pass.length, points.length, description)
+            pass.forEach((point, i) => {
+                assert.strictEqual(point.z, points[i].z, description)
+                let depth = (previous[i] - point.x) / 2
+                assert.ok(depth <= I + EPSILON, `${description}, pass ${p + 1} cuts ${depth} deep at point ${i + 1}`)
+            })
+            previous = pass.map(point => point.x)
+        })
+        assert.deepStrictEqual(passes[passes.length - 1], points, description)
+    }
+})
@@ -0,0 +1,99 @@
+/*
+Simulator tests:
+- verifyProgram turns the stock along a program's toolpath and compares the finished diameters with the profile, so it is checked
+  to catch a program that cuts the wrong size
+- Programs are generated over combinations of the options that change how a section is cut, and each is verified, as problems
+  such as a cut deeper than the tool allows often only show with a particular mix of options
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+const PROFILES = {
+    // Rises steadily over two sections
+    taper: {
+        diameters: [0.335, 0.34, 0.345, 0.348, 0.35, 0.353, 0.355, 0.36, 0.366],
+        locations: [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
+    },
+    // Rises and falls, so roughing passes cut the dip separately
+    belly: {
+        diameters: [0.3, 0.36, 0.38, 0.36, 0.4, 0.42],
+        locations: [0, 0.3, 0.6, 0.9, 1.3, 1.6]
+    }
+}
+
+// Options varied together, each cut with every value of the others
+const OPTIONS = {
+    roughingStrategy: ["scaled", "step down"],
+    G75Functional: [false, true],
+    "finishing.semiFinish": [false, true],
+    "finishing.direction": ["toward collet", "away from collet"],
+    "tools.T1.noseRadius": [0, 0.015],
+    "tools.T2.noseRadius": [0, 0.01]
+}
+
+/**
+ * Lists every combination of the values of a set of options, as parameter overrides.
+ */
+function optionCombinations(options) {
+    let combinations = [{}]
+    for (let [key, values] of Object.entries(options)) {
+        combinations = combinations.flatMap(combination => values.map(value => Object.assign({}, combination, { [key]: value })))
+    }
+    return combinations
+}
+
+/**
+ * Generates and verifies a program, returning its code and the messages of any issues found.
+ */
+function verifiedProgram(stock, profile, overrides) {
+    let params = mandrel.buildParameters(overrides)
+    let code = mandrel.generateProgram(stock, mandrel.readProfileCells(profile.diameters, profile.locations), params)
+    let sections = mandrel.interpolatePoints(profile.diameters, profile.locations, params)
+    let issues = mandrel.verifyProgram(code, stock, sections, params).issues.map(issue => issue.message)
+    return { code: code, issues: issues }
+}
+
+test("verifyProgram passes a generated program", () => {
+    assert.deepStrictEqual(verifiedProgram(0.5, PROFILES.taper, {}).issues, [])
+})
+
+test("verifyProgram reports a finishing pass cut undersize", () => {
+    let params = mandrel.buildParameters({})
+    let profile = PROFILES.taper
+    let code = mandrel.generateProgram(0.5, mandrel.readProfileCells(profile.diameters, profile.locations), params)
+    let finishStart = code.indexOf("(Finishing Pass)")
+    let edited = code.slice(0, finishStart) + code.slice(finishStart).replace("X0.34Z-0.25", "X0.338Z-0.25")
+    assert.notStrictEqual(edited, code)
+
+    let sections = mandrel.interpolatePoints(profile.diameters, profile.locations, params)
+    let issues = mandrel.verifyProgram(edited, 0.5, sections, params).issues
+    assert.deepStrictEqual(issues.map(issue => [issue.type, issue.section, issue.message]),
+        [["diameterMismatch", 1, "Diameter at z = 0.25 is 0.338, expected 0.34"]])
+})
+
+test("programs cut to size with every combination of cutting options", () => {
+    for (let [name, profile] of Object.entries(PROFILES)) {
+        for (let overrides of optionCombinations(OPTIONS)) {
+            let issues = verifiedProgram(0.5, profile, overrides).issues
+            assert.deepStrictEqual(issues, [], `${name} with ${JSON.stringify(overrides)}`)
+        }
+    }
+})
+
+test("step down roughing cuts constant depth levels down to the contour", () => {
+    let scaled = verifiedProgram(0.5, PROFILES.belly, {})
+    let stepDown = verifiedProgram(0.5, PROFILES.belly, { roughingStrategy: "step down" })
+    assert.notStrictEqual(stepDown.code, scaled.code)
+
+    // Each pass feeds down to its level and along it, so the levels are the diameters fed to at the start of each cut, leaving out
+    // the move clear of the stock after roughing
+    let roughing = stepDown.code.slice(stepDown.code.indexOf("(Roughing Cycle)"), stepDown.code.indexOf("(Finishing Pass)"))
+    let levels = Array.from(new Set(Array.from(roughing.matchAll(/^G01X([\d.]+)F/gm), match => +match[1]))).filter(level => level < 0.5)
+    let steps = levels.slice(1).map((level, i) => +(levels[i] - level).toFixed(4))
+    assert.ok(steps.length > 2)
+    // The last pass follows the contour, so only the steps down to the levels above it are equal
+    assert.ok(steps.every(step => step > 0 && step <= 0.04), `levels ${levels.join(", ")}`)
+    assert.ok(steps.slice(0, -1).every(step => step === steps[0]), `levels ${levels.join(", ")}`)
+})
@@ -0,0 +1,57 @@
+/*
+Tool tests:
+- Programs with geometric nose radius compensation are generated and simulated, and the finished diameters checked against the
+  profile, so an offset path that cuts into the part or rounds the wrong way is caught
+- The compensated path is rounded toward the material, so no printed point of it is undersize
+- A roughing tool with a larger nose radius than the finishing tool leaves a fillet where each section ends, which the finishing
+  pass must cut within its depth, with either roughing strategy
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+/**
+ * Generates and simulates a program, returning the issues found.
+ */
+function verifiedIssues(stock, diameters, locations, overrides) {
+    let params = mandrel.buildParameters(overrides)
+    let profile = mandrel.readProfileCells(diameters, locations)
+    let code = mandrel.generateProgram(stock, profile, params)
+    return mandrel.verifyProgram(code, stock, mandrel.interpolatePoints(diameters, locations, params), params).issues
+}
+
+test("a nose radius compensated taper finishes to size", () => {
+    for (let length of [0.75, 1, 2]) {
+        for (let noseRadius of [0.004, 0.01, 0.02]) {
+            let overrides = { noseCompensation: "geometric", "tools.T2.noseRadius": noseRadius }
+            let issues = verifiedIssues(1, [0.2, 0.7], [0, length], overrides)
+            assert.deepStrictEqual(issues.map(issue => issue.message), [], `${length} long taper, ${noseRadius} nose radius`)
+        }
+    }
+})
+
+test("a nose radius compensated profile with an arc finishes to size", () => {
+    let params = mandrel.buildParameters({ noseCompensation: "geometric", "tools.T2.noseRadius": 0.01 })
+    let diameters = [0.3, 0.4, 0.4]
+    let locations = [0, 0.3, 0.8]
+    let profile = mandrel.readProfileCells(diameters, locations, [0, 0.5, 0])
+    let code = mandrel.generateProgram(0.5, profile, params)
+    assert.match(code, /^G0[23]/m)
+    let sections = mandrel.interpolatePoints(diameters, locations, params, [0, 0.5, 0])
+    assert.deepStrictEqual(mandrel.verifyProgram(code, 0.5, sections, params).issues.map(issue => issue.message), [])
+})
+
+test("a roughing nose radius is allowed for in the finishing allowance", () => {
+    for (let strategy of ["scaled", "step down"]) {
+        let overrides = { roughingStrategy: strategy, "tools.T1.noseRadius": 0.015 }
+        let issues = verifiedIssues(1, [0.2, 0.7], [0, 2], overrides)
+        assert.deepStrictEqual(issues.map(issue => issue.message), [], `${strategy} roughing`)
+    }
+})
+
+test("a roughing nose radius leaving more than the finishing tool can cut is rejected", () => {
+    assert.throws(() => mandrel.buildParameters({ "tools.T1.noseRadius": 0.025 }), /fillet left by the roughing tool's nose radius/)
+    assert.throws(() => mandrel.buildParameters({ "tools.T1.noseRadius": 0.015, "finishing.allowance": 0.01 }), /fillet/)
+    assert.doesNotThrow(() => mandrel.buildParameters({ "tools.T1.noseRadius": 0.015, "finishing.allowance": 0.005 }))
+})
@@ -0,0 +1,44 @@
+/*
+Validation tests:
+- Jobs with problems in their inputs are checked, and each problem is reported against the input and row it was found in rather
+  than failing part way through generation
+*/
+
+const test = require("node:test")
+const assert = require("node:assert")
+const mandrel = require("../dist/mandrel.cjs")
+
+/**
+ * Validates a job, returning its issues described with their cell references.
+ */
+function validationIssues(stock, diameters, locations, overrides = {}) {
+    let report = new mandrel.ValidationReport()
+    let params = mandrel.buildParameters(overrides)
+    let profile = mandrel.readProfileCells(diameters, locations, undefined, report, 1, params.pointSpacing)
+    mandrel.validateJob(stock, profile, params, report)
+    return report.issues.map(issue => ({ type: issue.type, description: mandrel.ValidationReport.describe(issue) }))
+}
+
+test("a profile starting past 0 is reported against its first row", () => {
+    for (let start of [0.5, 1.5]) {
+        let issues = validationIssues(0.5, [0.3, 0.32, 0.34], [start, start + 0.5, start + 1])
+        assert.deepStrictEqual(issues, [{
+            type: "offsetLocation",
+            description: `Location row 1: Profile starts at location ${start}, locations must be measured from 0 at its end.`
+        }])
+    }
+})
+
+test("negative locations are reported against their rows", () => {
+    let issues = validationIssues(0.5, [0.3, 0.31, 0.32, 0.34], [-0.4, -0.2, 0.3, 0.8])
+    assert.deepStrictEqual(issues.map(issue => issue.description), [
+        "Location row 1: Location -0.4 is negative, locations must be measured from 0 at the end of the profile.",
+        "Location row 2: Location -0.2 is negative, locations must be measured from 0 at the end of the profile."
+    ])
+})
+
+test("a profile with an offset start is not generated", () => {
+    let params = mandrel.buildParameters({})
+    let profile = mandrel.readProfileCells([0.3, 0.32, 0.34], [1.5, 2, 2.5])
+    assert.throws(() => mandrel.generateProgram(0.5, profile, params), { name: "ValidationError" })
+})
@@ -0,0 +1,554 @@
+/*
+Tools and nose radius compensation:
+- Jobs draw their tools from a library held in the job parameters, keyed by tool number as "T1", "T2" and so on
+- Each tool has a type (rough turning, finish turning, part off or center drill) and its own offset, feed, rpm, maximum depth and nose radius
+    - Feed, rpm and depth left at 0 fall back to the job's material, or its feed, rpm and depths.max if none is given,
+      so a library can be shared between jobs
+- Separate tools can be used for roughing and finishing each section, with part off as an optional last operation
+- Turning tools are described by their nose radius and orientation, using the standard imaginary tool nose numbers (0 to 9)
+- Programs position the imaginary tool tip, the corner of the square around the nose, which only touches the part correctly on faces and diameters
+- For geometric compensation the finishing contour is offset by the nose radius, so the nose is tangent to the profile everywhere:
+    - Lines and arcs are moved out along their normals
+    - Outside corners are rolled around with an arc about the corner, or a line where the arc would be too small to matter
+    - Inside corners are trimmed where the offset lines or arcs meet
+    - The path is ended where the nose would pass the end of the contour, so stock beyond it (the next section) is never cut
+    - The nose center path is then shifted to the imaginary tip, and rounded to the printed precision toward the material, so
+      rounding can leave the part oversize by up to a printed unit but never undersize
+- Programs read back are moved from the tool tip onto the contour by undoing these steps, so are found to within a printed unit
+- For controller compensation the profile is programmed directly inside G42/G40, and the control applies the radius from its own offset table
+- Geometry is worked on radius against z, as elsewhere, with the material on the left of the cutting direction (toward -Z, above the part)
+*/
+
+/**
+ * A tool as held in the library of the job parameters.
+ */
+interface ToolDefinition {
+    // One of TOOL_TYPES
+    type: string
+    // Offset register used with the tool, normally the same as its number
+    offset: number
+    // Feed, speed and maximum depth of cut on diameter, or 0 to use the material's or job's values
+    feed: number
+    rpm: number
+    maxDepth: number
+    noseRadius: number
+    // Imaginary tool nose number, 3 being a standard OD turning tool cutting toward the collet
+    orientation: number
+    // Steepest angle from the Z axis, in degrees, that the tool can feed down into the part toward the collet, set by the
+    // clearance behind its cutting edge
+    plungeAngle: number
+    // Blade width of a part off tool, which is set to its edge facing the part
+    width: number
+}
+
+/**
+ * A library tool in use, with its number and with the material's or job's values filled in for any left at 0.
+ */
+interface Tool extends ToolDefinition {
+    number: number
+    // Surface speed matching rpm at the diameter cut, used for constant surface speed output
+    surfaceSpeed: number
+}
+
+// Names of the tool types, as used in the tool library
+const TOOL_TYPES: string[] = ["rough turning", "finish turning", "part off", "center drill"]
+
+// Types that can cut a profile, for either roughing or finishing
+const TURNING_TOOL_TYPES: string[] = ["rough turning", "finish turning"]
+
+// Descriptions of each tool type for program headers
+const TOOL_TYPE_DESCRIPTIONS: { [type: string]: string } = {
+    "rough turning": "OD Roughing Cutter",
+    "finish turning": "OD Finishing Cutter",
+    "part off": "Part Off Tool",
+    "center drill": "Center Drill"
+}
+
+// Names of the nose radius compensation modes, as used in job parameters
+const NOSE_COMPENSATION_MODES: string[] = ["geometric", "controller"]
+
+/**
+ * Creates a library entry for a tool not in the default library, which is a sharp turning tool using the job's feeds and depths.
+ *
+ * @param number The tool number, which is also used as its offset.
+ * @return A new tool definition.
+ */
+function newToolDefinition(number: number): ToolDefinition {
+    return { type: "rough turning", offset: number, feed: 0, rpm: 0, maxDepth: 0, noseRadius: 0, orientation: 3, plungeAngle: 30, width: 0 }
+}
+
+/**
+ * Looks up a tool in the library of a job, filling in the feed, rpm and depth where the tool doesn't give its own.
+ * These come from the job's material if it has one, or otherwise the job's feed, rpm and depths.max.
+ *
+ * @param params The job parameters holding the library.
+ * @param number The tool number.
+ * @param diameter Optional, the diameter to be cut, which sets the speed taken from a material.  The job's rpm is used without it.
+ * @return The tool as it is to be used.
+ */
+function getTool(params: JobParameters, number: number, diameter?: number): Tool {
+    let definition: ToolDefinition | undefined = params.tools["T" + number]
+    if (definition === undefined) {
+        throw new RangeError(`Tool ${number} is not in the tool library.`)
+    }
+    let material: MaterialDefinition | undefined = materialInUnits(MATERIALS[params.material], params.units)
+
+    let rpm: number = params.rpm
+    let surfaceSpeed: number = (diameter === undefined) ? 0 : surfaceSpeedForRpm(params.rpm, diameter, params.units)
+    if (definition.rpm > 0) {
+        rpm = definition.rpm
+        surfaceSpeed = (diameter === undefined) ? 0 : surfaceSpeedForRpm(rpm, diameter, params.units)
+    }
+    else if (material !== undefined && diameter !== undefined) {
+        rpm = rpmForSurfaceSpeed(material.sfm, diameter, params.maxRpm, params.units)
+        surfaceSpeed = material.sfm
+    }
+
+    return {
+        number: number,
+        type: definition.type,
+        offset: definition.offset,
+        feed: (definition.feed > 0) ? definition.feed : (material !== undefined) ? material.chipLoad : params.feed,
+        rpm: rpm,
+        surfaceSpeed: surfaceSpeed,
+        maxDepth: (definition.maxDepth > 0) ? definition.maxDepth : (material !== undefined) ? material.maxDepth : params.depths.max,
+        noseRadius: definition.noseRadius,
+        orientation: definition.orientation,
+        plungeAngle: definition.plungeAngle,
+        width: definition.width
+    }
+}
+
+// Direction from the nose center to the imaginary tool tip for each orientation, as [z, radius] multiples of the nose radius
+const TOOL_TIP_DIRECTIONS: [number, number][] = [
+    [0, 0],
+    [1, 1],
+    [-1, 1],
+    [-1, -1],
+    [1, -1],
+    [1, 0],
+    [0, 1],
+    [-1, 0],
+    [0, -1],
+    [0, 0]
+]
+
+/**
+ * A position on radius against z, used while offsetting.
+ */
+interface PlanePoint {
+    z: number
+    r: number
+}
+
+/**
+ * A single line or arc of a nose center path.
+ */
+interface OffsetSegment {
+    start: PlanePoint
+    end: PlanePoint
+    // Directions of travel and outward normals at each end
+    startTangent: PlanePoint
+    endTangent: PlanePoint
+    startNormal: PlanePoint
+    endNormal: PlanePoint
+    // Center and signed radius for arcs, following the convention held by DimensionPoint
+    center?: PlanePoint
+    radius?: number
+    // Location of the profile point the segment ends at, for error messages
+    profileZ: number
+}
+
+function planePoint(point: DimensionPoint): PlanePoint {
+    return { z: point.z, r: point.x / 2 }
+}
+
+function planeOffset(point: PlanePoint, direction: PlanePoint, distance: number): PlanePoint {
+    return { z: point.z + distance * direction.z, r: point.r + distance * direction.r }
+}
+
+function planeUnit(z: number, r: number): PlanePoint {
+    let length: number = Math.hypot(z, r)
+    return { z: z / length, r: r / length }
+}
+
+/**
+ * Builds the nose center path for one line or arc of a profile.
+ */
+function offsetSegment(start: DimensionPoint, end: DimensionPoint, noseRadius: number): OffsetSegment {
+    let a: PlanePoint = planePoint(start)
+    let b: PlanePoint = planePoint(end)
+
+    if (end.radius === undefined) {
+        let tangent: PlanePoint = planeUnit(b.z - a.z, b.r - a.r)
+        // The outward normal is to the right of the direction of travel
+        let normal: PlanePoint = { z: tangent.r, r: -tangent.z }
+        return {
+            start: planeOffset(a, normal, noseRadius),
+            end: planeOffset(b, normal, noseRadius),
+            startTangent: tangent,
+            endTangent: tangent,
+            startNormal: normal,
+            endNormal: normal,
+            profileZ: end.z
+        }
+    }
+
+    let arc: ArcGeometry = arcGeometry(start, end)
+    let center: PlanePoint = planePoint(arc.center)
+    let tangentAt = (point: PlanePoint): PlanePoint => {
+        let radial: PlanePoint = planeUnit(point.z - center.z, point.r - center.r)
+        return arc.clockwise ? { z: radial.r, r: -radial.z } : { z: -radial.r, r: radial.z }
+    }
+    let startTangent: PlanePoint = tangentAt(a)
+    let endTangent: PlanePoint = tangentAt(b)
+    let startNormal: PlanePoint = { z: startTangent.r, r: -startTangent.z }
+    let endNormal: PlanePoint = { z: endTangent.r, r: -endTangent.z }
+
+    // The offset arc grows where the normal points away from the center, and shrinks where it points toward it
+    let growing: boolean = (a.z - center.z) * startNormal.z + (a.r - center.r) * startNormal.r > 0
+    let offsetRadius: number = growing ? arc.radius + noseRadius : arc.radius - noseRadius
+    if (offsetRadius <= 1e-9) {
+        throw new RangeError(`Tool nose radius ${noseRadius} is too large to cut the concave arc ending at z = ${end.z}.`)
+    }
+
+    return {
+        start: planeOffset(a, startNormal, noseRadius),
+        end: planeOffset(b, endNormal, noseRadius),
+        startTangent: startTangent,
+        endTangent: endTangent,
+        startNormal: startNormal,
+        endNormal: endNormal,
+        center: center,
+        radius: Math.sign(end.radius) * offsetRadius,
+        profileZ: end.z
+    }
+}
+
+/**
+ * Finds where two consecutive segments of a nose center path meet at an inside corner.
+ *
+ * @return The meeting point closest to the corner, or undefined if they don't meet.
+ */
+function segmentIntersection(first: OffsetSegment, second: OffsetSegment, corner: PlanePoint): PlanePoint | undefined {
+    let candidates: PlanePoint[] = []
+
+    // Intersections of a line (point and unit direction) with a circle
+    let lineCircle = (point: PlanePoint, direction: PlanePoint, center: PlanePoint, radius: number): PlanePoint[] => {
+        let fz: number = point.z - center.z
+        let fr: number = point.r - center.r
+        let b: number = fz * direction.z + fr * direction.r
+        let c: number = fz * fz + fr * fr - radius * radius
+        let discriminant: number = b * b - c
+        if (discriminant < 0) {
+            return []
+        }
+        let root: number = Math.sqrt(discriminant)
+        return [-b - root, -b + root].map(t => planeOffset(point, direction, t))
+    }
+
+    if (first.center === undefined && second.center === undefined) {
+        let d: PlanePoint = first.endTangent
+        let e: PlanePoint = second.startTangent
+        let determinant: number = d.z * -e.r - d.r * -e.z
+        if (Math.abs(determinant) > 1e-12) {
+            let qz: number = second.start.z - first.end.z
+            let qr: number = second.start.r - first.end.r
+            let t: number = (qz * -e.r - qr * -e.z) / determinant
+            candidates.push(planeOffset(first.end, d, t))
+        }
+    }
+    else if (first.center === undefined) {
+        candidates = lineCircle(first.end, first.endTangent, second.center!, Math.abs(second.radius!))
+    }
+    else if (second.center === undefined) {
+        candidates = lineCircle(second.start, second.startTangent, first.center, Math.abs(first.radius!))
+    }
+    else {
+        let c1: PlanePoint = first.center
+        let c2: PlanePoint = second.center
+        let r1: number = Math.abs(first.radius!)
+        let r2: number = Math.abs(second.radius!)
+        let distance: number = Math.hypot(c2.z - c1.z, c2.r - c1.r)
+        if (distance > 1e-12 && distance <= r1 + r2 && distance >= Math.abs(r1 - r2)) {
+            let along: number = (r1 * r1 - r2 * r2 + distance * distance) / (2 * distance)
+            let height: number = Math.sqrt(Math.max(0, r1 * r1 - along * along))
+            let axis: PlanePoint = planeUnit(c2.z - c1.z, c2.r - c1.r)
+            let base: PlanePoint = planeOffset(c1, axis, along)
+            candidates.push(planeOffset(base, { z: -axis.r, r: axis.z }, height))
+            candidates.push(planeOffset(base, { z: axis.r, r: -axis.z }, height))
+        }
+    }
+
+    let closest: PlanePoint | undefined = undefined
+    candidates.forEach(candidate => {
+        if (closest === undefined || Math.hypot(candidate.z - corner.z, candidate.r - corner.r) < Math.hypot(closest.z - corner.z, closest.r - corner.r)) {
+            closest = candidate
+        }
+    })
+    return closest
+}
+
+/**
+ * Converts a nose center position to a DimensionPoint, with an optional arc radius.
+ */
+function centerPathPoint(point: PlanePoint, radius?: number): DimensionPoint {
+    return new DimensionPoint(2 * point.r, point.z, radius)
+}
+
+/**
+ * Builds the arc the nose center follows around an outside corner, as one or two DimensionPoints holding their radius.
+ * Arcs that would join two points at the same location are split in half, as such an arc has no bulge direction against the axis.
+ */
+function cornerArcPoints(corner: PlanePoint, fromNormal: PlanePoint, toNormal: PlanePoint, noseRadius: number): DimensionPoint[] {
+    let bisector: PlanePoint = planeUnit(fromNormal.z + toNormal.z, fromNormal.r + toNormal.r)
+    let start: PlanePoint = planeOffset(corner, fromNormal, noseRadius)
+    let end: PlanePoint = planeOffset(corner, toNormal, noseRadius)
+
+    // The sign of the radius depends on whether the arc bulges away from the axis, relative to its chord
+    let signedRadius = (from: PlanePoint, to: PlanePoint, bulge: PlanePoint): number => {
+        let chordNormal: PlanePoint = planeUnit(-(to.r - from.r), to.z - from.z)
+        if (chordNormal.r < 0) {
+            chordNormal = { z: -chordNormal.z, r: -chordNormal.r }
+        }
+        return (bulge.z * chordNormal.z + bulge.r * chordNormal.r > 0) ? noseRadius : -noseRadius
+    }
+
+    if (Math.abs(end.z - start.z) < 1e-9) {
+        let middle: PlanePoint = planeOffset(corner, bisector, noseRadius)
+        let firstBulge: PlanePoint = planeUnit(fromNormal.z + bisector.z, fromNormal.r + bisector.r)
+        let secondBulge: PlanePoint = planeUnit(bisector.z + toNormal.z, bisector.r + toNormal.r)
+        return [
+            centerPathPoint(middle, signedRadius(start, middle, firstBulge)),
+            centerPathPoint(end, signedRadius(middle, end, secondBulge))
+        ]
+    }
+    return [centerPathPoint(end, signedRadius(start, end, bisector))]
+}
+
+/**
+ * Ends a nose center path where it reaches a z limit, cutting any line or arc crossing it.
+ */
+function clipCenterPath(path: DimensionPoint[], zLimit: number): DimensionPoint[] {
+    let clipped: DimensionPoint[] = [path[0]]
+    for (let i = 1; i < path.length; i++) {
+        let start: DimensionPoint = path[i - 1]
+        let end: DimensionPoint = path[i]
+        if (end.z >= zLimit) {
+            clipped.push(end)
+            continue
+        }
+        if (start.z > zLimit) {
+            let x: number = (end.radius === undefined)
+                ? start.x + (zLimit - start.z) / (end.z - start.z) * (end.x - start.x)
+                : arcDiameterAt(start, end, zLimit)
+            clipped.push(new DimensionPoint(x, zLimit, end.radius))
+        }
+        break
+    }
+    return clipped
+}
+
+/**
+ * Offsets a finishing contour so that a tool's nose is tangent to it, giving the path of the imaginary tool tip.
+ *
+ * @param points The contour in machining coordinates, in cutting order, with arcs held by the points they end at.
+ * @param tool The tool cutting the contour.
+ * @param decimals The number of decimal places printed, which the path is rounded to.
+ * @return The path for the imaginary tool tip, with arcs around outside corners.
+ */
+function noseRadiusPath(points: DimensionPoint[], tool: Tool, decimals: number): DimensionPoint[] {
+    let noseRadius: number = tool.noseRadius
+    if (noseRadius === 0) {
+        return points
+    }
+    // Largest error allowed on diameter where a short arc around an outside corner is replaced by a line
+    let tolerance: number = Math.pow(10, -decimals) / 10
+
+    // Offset each line and arc, skipping repeated points
+    let segments: OffsetSegment[] = []
+    let corners: PlanePoint[] = []
+    for (let i = 1; i < points.length; i++) {
+        if (points[i].x === points[i - 1].x && points[i].z === points[i - 1].z) {
+            continue
+        }
+        segments.push(offsetSegment(points[i - 1], points[i], noseRadius))
+        corners.push(planePoint(points[i - 1]))
+    }
+
+    // Inside corners are trimmed to where the segments meet, outside corners are noted for an arc
+    let outsideCorner: boolean[] = segments.map(() => false)
+    for (let i = 1; i < segments.length; i++) {
+        let first: OffsetSegment = segments[i - 1]
+        let second: OffsetSegment = segments[i]
+        if (Math.hypot(first.endNormal.z - second.startNormal.z, first.endNormal.r - second.startNormal.r) < 1e-9) {
+            continue
+        }
+
+        let turn: number = first.endTangent.z * second.startTangent.r - first.endTangent.r * second.startTangent.z
+        if (turn > 0) {
+            outsideCorner[i] = true
+            continue
+        }
+
+        let meeting: PlanePoint | undefined = segmentIntersection(first, second, corners[i])
+        let fits = (segment: OffsetSegment, point: PlanePoint): boolean => {
+            let chordZ: number = segment.end.z - segment.start.z
+            let chordR: number = segment.end.r - segment.start.r
+            let along: number = (point.z - segment.start.z) * chordZ + (point.r - segment.start.r) * chordR
+            return along > -1e-9 && along < chordZ * chordZ + chordR * chordR + 1e-9
+        }
+        if (meeting === undefined || !fits(first, meeting) || !fits(second, meeting)) {
+            throw new RangeError(`Tool nose radius ${noseRadius} is too large to reach into the profile at z = ${first.profileZ}.`)
+        }
+        first.end = meeting
+        second.start = meeting
+    }
+
+    // Collect the nose center path, then shift it to the imaginary tool tip
+    let path: DimensionPoint[] = [centerPathPoint(segments[0].start)]
+    segments.forEach((segment, index) => {
+        if (outsideCorner[index]) {
+            let previousNormal: PlanePoint = segments[index - 1].endNormal
+            let angle: number = Math.acos(Math.min(1, previousNormal.z * segment.startNormal.z + previousNormal.r * segment.startNormal.r))
+            // Lines within tolerance of the arc are used for small corners, which also keeps arcs from rounding to nothing
+            if (2 * noseRadius * (1 - Math.cos(angle / 2)) > tolerance) {
+                path.push(...cornerArcPoints(corners[index], previousNormal, segment.startNormal, noseRadius))
+            }
+        }
+        path.push(centerPathPoint(segment.end, segment.radius))
+    })
+    path = clipCenterPath(path, Math.min(...points.map(point => point.z)) + noseRadius)
+
+    let tip: [number, number] = TOOL_TIP_DIRECTIONS[tool.orientation]
+    return roundTowardMaterial(path.map(point => new DimensionPoint(point.x + 2 * tip[1] * noseRadius, point.z + tip[0] * noseRadius, point.radius)), decimals)
+}
+
+/**
+ * Rounds a tool path to the printed precision without cutting into the part.  Rounding Z moves a point along a sloped path, so
+ * the diameter is first raised to where the path is at the rounded Z, then rounded up.
+ *
+ * @param path The path of the imaginary tool tip.
+ * @param decimals The number of decimal places printed.
+ * @return The rounded path.
+ */
+function roundTowardMaterial(path: DimensionPoint[], decimals: number): DimensionPoint[] {
+    let scale: number = Math.pow(10, decimals)
+    return path.map((point, index) => {
+        let z: number = Math.round(point.z * scale) / scale
+        let x: number = point.x
+        for (let neighbor of [path[index - 1], path[index + 1]]) {
+            if (neighbor !== undefined && Math.abs(neighbor.z - point.z) > 1e-9) {
+                x = Math.max(x, point.x + (neighbor.x - point.x) / (neighbor.z - point.z) * (z - point.z))
+            }
+        }
+        // Values already on the printed precision are left there, rather than raised by floating point error
+        return new DimensionPoint(Math.ceil(x * scale - 1e-6) / scale, z, point.radius)
+    })
+}
+
+/**
+ * Finds the contour a tool tip path cut with geometric compensation finishes, undoing noseRadiusPath.  Each point of the nose
+ * center path is moved back onto the contour against the normals of the lines and arcs meeting there, so arcs of the nose radius
+ * around outside corners close up to the corner, and the end the path was cut short at is extended to the end of the contour.
+ *
+ * @param path The path of the imaginary tool tip, in machining coordinates, in cutting order toward the collet, with arcs held by the points they end at.
+ * @param tool The tool the path was cut with.
+ * @param decimals The number of decimal places the path was printed with, which the contour is rounded to.
+ * @return The contour, and the index in the path of the point each contour point was found from.
+ */
+function undoNoseRadiusPath(path: DimensionPoint[], tool: Tool, decimals: number): { points: DimensionPoint[], sources: number[] } {
+    let noseRadius: number = tool.noseRadius
+    if (noseRadius === 0) {
+        return { points: path, sources: path.map((point, index) => index) }
+    }
+    let scale: number = Math.pow(10, decimals)
+    let tip: [number, number] = TOOL_TIP_DIRECTIONS[tool.orientation]
+    let center: DimensionPoint[] = path.map(point => new DimensionPoint(point.x - 2 * tip[1] * noseRadius, point.z - tip[0] * noseRadius, point.radius))
+
+    // Lines and arcs of the nose center path, skipping repeated points.  Arcs of the nose radius about a point inside the material
+    // are those rolled around outside corners
+    let segments: OffsetSegment[] = []
+    let starts: number[] = []
+    let ends: number[] = []
+    let aroundCorner: boolean[] = []
+    for (let i = 1; i < center.length; i++) {
+        if (Math.abs(center[i].x - center[i - 1].x) < 1e-9 && Math.abs(center[i].z - center[i - 1].z) < 1e-9) {
+            continue
+        }
+        let segment: OffsetSegment = offsetSegment(center[i - 1], center[i], 0)
+        starts.push(i - 1)
+        ends.push(i)
+        segments.push(segment)
+        aroundCorner.push(segment.center !== undefined
+            && Math.abs(Math.abs(segment.radius!) - noseRadius) <= 1 / scale
+            && (segment.start.z - segment.center.z) * segment.startNormal.z + (segment.start.r - segment.center.r) * segment.startNormal.r > 0)
+    }
+    if (segments.length === 0) {
+        return { points: path, sources: path.map((point, index) => index) }
+    }
+
+    // Arcs of the contour are the arcs of the path less the nose radius where they bulge away from the axis, and more where they don't
+    let contourRadius = (segment: OffsetSegment): number | undefined => {
+        if (segment.center === undefined) {
+            return undefined
+        }
+        let growing: boolean = (segment.start.z - segment.center.z) * segment.startNormal.z + (segment.start.r - segment.center.r) * segment.startNormal.r > 0
+        let radius: number = growing ? Math.abs(segment.radius!) - noseRadius : Math.abs(segment.radius!) + noseRadius
+        if (radius <= 1e-9) {
+            throw new RangeError(`The arc ending at z = ${segment.end.z} is too small to have been cut with a ${noseRadius} nose radius.`)
+        }
+        return Math.sign(segment.radius!) * radius
+    }
+
+    // Where the path turns toward the material it was trimmed at an inside corner, which lies along the bisector of the normals.
+    // Elsewhere the point lies on the normal of the line or arc reaching it
+    let planes: PlanePoint[] = [planeOffset(segments[0].start, segments[0].startNormal, -noseRadius)]
+    let radii: (number | undefined)[] = [undefined]
+    let sources: number[] = [starts[0]]
+    segments.forEach((segment, index) => {
+        if (aroundCorner[index]) {
+            return
+        }
+        let next: OffsetSegment | undefined = segments[index + 1]
+        let normal: PlanePoint = segment.endNormal
+        let corner: PlanePoint = planeOffset(segment.end, normal, -noseRadius)
+        if (next !== undefined && segment.endTangent.z * next.startTangent.r - segment.endTangent.r * next.startTangent.z < 0) {
+            let alignment: number = 1 + normal.z * next.startNormal.z + normal.r * next.startNormal.r
+            if (alignment < 1e-6) {
+                throw new RangeError(`The path turns back on itself at z = ${segment.end.z}, so can't have been cut with nose radius compensation.`)
+            }
+            corner = {
+                z: segment.end.z - noseRadius * (normal.z + next.startNormal.z) / alignment,
+                r: segment.end.r - noseRadius * (normal.r + next.startNormal.r) / alignment
+            }
+        }
+        planes.push(corner)
+        radii.push(contourRadius(segment))
+        sources.push(ends[index])
+    })
+
+    // The path was ended where the nose center reached the nose radius short of the end of the contour, so the last line or arc
+    // is extended to there
+    let last: number = planes.length - 1
+    let lastSegment: OffsetSegment = segments[segments.length - 1]
+    let endZ: number = lastSegment.end.z - noseRadius
+    if (last > 0 && !aroundCorner[segments.length - 1] && Math.abs(planes[last].z - endZ) > 1e-9) {
+        if (radii[last] !== undefined) {
+            let reached: DimensionPoint = centerPathPoint(planes[last], radii[last])
+            planes[last] = { z: endZ, r: arcDiameterAt(centerPathPoint(planes[last - 1]), reached, endZ) / 2 }
+        }
+        else if (Math.abs(lastSegment.endTangent.z) > 1e-9) {
+            let along: number = (endZ - planes[last].z) / lastSegment.endTangent.z
+            planes[last] = planeOffset(planes[last], lastSegment.endTangent, along)
+        }
+    }
+
+    // The path was rounded up toward the material, by up to a printed unit, so diameters are rounded back down, allowing for
+    // floating point error
+    let points: DimensionPoint[] = planes.map((plane, index) => new DimensionPoint(
+        Math.floor(2 * plane.r * scale + 0.02) / scale,
+        Math.round(plane.z * scale) / scale,
+        radii[index]))
+    return { points: points, sources: sources }
+}
@@ -0,0 +1,310 @@
+/*
+Validation of job inputs:
+- Every problem with the stock, profile, parameters and resulting sections is collected before any code is generated, rather than
+  stopping at the first
+- Errors stop generation, while warnings are noted at the top of the program
+- Problems in the profile refer to the row of the input they were found in, counting from 1 within the range or file
+- The sheet can show the full report as a table through validateCode, and genCode gives it in place of code when there are errors
+*/
+
+type ValidationSeverity = "error" | "warning"
+
+type ValidationIssueType =
+    "invalidStock" | "invalidParameters" | "skippedCell" | "missingValue" | "unequalLengths" | "invalidRadius" | "tooFewPoints" |
+    "noLength" | "duplicateLocation" | "negativeDiameter" | "beyondStock" | "invalidArc" | "taperTooSteep" | "fewSectionPoints" |
+    "pullClearance" | "invalidSection" | "fitDeviation" | "invalidBoundary" | "slenderSection" |
+    "offsetLocation"
+
+interface ValidationIssue {
+    severity: ValidationSeverity
+    type: ValidationIssueType
+    // Input the issue was found in: "stock", "diameter", "location", "radius" or "parameters", or "" for the profile as a whole
+    column: string
+    // Row of the input (1 based), or 0 if not tied to a row
+    row: number
+    message: string
+}
+
+/**
+ * Problems found in the inputs of a job.
+ */
+class ValidationReport {
+    issues: ValidationIssue[] = []
+
+    error(type: ValidationIssueType, column: string, row: number, message: string): void {
+        this.issues.push({ severity: "error", type: type, column: column, row: row, message: message })
+    }
+
+    warning(type: ValidationIssueType, column: string, row: number, message: string): void {
+        this.issues.push({ severity: "warning", type: type, column: column, row: row, message: message })
+    }
+
+    get errors(): ValidationIssue[] {
+        return this.issues.filter(issue => issue.severity === "error")
+    }
+
+    get warnings(): ValidationIssue[] {
+        return this.issues.filter(issue => issue.severity === "warning")
+    }
+
+    hasErrors(): boolean {
+        return this.errors.length > 0
+    }
+
+    /**
+     * Describes an issue with its cell reference, such as "Diameter row 3: ...".
+     */
+    static describe(issue: ValidationIssue): string {
+        if (issue.column === "") {
+            return issue.message
+        }
+        let column: string = issue.column.charAt(0).toUpperCase() + issue.column.slice(1)
+        return `${column}${(issue.row > 0) ? " row " + issue.row : ""}: ${issue.message}`
+    }
+
+    /**
+     * Lists every issue on its own line, errors first.
+     */
+    toString(): string {
+        return this.errors.concat(this.warnings)
+            .map(issue => `${issue.severity.toUpperCase()} - ${ValidationReport.describe(issue)}`)
+            .join("\n")
+    }
+
+    /**
+     * Lays the issues out as a table with a header row, for display in the sheet.
+     */
+    toTable(): (string | number)[][] {
+        let table: (string | number)[][] = [["Severity", "Type", "Input", "Row", "Message"]]
+        this.errors.concat(this.warnings).forEach(issue => {
+            table.push([issue.severity, issue.type, issue.column, (issue.row > 0) ? issue.row : "", issue.message])
+        })
+        return table
+    }
+}
+
+/**
+ * Thrown when a job can't be generated, carrying the report of everything found wrong with it.
+ */
+class ValidationError extends Error {
+    report: ValidationReport
+
+    constructor (report: ValidationReport) {
+        super(report.toString())
+        this.name = "ValidationError"
+        this.report = report
+    }
+}
+
+/**
+ * Checks everything about a job that can be known before generating code: the stock, the profile, the angles the tools must
+ * plunge at, and the sections the profile is divided into.
+ *
+ * @param stockDiameter The diameter of the rod stock, which is NaN if the input was not a number.
+ * @param profile The mandrel profile, with points sorted by location.
+ * @param params The job parameters in use.
+ * @param report The report to add any problems to.
+ */
+function validateJob(stockDiameter: number, profile: Profile, params: JobParameters, report: ValidationReport): void {
+    if (!isFinite(stockDiameter) || stockDiameter <= 0) {
+        report.error("invalidStock", "stock", 0, "Stock diameter must be a number greater than zero.")
+    }
+    validateProfilePoints(stockDiameter, profile, params.units, report)
+
+    // The remaining checks need a profile that can be divided into sections
+    if (report.hasErrors()) {
+        return
+    }
+    let oriented: Profile = orientProfile(profile)
+    validatePlungeAngles(oriented, params, report)
+    let boundaries: number[] = sectionBoundaries(oriented, params, oriented !== profile)
+    validateBoundaries(profile, boundaries, params, report)
+    if (report.hasErrors()) {
+        return
+    }
+    validateSections(stockDiameter, interpolatePoints(oriented.diameters, oriented.locations, params, oriented.radii, boundaries), params, report)
+}
+
+/**
+ * Checks that the boundaries a profile is divided at lie within it, and leave no section longer than the stickout.
+ *
+ * @param profile The mandrel profile, with points sorted by location.
+ * @param boundaries The boundaries of its sections, as found by sectionBoundaries.
+ * @param params The job parameters in use.
+ * @param report The report to add any problems to.
+ */
+function validateBoundaries(profile: Profile, boundaries: number[], params: JobParameters, report: ValidationReport): void {
+    let length: number = Math.max(...profile.locations)
+    parseBoundaryList(params.sections.boundaries).forEach(location => {
+        if (location <= profile.locations[0] + 1e-9 || location >= length - 1e-9) {
+            report.error("invalidBoundary", "parameters", 0, `Section boundary ${location} is not within the profile, which runs from ${profile.locations[0]} to ${length}.`)
+        }
+    })
+    if (report.hasErrors()) {
+        return
+    }
+
+    let ends: number[] = boundaries.concat([length])
+    ends.forEach((end, i) => {
+        let sectionLength: number = end - ((i === 0) ? 0 : ends[i - 1])
+        if (sectionLength > params.stickout + 1e-9) {
+            report.error("invalidBoundary", "parameters", 0, `Section ${i + 1} is ${+sectionLength.toFixed(6)} long, longer than the stickout of ${params.stickout}.`)
+        }
+    })
+}
+
+/**
+ * Checks that sorted profile points describe a shape that can be turned from the stock.  Diameters are a function of location
+ * except at shoulders, where a vertical face is given as two points at the same location.
+ */
+function validateProfilePoints(stockDiameter: number, profile: Profile, units: string, report: ValidationReport): void {
+    let points: DimensionPoint[] = profile.diameters.map((diameter, i) => new DimensionPoint(diameter, profile.locations[i], (profile.radii[i] === 0) ? undefined : profile.radii[i]))
+
+    if (points.length < 2) {
+        report.error("tooFewPoints", "diameter", 0, "At least two diameters are needed to define a mandrel.")
+        return
+    }
+    if (points[0].z === points[points.length - 1].z) {
+        report.error("noLength", "location", 0, "Mandrel has no length, all diameters are at the same location.")
+    }
+    // Locations are measured from the end of the profile, which sections and boundaries are placed from
+    if (points[0].z > 0) {
+        report.error("offsetLocation", "location", profile.rows[0], `Profile starts at location ${points[0].z}, locations must be measured from 0 at its end.`)
+    }
+
+    points.forEach((point, i) => {
+        let row: number = profile.rows[i]
+        if (point.z < 0) {
+            report.error("offsetLocation", "location", row, `Location ${point.z} is negative, locations must be measured from 0 at the end of the profile.`)
+        }
+        // A diameter of zero is allowed for a fully radiused tip
+        if (point.x < 0) {
+            report.error("negativeDiameter", "diameter", row, `Diameter ${point.x} is negative.`)
+        }
+        else if (isFinite(stockDiameter) && point.x > stockDiameter) {
+            report.error("beyondStock", "diameter", row, `Diameter ${point.x} is larger than the ${stockDiameter} ${units} stock.`)
+        }
+
+        if (i >= 2 && point.z === points[i - 1].z && point.z === points[i - 2].z) {
+            report.error("duplicateLocation", "location", row, `More than two diameters given at location ${point.z}, a shoulder is defined by only its two diameters.`)
+        }
+        else if (i >= 1 && point.z === points[i - 1].z && point.x === points[i - 1].x) {
+            report.warning("duplicateLocation", "location", row, `Point at location ${point.z} repeats the row before it.`)
+        }
+
+        if (i > 0 && point.radius !== undefined) {
+            try {
+                checkArc(points[i - 1], point)
+                let top: number = profileMaxDiameter([points[i - 1], point])
+                if (isFinite(stockDiameter) && top > stockDiameter && point.x <= stockDiameter && points[i - 1].x <= stockDiameter) {
+                    report.error("beyondStock", "radius", row, `Arc reaches a diameter of ${+top.toFixed(4)}, larger than the ${stockDiameter} ${units} stock.`)
+                }
+            } catch (err) {
+                report.error("invalidArc", "radius", row, err.message)
+            }
+        }
+    })
+}
+
+/**
+ * Checks that the roughing and finishing tools can follow every part of the profile that falls toward the collet, where the tool
+ * feeds down into the part and the face behind it must clear the material it has just cut.  When finishing away from the collet,
+ * the finishing tool feeds down where the profile rises toward the collet instead, so those parts are checked for it too.
+ *
+ * @param profile The profile, in the order it is machined.
+ */
+function validatePlungeAngles(profile: Profile, params: JobParameters, report: ValidationReport): void {
+    let tools: Tool[] = [getTool(params, params.roughingTool), getTool(params, params.finishingTool)]
+        .filter((tool, index, all) => all.findIndex(other => other.number === tool.number) === index)
+    let awayTool: Tool | undefined = (params.finishing.direction === "away from collet") ? getTool(params, params.finishingTool) : undefined
+
+    for (let i = 1; i < profile.diameters.length; i++) {
+        let start: DimensionPoint = new DimensionPoint(profile.diameters[i - 1], profile.locations[i - 1])
+        let end: DimensionPoint = new DimensionPoint(profile.diameters[i], profile.locations[i], (profile.radii[i] === 0) ? undefined : profile.radii[i])
+        // Arcs are steepest at one of their ends, which the short lines following them reach closely enough
+        let segment: DimensionPoint[] = expandArcs([start, end], 1e-6)
+
+        let steepest: number = 0
+        let steepestRise: number = 0
+        for (let j = 1; j < segment.length; j++) {
+            let fall: number = (segment[j - 1].x - segment[j].x) / 2
+            let angle: number = Math.atan2(Math.abs(fall), segment[j].z - segment[j - 1].z) * 180 / Math.PI
+            if (fall > 0) {
+                steepest = Math.max(steepest, angle)
+            }
+            else if (fall < 0) {
+                steepestRise = Math.max(steepestRise, angle)
+            }
+        }
+
+        let column: string = (profile.radii[i] === 0) ? "diameter" : "radius"
+        tools.forEach(tool => {
+            if (steepest > tool.plungeAngle + 1e-6) {
+                report.error("taperTooSteep", column, profile.rows[i],
+                    `Profile falls toward the collet at ${+steepest.toFixed(1)} degrees, steeper than T${tool.number} can plunge at ${tool.plungeAngle} degrees.`)
+            }
+        })
+        if (awayTool !== undefined && steepestRise > awayTool.plungeAngle + 1e-6) {
+            report.error("taperTooSteep", column, profile.rows[i],
+                `Profile rises toward the collet at ${+steepestRise.toFixed(1)} degrees, steeper than T${awayTool.number} can plunge at ${awayTool.plungeAngle} degrees when finishing away from the collet.`)
+        }
+    }
+}
+
+/**
+ * Checks the sections a profile is divided into: that each full length section is described by more than its ends, that the stock can be pulled
+ * against the cutter over the sections already machined, that no section is too slender, and that any section to be compared exists.
+ */
+function validateSections(stockDiameter: number, sections: Section[], params: JobParameters, report: ValidationReport): void {
+    if (params.compareSection > sections.length) {
+        report.error("invalidSection", "parameters", 0, `Cannot compare section ${params.compareSection}, the mandrel only has ${sections.length} section${(sections.length > 1) ? "s" : ""}.`)
+    }
+
+    let pullDiameters: number[] = sectionPullDiameters(sections, params)
+    sections.forEach((section, i) => {
+        // A short final section is often only the last part of a taper, so isn't expected to hold any diameters of its own, and
+        // boundaries chosen for the profile rather than every stickout may leave a single line of it between them
+        let chosenBoundaries: boolean = params.sections.placement === "auto" || params.sections.boundaries !== ""
+        if (!chosenBoundaries && section.length >= params.stickout - 1e-9 && !section.points.some(point => point.z > 0 && point.z < section.length)) {
+            report.warning("fewSectionPoints", "", 0, `Section ${i + 1} has no diameters given between its ends, so is cut as a straight taper.`)
+        }
+        // Only later sections are pulled over machined diameters, as a compared section is always cut from fresh stock
+        if (params.compareSection === 0 && pullDiameters[i] > section.startPoint.x && pullDiameters[i] + params.spacing.xClearance >= stockDiameter) {
+            report.error("pullClearance", "", 0, `Section ${i + 1} cannot be pulled against the cutter, as earlier diameters are too close to the stock diameter.`)
+        }
+        // Auto placement keeps to the limit, but fixed and given boundaries may not
+        let smallest: number = Math.min(...section.points.filter(point => point.z >= -1e-9).map(point => point.x))
+        if (params.sections.maxSlenderness > 0 && smallest > 0 && section.length > params.sections.maxSlenderness * smallest + 1e-9) {
+            report.warning("slenderSection", "", 0,
+                `Section ${i + 1} is ${+(section.length / smallest).toFixed(1)} times as long as its smallest diameter, more than sections.maxSlenderness allows.`)
+        }
+    })
+}
+
+/**
+ * Checks the inputs for a mandrel without generating code, listing every problem found.
+ *
+ * @param {number} stockDiameter The diameter of the rod stock to be machined.
+ * @param {Array<number>} diameterPoints Diameter measurments for the mandrel, as given to genCode.
+ * @param {Array<number>=} optPointLocations Locations of the points given in diameterPoints, as given to genCode.
+ * @param {Array<Array<string>>|string=} optParameters Job parameter overrides, as given to genCode.
+ * @param {Array<number>=} optRadiusList Radii of arcs reaching each point from the previous one, as given to genCode.
+ * @return A table of the errors and warnings found, with the input and row each was found in.
+ * @customfunction
+ */
+function validateCode(stockDiameter, diameterList, optLocationList, optParameters?, optRadiusList?): (string | number)[][] {
+    let job: JobInputs = readJob(stockDiameter, diameterList, optLocationList, optParameters, optRadiusList)
+    let report: ValidationReport = job.report
+    try {
+        prepareJob(job.stockDiameter, job.profile, job.params, report)
+    } catch (err) {
+        // Errors are already in the report, which is shown in full either way
+        if (!(err instanceof ValidationError)) {
+            throw err
+        }
+    }
+    if (report.issues.length === 0) {
+        return [["No problems found"]]
+    }
+    return report.toTable()
+}